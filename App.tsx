@@ -1,13 +1,161 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { callGemini, callGeminiProofread, GeminiResponseData } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { callGeminiProofread, callGeminiStream, GroundingCitation } from './services/geminiService';
 import Spinner from './components/Spinner';
 import ResultSection from './components/ResultSection';
 import Disclaimer from './components/Disclaimer';
 import ErrorMessage from './components/ErrorMessage';
-import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
-
-type TabName = 'translate' | 'prepare' | 'summarize' | 'labs' | 'record';
+import LabResultsTable from './components/LabResultsTable';
+import LabHistoryPanel from './components/LabHistoryPanel';
+import MedicationListManager from './components/MedicationListManager';
+import AppointmentQuestionList from './components/AppointmentQuestionList';
+import ReminderList from './components/ReminderList';
+import LiveSettingsPanel from './components/LiveSettingsPanel';
+import BilingualTranslationView from './components/BilingualTranslationView';
+import ReadabilityBadge from './components/ReadabilityBadge';
+import ReadingLevelSelect from './components/ReadingLevelSelect';
+import InteractionFindings from './components/InteractionFindings';
+import PatientProfileEditor from './components/PatientProfileEditor';
+import ProfileContextToggle from './components/ProfileContextToggle';
+import RedactionPreview from './components/RedactionPreview';
+import HistoryPanel from './components/HistoryPanel';
+import VisitPacketExport from './components/VisitPacketExport';
+import VisitRecapView from './components/VisitRecapView';
+import TranscriptLog from './components/TranscriptLog';
+import InputLevelMeter from './components/InputLevelMeter';
+import DocumentPagePicker from './components/DocumentPagePicker';
+import CameraCapture from './components/CameraCapture';
+import GlossaryPopoverHost from './components/GlossaryPopoverHost';
+import GlossaryBrowser from './components/GlossaryBrowser';
+import MarkdownContent from './components/MarkdownContent';
+import ReferenceList from './components/ReferenceList';
+import SourcePolicyPanel from './components/SourcePolicyPanel';
+import { getLlmProvider } from './services/llmProvider';
+import { setPhiRedactionEnabled } from './services/phiRedaction';
+import { buildLabExplanationPrompt, extractLabPanel, findUnmatchedLabNumbers, LabPanel } from './services/labResults';
+import { checkInteractions, explainInteraction, InteractionFinding } from './services/drugInteractions';
+import {
+  deleteMedication,
+  extractMedications,
+  findNewMedications,
+  formatMedicationContext,
+  isActiveMedication,
+  loadMedications,
+  loadShareMedicationsWithTabs,
+  Medication,
+  MedicationDraft,
+  saveMedication,
+  saveShareMedicationsWithTabs,
+} from './services/medications';
+import {
+  buildProfileContext,
+  clearProfile,
+  hasStoredProfile,
+  loadProfile,
+  PatientProfile,
+  ProfileContextTab,
+  ReadingLevel,
+  saveProfile,
+} from './services/patientProfile';
+import {
+  dataUrlToFile,
+  deleteHistoryEntry,
+  HistoryEntry,
+  loadHistory,
+  NewHistoryEntry,
+  saveHistoryEntry,
+  sortHistory,
+  updateHistoryEntry,
+} from './services/sessionHistory';
+import { VisitPacketSources } from './services/visitPacket';
+import {
+  addSpeaker,
+  DEFAULT_SPEAKERS,
+  diarizeTranscript,
+  formatTranscript,
+  MODEL_SPEAKER_ID,
+  PATIENT_SPEAKER_ID,
+  SpeakerRole,
+  TranscriptEntry,
+  TranscriptSpeaker,
+} from './services/transcript';
+import {
+  formatVisitRecap,
+  generateVisitRecap,
+  parseSavedRecording,
+  SavedRecording,
+  serializeRecording,
+  VISIT_LISTENER_INSTRUCTION,
+  VisitRecap,
+} from './services/visitRecap';
+import { createBlob, decode, decodeAudioData, LIVE_OUTPUT_SAMPLE_RATE } from './services/audioCodec';
+import { MicCapture, startMicCapture } from './services/micCapture';
+import {
+  backoffDelay,
+  classifyLiveClose,
+  classifyLiveError,
+  CONNECTION_STATE_LABELS,
+  LiveConnectionState,
+  LiveFailure,
+  MAX_BUFFERED_AUDIO_MS,
+  MAX_RECONNECT_ATTEMPTS,
+} from './services/liveConnection';
+import { AudioCapture, deleteSessionAudio, loadSessionAudio, mixSessionAudio, saveSessionAudio, startAudioCapture } from './services/sessionAudio';
+import { buildLabHistoryPrompt, buildTrendSeries, deleteLabReport, findHistorySeriesForQuestion, LabReport, loadLabReports, saveLabReport } from './services/labHistory';
+import {
+  AppointmentQuestion,
+  createAppointmentQuestion,
+  deleteAppointmentQuestion,
+  loadAppointmentQuestions,
+  saveAppointmentQuestion,
+} from './services/appointmentQuestions';
+import { deleteReminder, loadReminders, Reminder, saveReminder, scheduleReminders, showReminderNotification } from './services/reminders';
+import { buildLiveToolsInstruction, executeLiveTool, LIVE_TOOL_DECLARATIONS, LiveToolContext } from './services/liveTools';
+import { buildAdvocateInstruction, buildLiveSettingsConfig, LiveSettings, loadLiveSettings, saveLiveSettings } from './services/liveSettings';
+import { APP_LANGUAGES, AppLanguage, buildLanguageInstruction, loadAppLanguage, saveAppLanguage, uiStrings } from './services/i18n';
+import {
+  BilingualTranslation,
+  formatBilingualTranslation,
+  parseSavedBilingualTranslation,
+  translateJargonBilingual,
+} from './services/bilingualTranslation';
+import { appendPageText, describePages, DocumentPage, loadDocumentPages, releaseDocumentPages } from './services/documentPages';
+import {
+  createQueuedTerm,
+  defineGlossaryTerms,
+  deleteUserGlossaryTerm,
+  glossaryEntries,
+  loadUserGlossary,
+  saveUserGlossaryTerm,
+  UserGlossaryTerm,
+} from './services/glossary';
+import { buildSimplifyPrompt, loadReadingLevel, meetsReadingLevel, saveReadingLevel, scoreReadability, withReadingLevel } from './services/readability';
+import { annotateCitations } from './services/groundingCitations';
+import { applySourcePolicy, buildSourcePreferenceInstruction, loadSourcePolicy, saveSourcePolicy, SourcePolicy } from './services/sourcePolicy';
+import { LiveServerMessage, Modality } from "@google/genai";
+
+type TabName = 'translate' | 'prepare' | 'summarize' | 'labs' | 'record' | 'profile' | 'history' | 'glossary';
+type RecordMode = 'conversation' | 'listener'; // Listener mode records an appointment without the model speaking
+type ReadabilityTab = 'translate' | 'labs'; // Tabs whose explanations are scored against the reading level
+type DocumentTab = 'summarize' | 'labs'; // Tabs that accept uploaded pages
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+// The native audio model can only answer in speech; the silent listener uses a model that can answer in text
+const LIVE_LISTENER_MODEL = 'gemini-live-2.5-flash-preview';
+const MIC_BATCH_MS = 100; // Audio sent to the Live API per message
+
+// History entry for a recorded session; the structured transcript is kept so it can be reopened and edited
+const buildRecordingEntry = (recording: SavedRecording): NewHistoryEntry => ({
+  tab: 'record',
+  inputText: '',
+  imageName: null,
+  output: recording.recap
+    ? `${formatVisitRecap(recording.recap, recording.transcript)}\n\n## Transcript\n${formatTranscript(recording.transcript, recording.speakers)}`
+    : formatTranscript(recording.transcript, recording.speakers),
+  extraOutput: serializeRecording(recording),
+  model: LIVE_MODEL,
+  groundingUrls: [],
+});
 
 // Declare window.aistudio for TypeScript
 declare global {
@@ -26,143 +174,20 @@ declare global {
   }
 }
 
-// Utility functions for audio decoding/encoding as per @google/genai Live API guidelines
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-function createBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
-}
-
-// Helper for inline markdown (bold/italic)
-const parseInlineMarkdown = (text: string): React.ReactNode => {
-  let html = text;
-
-  // Handle bold first to prevent it from being caught by italic regex
-  html = html.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-
-  // Handle italic (single asterisks) - ensuring it's not part of a bold tag
-  html = html.replace(/(?<!\*)\*([^*]+?)\*(?!\*)/g, '<em>$1</em>');
-  
-  // Handle italic (underscores)
-  html = html.replace(/\_([^_]+?)\_/g, '<em>$1</em>');
-
-  return <span dangerouslySetInnerHTML={{ __html: html }} />;
-};
-
-
-// Helper to convert simple markdown to React nodes
-const renderMarkdown = (markdownText: string): React.ReactNode => {
-  if (!markdownText) return null;
-
-  const lines = markdownText.split('\n');
-  const elements: React.ReactNode[] = [];
-  let currentList: { type: 'ol' | 'ul', items: React.ReactNode[] } | null = null;
-
-  const closeCurrentList = () => {
-    if (currentList) {
-      if (currentList.type === 'ol') {
-        elements.push(<ol key={`ol-block-${elements.length}`} className="list-decimal pl-5 mb-2">{currentList.items}</ol>);
-      } else {
-        elements.push(<ul key={`ul-block-${elements.length}`} className="list-disc pl-5 mb-2">{currentList.items}</ul>);
-      }
-      currentList = null;
-    }
-  };
-
-  lines.forEach((line, index) => {
-    const trimmedLine = line.trim();
-
-    // Headers (e.g., ## My Header) - We'll use h4 here to avoid conflicting with ResultSection titles
-    const headerMatch = trimmedLine.match(/^(#+)\s*(.*)/);
-    if (headerMatch) {
-      closeCurrentList();
-      const level = Math.min(headerMatch[1].length, 3); // Max h3 within a ResultSection
-      const headerText = parseInlineMarkdown(headerMatch[2]);
-      if (level === 1) elements.push(<h3 key={`h3-${index}`} className="text-xl font-semibold mb-2 mt-4 text-primary">{headerText}</h3>);
-      else if (level === 2) elements.push(<h4 key={`h4-${index}`} className="text-lg font-semibold mb-2 mt-3 text-primary">{headerText}</h4>);
-      else elements.push(<h5 key={`h5-${index}`} className="text-base font-semibold mb-2 mt-2">{headerText}</h5>);
-      return;
-    }
+// Helper to convert markdown from model output to React nodes
+const renderMarkdown = (markdownText: string): React.ReactNode =>
+  markdownText ? <MarkdownContent text={markdownText} /> : null;
 
-    // Ordered list items
-    const olMatch = trimmedLine.match(/^(\d+)\.\s*(.*)/);
-    if (olMatch) {
-      if (!currentList || currentList.type !== 'ol') {
-        closeCurrentList();
-        currentList = { type: 'ol', items: [] };
-      }
-      currentList.items.push(<li key={`li-${index}`}>{parseInlineMarkdown(olMatch[2])}</li>);
-      return;
-    }
-
-    // Unordered list items
-    const ulMatch = trimmedLine.match(/^[-*]\s*(.*)/);
-    if (ulMatch) {
-      if (!currentList || currentList.type !== 'ul') {
-        closeCurrentList();
-        currentList = { type: 'ul', items: [] };
-      }
-      currentList.items.push(<li key={`li-${index}`}>{parseInlineMarkdown(ulMatch[1])}</li>);
-      return;
-    }
-
-    // Paragraphs or empty lines
-    closeCurrentList();
-    if (trimmedLine) {
-      elements.push(<p key={`p-${index}`} className="mb-2">{parseInlineMarkdown(trimmedLine)}</p>);
-    } else {
-      elements.push(<br key={`br-${index}`} />);
-    }
-  });
-
-  closeCurrentList(); // Close any remaining open list
-
-  return <>{elements}</>;
-};
+// Grounded answers get footnote markers for their sources and a warning on medical claims no source supports
+const renderGroundedMarkdown = (markdownText: string, citations: GroundingCitation[], sources: { uri: string; title?: string }[] | null): React.ReactNode =>
+  citations.length > 0 && sources ? (
+    <>
+      <MarkdownContent text={annotateCitations(markdownText, citations)} sources={sources} />
+      <p className="mt-3 text-xs text-textSecondary">
+        Numbers like [1] link to the references below. "⚠ No source" marks medical statements that none of the search results back up.
+      </p>
+    </>
+  ) : renderMarkdown(markdownText);
 
 
 const App: React.FC = () => {
@@ -171,12 +196,26 @@ const App: React.FC = () => {
   const [apiKeyStatusMessage, setApiKeyStatusMessage] = useState<string>('');
   const [showSelectKeyButton, setShowSelectKeyButton] = useState<boolean>(false);
   const [apiIsSelecting, setApiIsSelecting] = useState<boolean>(false);
+  const [redactionEnabled, setRedactionEnabled] = useState<boolean>(true); // De-identify text before it leaves the browser
+  const [appLanguage, setAppLanguage] = useState<AppLanguage>(() => loadAppLanguage()); // Output language of every tab and the UI
+  const strings = uiStrings(appLanguage);
+  const [readingLevel, setReadingLevel] = useState<ReadingLevel>(loadReadingLevel); // Drives the Translate and Labs prompts
+  const [simplifiedTabs, setSimplifiedTabs] = useState<Record<ReadabilityTab, boolean>>({ translate: false, labs: false });
+  const [documentPages, setDocumentPages] = useState<Record<DocumentTab, DocumentPage[]>>({ summarize: [], labs: [] });
+  // Updated together with the state, so an upload counts pages added moments earlier towards the limits
+  const documentPagesRef = useRef<Record<DocumentTab, DocumentPage[]>>({ summarize: [], labs: [] });
+  // Each tab's uploads run one after another; the next one starts from the pages the last one added
+  const documentUploadsRef = useRef<Record<DocumentTab, Promise<void>>>({ summarize: Promise.resolve(), labs: Promise.resolve() });
+  const [documentPagesLoading, setDocumentPagesLoading] = useState<Record<DocumentTab, boolean>>({ summarize: false, labs: false });
+  const [documentPageErrors, setDocumentPageErrors] = useState<Record<DocumentTab, string[]>>({ summarize: [], labs: [] });
+  const [cameraTab, setCameraTab] = useState<DocumentTab | null>(null); // The tab the open camera dialog adds pages to
 
   // States for each feature
   const [translateInput, setTranslateInput] = useState<string>('');
   const [translateOutput, setTranslateOutput] = useState<string | null>(null);
   const [translateLoading, setTranslateLoading] = useState<boolean>(false);
   const [translateError, setTranslateError] = useState<string | null>(null);
+  const [translateBilingual, setTranslateBilingual] = useState<BilingualTranslation | null>(null); // Side-by-side view when not in English
   // States for Translate Jargon Proofreading
   const [translateProofreadingResult, setTranslateProofreadingResult] = useState<string | null>(null);
   const [translateProofreadingLoading, setTranslateProofreadingLoading] = useState<boolean>(false);
@@ -188,6 +227,7 @@ const App: React.FC = () => {
   const [prepareLoading, setPrepareLoading] = useState<boolean>(false);
   const [prepareError, setPrepareError] = useState<string | null>(null);
   const [prepareGroundingUrls, setPrepareGroundingUrls] = useState<{ uri: string; title?: string }[] | null>(null);
+  const [prepareCitations, setPrepareCitations] = useState<GroundingCitation[]>([]); // As returned, before the source policy
   // States for Prepare Appointment Proofreading
   const [prepareProofreadingResult, setPrepareProofreadingResult] = useState<string | null>(null);
   const [prepareProofreadingLoading, setPrepareProofreadingLoading] = useState<boolean>(false);
@@ -198,13 +238,25 @@ const App: React.FC = () => {
   const [summarizeOutput, setSummarizeOutput] = useState<string | null>(null);
   const [summarizeLoading, setSummarizeLoading] = useState<boolean>(false);
   const [summarizeError, setSummarizeError] = useState<string | null>(null);
-  const [summarizeImageFile, setSummarizeImageFile] = useState<File | null>(null); // State for image file
-  const [summarizeImagePreviewUrl, setSummarizeImagePreviewUrl] = useState<string | null>(null); // State for image preview
   // States for Summarize Notes Proofreading
   const [summarizeProofreadingResult, setSummarizeProofreadingResult] = useState<string | null>(null);
   const [summarizeProofreadingLoading, setSummarizeProofreadingLoading] = useState<boolean>(false);
   const [summarizeProofreadingError, setSummarizeProofreadingError] = useState<string | null>(null);
   const [extractedMedications, setExtractedMedications] = useState<string | null>(null); // New state for medications
+  const [medications, setMedications] = useState<Medication[]>([]); // Saved medication list, persisted in IndexedDB
+  const [medicationProposals, setMedicationProposals] = useState<MedicationDraft[]>([]);
+  const [medicationExtractionWarning, setMedicationExtractionWarning] = useState<string | null>(null); // The summary succeeded but the list proposals failed
+  const [shareMedicationsWithTabs, setShareMedicationsWithTabs] = useState<boolean>(() => loadShareMedicationsWithTabs());
+  const [appointmentQuestions, setAppointmentQuestions] = useState<AppointmentQuestion[]>([]); // The patient's own question list, persisted in IndexedDB
+  // Updated as soon as a question is accepted, ahead of the state, so tool calls made together can't add duplicates
+  const appointmentQuestionsRef = useRef<AppointmentQuestion[]>([]);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [dueReminders, setDueReminders] = useState<Reminder[]>([]); // Shown in the page when notifications are not allowed
+  const [userGlossaryTerms, setUserGlossaryTerms] = useState<UserGlossaryTerm[]>([]); // Saved and queued glossary terms, persisted in IndexedDB
+  const [glossaryDrafts, setGlossaryDrafts] = useState<UserGlossaryTerm[]>([]);
+  const [glossaryLoading, setGlossaryLoading] = useState<boolean>(false);
+  const [glossaryError, setGlossaryError] = useState<string | null>(null);
+  const [glossaryFocusId, setGlossaryFocusId] = useState<string | null>(null);
 
 
   const [labsInput, setLabsInput] = useState<string>('');
@@ -212,19 +264,72 @@ const App: React.FC = () => {
   const [labsLoading, setLabsLoading] = useState<boolean>(false);
   const [labsError, setLabsError] = useState<string | null>(null);
   const [labsGroundingUrls, setLabsGroundingUrls] = useState<{ uri: string; title?: string }[] | null>(null);
-  const [labsImageFile, setLabsImageFile] = useState<File | null>(null); // New state for image file
-  const [labsImagePreviewUrl, setLabsImagePreviewUrl] = useState<string | null>(null); // New state for image preview
+  const [labsCitations, setLabsCitations] = useState<GroundingCitation[]>([]); // As returned, before the source policy
+  const [sourcePolicy, setSourcePolicy] = useState<SourcePolicy>(() => loadSourcePolicy());
+  // The policy is applied when showing an answer, so changing it updates the references already on screen
+  const prepareGrounding = useMemo(() => prepareGroundingUrls && applySourcePolicy(prepareGroundingUrls, prepareCitations, sourcePolicy), [prepareGroundingUrls, prepareCitations, sourcePolicy]);
+  const labsGrounding = useMemo(() => labsGroundingUrls && applySourcePolicy(labsGroundingUrls, labsCitations, sourcePolicy), [labsGroundingUrls, labsCitations, sourcePolicy]);
+  const [labsUseSearch, setLabsUseSearch] = useState<boolean>(true); // Structured table mode runs when search grounding is off
+  const [labsPanel, setLabsPanel] = useState<LabPanel | null>(null);
+  const [labsUnmatchedNumbers, setLabsUnmatchedNumbers] = useState<string[]>([]);
+  const [labHistory, setLabHistory] = useState<LabReport[]>([]); // Parsed reports persisted in IndexedDB
   // States for Explain Labs Proofreading
   const [labsProofreadingResult, setLabsProofreadingResult] = useState<string | null>(null);
   const [labsProofreadingLoading, setLabsProofreadingLoading] = useState<boolean>(false);
   const [labsProofreadingError, setLabsProofreadingError] = useState<string | null>(null);
 
 
+  // States for the encrypted patient profile. The decrypted profile and passphrase only live in memory.
+  const [patientProfile, setPatientProfile] = useState<PatientProfile | null>(null);
+  const [profileLocked, setProfileLocked] = useState<boolean>(() => hasStoredProfile());
+  const [profileContextTabs, setProfileContextTabs] = useState<Record<ProfileContextTab, boolean>>({
+    translate: false,
+    prepare: false,
+    summarize: false,
+    labs: false,
+    record: false,
+  });
+  const profilePassphraseRef = useRef<string | null>(null);
+
+
+  // States for the saved session history
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [saveImagesInHistory, setSaveImagesInHistory] = useState<boolean>(false);
+
+
   // States for Record Session feature
   const [isRecording, setIsRecording] = useState<boolean>(false);
-  const [transcriptionHistory, setTranscriptionHistory] = useState<{ speaker: string; text: string }[]>([]);
+  const [transcriptionHistory, setTranscriptionHistory] = useState<TranscriptEntry[]>([]);
   const [currentLiveInputTranscription, setCurrentLiveInputTranscription] = useState<string>('');
   const [currentLiveOutputTranscription, setCurrentLiveOutputTranscription] = useState<string>('');
+  const [recordMode, setRecordMode] = useState<RecordMode>('conversation');
+  const recordModeRef = useRef<RecordMode>('conversation'); // Mode of the running session, read inside Live callbacks
+  const [visitRecap, setVisitRecap] = useState<VisitRecap | null>(null);
+  const [visitRecapLoading, setVisitRecapLoading] = useState<boolean>(false);
+  const [visitRecapError, setVisitRecapError] = useState<string | null>(null);
+  const [highlightedSegment, setHighlightedSegment] = useState<number | null>(null);
+  const [speakers, setSpeakers] = useState<TranscriptSpeaker[]>(DEFAULT_SPEAKERS);
+  const [speakersLoading, setSpeakersLoading] = useState<boolean>(false);
+  const [speakersError, setSpeakersError] = useState<string | null>(null);
+  const recordingEntryRef = useRef<HistoryEntry | null>(null); // Saved copy of the recording on screen
+
+  // Local copy of the session audio, kept only when the user opts in
+  const [keepSessionAudio, setKeepSessionAudio] = useState<boolean>(false);
+  const [sessionAudio, setSessionAudio] = useState<{ id: string; blob: Blob } | null>(null);
+  const sessionAudioUrl = useMemo(() => sessionAudio ? URL.createObjectURL(sessionAudio.blob) : null, [sessionAudio]);
+  useEffect(() => () => {
+    if (sessionAudioUrl) URL.revokeObjectURL(sessionAudioUrl);
+  }, [sessionAudioUrl]);
+  const audioCaptureRef = useRef<AudioCapture | null>(null);
+  const pendingAudioRef = useRef<Promise<Blob> | null>(null); // Audio of the session that just stopped
+  const deletedAudioIdRef = useRef<string | null>(null); // Audio deleted before its recording was saved to history
+  const audioPlayerRef = useRef<HTMLAudioElement | null>(null);
+
+  // Session start time and the offset at which each in-progress segment began
+  const sessionStartRef = useRef<number>(0);
+  const inputStartMsRef = useRef<number>(0);
+  const outputStartMsRef = useRef<number>(0);
+  const elapsedMs = () => Date.now() - sessionStartRef.current;
 
   // Fix: New refs to hold the latest transcription state to avoid stale closures in `onmessage`
   const latestInputTranscriptionRef = useRef('');
@@ -244,17 +349,65 @@ const App: React.FC = () => {
   const [liveError, setLiveError] = useState<string | null>(null);
 
   const mediaStreamRef = useRef<MediaStream | null>(null);
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const outputNodeRef = useRef<GainNode | null>(null); // Added for consistency with guidelines
-  const scriptProcessorNodeRef = useRef<ScriptProcessorNode | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const inputLevelRef = useRef<number>(0); // Latest microphone level, read by the level meter
   const liveSessionPromiseRef = useRef<Promise<any> | null>(null);
   const liveSessionRef = useRef<any | null>(null);
+
+  // Connection state machine: connecting -> live -> (reconnecting -> live)* -> ended
+  const [connectionState, setConnectionState] = useState<LiveConnectionState>('idle');
+  const connectionStateRef = useRef<LiveConnectionState>('idle');
+  const [reconnectAttempt, setReconnectAttempt] = useState<number>(0);
+  const reconnectAttemptRef = useRef<number>(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onlineListenerRef = useRef<(() => void) | null>(null);
+  const liveSessionCounterRef = useRef<number>(0); // Callbacks from older sessions are ignored
+  const resumptionHandleRef = useRef<string | null>(null);
+  const bufferedAudioRef = useRef<{ data: string; mimeType: string }[]>([]); // Mic audio captured while not connected
+  const [liveToolActivity, setLiveToolActivity] = useState<string[]>([]); // What the advocate's tool calls did this session
+  const liveToolContextRef = useRef<LiveToolContext | null>(null); // Refreshed every render so tools see current data
+  const [liveSettings, setLiveSettings] = useState<LiveSettings>(() => loadLiveSettings());
+  const [isTalking, setIsTalking] = useState<boolean>(false); // Push-to-talk button held
+  const talkingRef = useRef<boolean>(false);
+  const pushToTalkRef = useRef<boolean>(false); // Whether the running session uses push-to-talk
+
+  const updateConnectionState = (state: LiveConnectionState) => {
+    connectionStateRef.current = state;
+    setConnectionState(state);
+  };
   const nextStartTimeRef = useRef<number>(0);
   const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
 
+  // Cancels a reconnect that is waiting on its backoff timer or for the network to come back
+  const cancelPendingReconnect = () => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    if (onlineListenerRef.current) {
+      window.removeEventListener('online', onlineListenerRef.current);
+      onlineListenerRef.current = null;
+    }
+  };
+
   // Fix: Moved handleStopRecording before its usages in other useCallback hooks.
   const handleStopRecording = useCallback(() => {
+    liveSessionCounterRef.current++; // Ignore the close event of the session being shut down
+    cancelPendingReconnect();
+    bufferedAudioRef.current = [];
+    talkingRef.current = false;
+    setIsTalking(false);
+    if (connectionStateRef.current !== 'idle') {
+      updateConnectionState('ended');
+    }
+
+    if (audioCaptureRef.current) {
+      pendingAudioRef.current = audioCaptureRef.current.stop();
+      audioCaptureRef.current = null;
+    }
+
     if (liveSessionRef.current) {
       liveSessionRef.current.close();
       liveSessionRef.current = null;
@@ -266,16 +419,11 @@ const App: React.FC = () => {
       mediaStreamRef.current = null;
     }
 
-    if (scriptProcessorNodeRef.current) {
-      scriptProcessorNodeRef.current.disconnect();
-      scriptProcessorNodeRef.current.onaudioprocess = null;
-      scriptProcessorNodeRef.current = null;
-    }
-
-    if (inputAudioContextRef.current) {
-      inputAudioContextRef.current.close();
-      inputAudioContextRef.current = null;
+    if (micCaptureRef.current) {
+      micCaptureRef.current.stop();
+      micCaptureRef.current = null;
     }
+    inputLevelRef.current = 0;
     if (outputAudioContextRef.current) {
       outputAudioContextRef.current.close();
       outputAudioContextRef.current = null;
@@ -297,12 +445,14 @@ const App: React.FC = () => {
     // Finalize any ongoing transcriptions using the latest ref values
     // Fix: Use latest ref values for final history update and clear them
     if (latestInputTranscriptionRef.current) {
-      setTranscriptionHistory(prev => [...prev, { speaker: 'User', text: latestInputTranscriptionRef.current.trim() }]);
+      const entry = { speaker: PATIENT_SPEAKER_ID, text: latestInputTranscriptionRef.current.trim(), startMs: inputStartMsRef.current, endMs: elapsedMs() };
+      setTranscriptionHistory(prev => [...prev, entry]);
       setCurrentLiveInputTranscription('');
       latestInputTranscriptionRef.current = ''; // Clear ref too
     }
     if (latestOutputTranscriptionRef.current) {
-      setTranscriptionHistory(prev => [...prev, { speaker: 'Model', text: latestOutputTranscriptionRef.current.trim() }]);
+      const entry = { speaker: MODEL_SPEAKER_ID, text: latestOutputTranscriptionRef.current.trim(), startMs: outputStartMsRef.current, endMs: elapsedMs() };
+      setTranscriptionHistory(prev => [...prev, entry]);
       setCurrentLiveOutputTranscription('');
       latestOutputTranscriptionRef.current = ''; // Clear ref too
     }
@@ -357,6 +507,17 @@ const App: React.FC = () => {
     }
   }, []); // Dependencies are stable, so empty array is fine.
 
+  // Appends the medication list and minimized profile to a tab's system instruction, each only when the user has opted in,
+  // and the output language when it is not English. Live sessions set their spoken language in the advocate instruction.
+  const withPatientContext = useCallback((tab: ProfileContextTab, systemInstruction: string): string => {
+    const contexts = [
+      tab !== 'summarize' && shareMedicationsWithTabs ? formatMedicationContext(medications) : '',
+      patientProfile && profileContextTabs[tab] ? buildProfileContext(patientProfile, tab) : '',
+      tab !== 'record' ? buildLanguageInstruction(appLanguage) : '',
+    ].filter(Boolean);
+    return contexts.length > 0 ? `${systemInstruction}\n\n${contexts.join('\n')}` : systemInstruction;
+  }, [shareMedicationsWithTabs, medications, patientProfile, profileContextTabs, appLanguage]);
+
 
   const handleStartRecording = useCallback(async () => {
     // Check if API key is configured before starting recording
@@ -371,46 +532,65 @@ const App: React.FC = () => {
     setLiveError(null);
     setIsRecording(true);
     setTranscriptionHistory([]);
+    setVisitRecap(null);
+    setVisitRecapError(null);
+    setHighlightedSegment(null);
+    setSpeakersError(null);
+    setLiveToolActivity([]);
+    recordingEntryRef.current = null;
+    pendingAudioRef.current = null;
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+    resumptionHandleRef.current = null;
+    bufferedAudioRef.current = [];
+    updateConnectionState('connecting');
+    setSessionAudio(null);
+    recordModeRef.current = recordMode;
+    // The silent listener has no turns to mark, so it always keeps the mic open
+    const pushToTalk = recordMode === 'conversation' && liveSettings.micMode === 'push-to-talk';
+    pushToTalkRef.current = pushToTalk;
+    talkingRef.current = false;
+    setIsTalking(false);
+    sessionStartRef.current = Date.now();
     setCurrentLiveInputTranscription('');
     setCurrentLiveOutputTranscription('');
     latestInputTranscriptionRef.current = '';
     latestOutputTranscriptionRef.current = '';
 
 
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaStreamRef.current = stream;
-
-      const AudioContextClass = window.AudioContext || window.webkitAudioContext;
-      inputAudioContextRef.current = new AudioContextClass({ sampleRate: 16000 });
-      outputAudioContextRef.current = new AudioContextClass({ sampleRate: 24000 });
-      outputNodeRef.current = outputAudioContextRef.current.createGain(); // Initialize outputNodeRef
-      outputNodeRef.current.connect(outputAudioContextRef.current.destination);
+    // Opens a Live session; used for the first connection and for every reconnect
+    const connectSession = async (): Promise<void> => {
+      const sessionNumber = ++liveSessionCounterRef.current;
+      const isCurrent = () => sessionNumber === liveSessionCounterRef.current;
+      updateConnectionState(reconnectAttemptRef.current > 0 || resumptionHandleRef.current ? 'reconnecting' : 'connecting');
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY }); // Create new instance for up-to-date key
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+      const sessionPromise = getLlmProvider().connectLive({
+        model: recordMode === 'listener' ? LIVE_LISTENER_MODEL : LIVE_MODEL,
         callbacks: {
           onopen: () => {
-            console.debug('Live session opened');
-            const source = inputAudioContextRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-              const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioContextRef.current!.destination);
-            scriptProcessorNodeRef.current = scriptProcessor;
+            if (isCurrent()) console.debug('Live session opened');
           },
           onmessage: async (message: LiveServerMessage) => {
-            // Audio output processing
+            if (!isCurrent()) return;
+            const isListener = recordModeRef.current === 'listener';
+
+            // Keep the latest handle so a dropped session can be resumed with its context
+            if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+              resumptionHandleRef.current = message.sessionResumptionUpdate.newHandle;
+            }
+
+            // The server is about to end this session; move to a resumed one before it does
+            if (message.goAway) {
+              const oldSession = liveSessionRef.current;
+              liveSessionRef.current = null;
+              openSession();
+              oldSession?.close();
+              return;
+            }
+
+            // Audio output processing; in listener mode the model is never played back
             const base64EncodedAudioString = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64EncodedAudioString) {
+            if (base64EncodedAudioString && !isListener) {
               nextStartTimeRef.current = Math.max(
                 nextStartTimeRef.current,
                 outputAudioContextRef.current!.currentTime,
@@ -418,7 +598,7 @@ const App: React.FC = () => {
               const audioBuffer = await decodeAudioData(
                 decode(base64EncodedAudioString),
                 outputAudioContextRef.current!,
-                24000,
+                LIVE_OUTPUT_SAMPLE_RATE,
                 1,
               );
               const source = outputAudioContextRef.current!.createBufferSource();
@@ -444,22 +624,31 @@ const App: React.FC = () => {
 
             // Transcription processing
             if (message.serverContent?.outputTranscription) {
-              latestOutputTranscriptionRef.current += message.serverContent.outputTranscription.text;
-              setCurrentLiveOutputTranscription(latestOutputTranscriptionRef.current);
+              if (!isListener) {
+                if (!latestOutputTranscriptionRef.current) outputStartMsRef.current = elapsedMs();
+                latestOutputTranscriptionRef.current += message.serverContent.outputTranscription.text;
+                setCurrentLiveOutputTranscription(latestOutputTranscriptionRef.current);
+              }
             } else if (message.serverContent?.inputTranscription) {
+              if (!latestInputTranscriptionRef.current) inputStartMsRef.current = elapsedMs();
               latestInputTranscriptionRef.current += message.serverContent.inputTranscription.text;
               setCurrentLiveInputTranscription(latestInputTranscriptionRef.current);
             }
 
-            if (message.serverContent?.turnComplete) {
+            // The silent listener rarely completes turns, so also close a segment when the speaker finishes
+            const inputFinished = isListener && message.serverContent?.inputTranscription?.finished;
+            if (message.serverContent?.turnComplete || inputFinished) {
               const fullInputTranscription = latestInputTranscriptionRef.current.trim();
               const fullOutputTranscription = latestOutputTranscriptionRef.current.trim();
+              const inputStartMs = inputStartMsRef.current;
+              const outputStartMs = outputStartMsRef.current;
+              const endMs = elapsedMs();
 
               if (fullInputTranscription) {
-                setTranscriptionHistory(prev => [...prev, { speaker: 'User', text: fullInputTranscription }]);
+                setTranscriptionHistory(prev => [...prev, { speaker: PATIENT_SPEAKER_ID, text: fullInputTranscription, startMs: inputStartMs, endMs }]);
               }
               if (fullOutputTranscription) {
-                setTranscriptionHistory(prev => [...prev, { speaker: 'Model', text: fullOutputTranscription }]);
+                setTranscriptionHistory(prev => [...prev, { speaker: MODEL_SPEAKER_ID, text: fullOutputTranscription, startMs: outputStartMs, endMs }]);
               }
 
               latestInputTranscriptionRef.current = '';
@@ -468,53 +657,216 @@ const App: React.FC = () => {
               setCurrentLiveOutputTranscription('');
             }
 
-            // Handle function calls (if any, though not implemented in this app yet)
-            if (message.toolCall) {
-              console.log('Function call received:', message.toolCall);
-              // Implement logic to execute function and send tool response if needed.
+            // Run the advocate's tool calls against the app's data and return the results
+            const functionCalls = message.toolCall?.functionCalls;
+            if (functionCalls && functionCalls.length > 0 && liveToolContextRef.current) {
+              const context = liveToolContextRef.current;
+              const results = await Promise.all(functionCalls.map(call => executeLiveTool(call, context)));
+              setLiveToolActivity(prev => [...prev, ...results.map(result => result.summary)]);
+              if (!isCurrent()) return; // The session was replaced while the tools ran
+              liveSessionRef.current?.sendToolResponse({
+                functionResponses: functionCalls.map((call, index) => ({
+                  id: call.id,
+                  name: call.name,
+                  response: results[index].response,
+                })),
+              });
             }
 
           },
           onerror: (e: ErrorEvent) => {
+            if (!isCurrent()) return;
             console.error('Live session error:', e);
-            setLiveError('Live conversation encountered an error: ' + e.message);
-            handleStopRecording();
+            handleConnectionLoss(classifyLiveError(e), sessionNumber);
           },
           onclose: (e: CloseEvent) => {
+            if (!isCurrent()) return;
             console.debug('Live session closed:', e);
-            if (!e.wasClean) {
-              setLiveError('Live conversation closed unexpectedly.');
-            }
-            handleStopRecording();
+            handleConnectionLoss(classifyLiveClose(e), sessionNumber);
           },
         },
         config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-          },
-          systemInstruction: 'You are a friendly and helpful medical advocate. You explain medical terms, help prepare for appointments, summarize notes, and explain lab results.',
+          // The listener only needs the transcript of what it hears, so it is never asked for speech
+          responseModalities: [recordMode === 'listener' ? Modality.TEXT : Modality.AUDIO],
+          ...(recordMode === 'conversation' && buildLiveSettingsConfig(liveSettings, pushToTalk)),
+          systemInstruction: recordMode === 'listener'
+            ? VISIT_LISTENER_INSTRUCTION
+            : withPatientContext('record', `${buildAdvocateInstruction(liveSettings, appLanguage)} ${buildLiveToolsInstruction()}`),
+          // The silent listener never acts on what it hears
+          ...(recordMode === 'conversation' && { tools: [{ functionDeclarations: LIVE_TOOL_DECLARATIONS }] }),
           inputAudioTranscription: {}, // Enable transcription for user input
-          outputAudioTranscription: {}, // Enable transcription for model output
+          ...(recordMode === 'conversation' && { outputAudioTranscription: {} }), // Enable transcription for model output
+          sessionResumption: resumptionHandleRef.current ? { handle: resumptionHandleRef.current } : {},
         },
       });
       liveSessionPromiseRef.current = sessionPromise;
-      liveSessionRef.current = await sessionPromise;
+      const session = await sessionPromise;
+      if (!isCurrent()) {
+        session.close(); // Stopped or superseded while connecting
+        return;
+      }
+      liveSessionRef.current = session;
+      reconnectAttemptRef.current = 0;
+      setReconnectAttempt(0);
+      updateConnectionState('live');
+
+      // Send what was said while the connection was down; with push-to-talk it is one turn
+      const buffered = bufferedAudioRef.current;
+      bufferedAudioRef.current = [];
+      if (buffered.length > 0 && pushToTalk) session.sendRealtimeInput({ activityStart: {} });
+      buffered.forEach(media => session.sendRealtimeInput({ media }));
+      if (buffered.length > 0 && pushToTalk && !talkingRef.current) session.sendRealtimeInput({ activityEnd: {} });
+    };
 
-    } catch (err: any) {
+    // Connects, routing a failure to connect to the loss handler. connectSession claims its session number
+    // before its first await, so the number read here is the one a failure belongs to.
+    const openSession = () => {
+      const pending = connectSession();
+      const sessionNumber = liveSessionCounterRef.current;
+      pending.catch(err => handleConnectionLoss(classifyLiveError(err), sessionNumber));
+    };
+
+    // Reconnects with backoff after an unexpected error or close, or ends the session if that cannot help
+    const handleConnectionLoss = (failure: LiveFailure, sessionNumber: number) => {
+      // Nothing to do once recording has stopped or a newer session has taken over
+      if (connectionStateRef.current === 'ended' || sessionNumber !== liveSessionCounterRef.current) return;
+      liveSessionCounterRef.current++; // The session's remaining error and close events are now stale
+      cancelPendingReconnect();
+      liveSessionRef.current?.close();
+      liveSessionRef.current = null;
+      liveSessionPromiseRef.current = null;
+      if (!failure.retryable || reconnectAttemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
+        setLiveError(failure.retryable
+          ? `${failure.message} Reconnecting failed after ${MAX_RECONNECT_ATTEMPTS} attempts; your transcript so far has been kept.`
+          : failure.message);
+        handleStopRecording();
+        return;
+      }
+
+      updateConnectionState('reconnecting');
+      const retry = () => {
+        onlineListenerRef.current = null;
+        reconnectTimerRef.current = null;
+        openSession();
+      };
+      if (!navigator.onLine) {
+        // Wait for the network instead of spending attempts while offline
+        onlineListenerRef.current = retry;
+        window.addEventListener('online', retry, { once: true });
+        return;
+      }
+      const attempt = ++reconnectAttemptRef.current;
+      setReconnectAttempt(attempt);
+      reconnectTimerRef.current = setTimeout(retry, backoffDelay(attempt));
+    };
+
+    // Streams mic audio to the open session, buffering it while connecting or reconnecting
+    const sendAudio = (media: { data: string; mimeType: string }) => {
+      if (pushToTalk && !talkingRef.current) return; // Only send while the talk button is held
+      const session = liveSessionRef.current;
+      if (session && connectionStateRef.current === 'live') {
+        session.sendRealtimeInput({ media });
+        return;
+      }
+      bufferedAudioRef.current.push(media);
+      if (bufferedAudioRef.current.length > MAX_BUFFERED_AUDIO_MS / MIC_BATCH_MS) {
+        bufferedAudioRef.current.shift();
+      }
+    };
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      mediaStreamRef.current = stream;
+
+      const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+      outputAudioContextRef.current = new AudioContextClass({ sampleRate: LIVE_OUTPUT_SAMPLE_RATE });
+      outputNodeRef.current = outputAudioContextRef.current.createGain(); // Initialize outputNodeRef
+      outputNodeRef.current.connect(outputAudioContextRef.current.destination);
+
+      if (keepSessionAudio) {
+        // Kept audio has both sides of the conversation: the mic and the advocate's voice.
+        // The copy is optional, so a recorder that can't start doesn't stop the session
+        try {
+          audioCaptureRef.current = startAudioCapture(mixSessionAudio(outputAudioContextRef.current, stream, outputNodeRef.current));
+        } catch (error) {
+          console.error('Could not keep a copy of the session audio:', error);
+        }
+        sessionStartRef.current = Date.now(); // Transcript offsets line up with the start of the audio
+      }
+
+      // Capture runs for the whole recording, independent of the connection
+      const capture = await startMicCapture(stream, {
+        batchMs: MIC_BATCH_MS,
+        onChunk: (samples) => sendAudio(createBlob(samples)),
+        onLevel: (level) => {
+          inputLevelRef.current = level;
+        },
+      });
+      if (mediaStreamRef.current !== stream) {
+        capture.stop(); // Recording was stopped while the worklet was loading
+        return;
+      }
+      micCaptureRef.current = capture;
+    } catch (err: unknown) {
       console.error('Error starting live recording:', err);
-      setLiveError('Failed to start recording: ' + err.message);
-      setIsRecording(false);
-      setLiveLoading(false);
+      setLiveError(classifyLiveError(err).message);
       handleStopRecording(); // Ensure all resources are cleaned up
+      return;
+    }
+
+    openSession();
+  }, [apiConfigured, recordMode, keepSessionAudio, liveSettings, appLanguage, withPatientContext, handleStopRecording]); // handleStopRecording is a dependency
+
+  // Push-to-talk: mark the start and end of the patient's turn, since the server is not detecting speech
+  const handleTalkStart = useCallback(() => {
+    if (!pushToTalkRef.current || talkingRef.current) return;
+    talkingRef.current = true;
+    setIsTalking(true);
+    if (connectionStateRef.current === 'live') {
+      liveSessionRef.current?.sendRealtimeInput({ activityStart: {} });
     }
-  }, [apiConfigured, handleStopRecording]); // handleStopRecording is a dependency
+  }, []);
+
+  // Also called when the pointer is cancelled or the button loses focus, e.g. by a system gesture or switching apps,
+  // since no pointerup or keyup follows and the turn would otherwise stay open
+  const handleTalkEnd = useCallback(() => {
+    if (!talkingRef.current) return;
+    talkingRef.current = false;
+    setIsTalking(false);
+    if (connectionStateRef.current === 'live') {
+      liveSessionRef.current?.sendRealtimeInput({ activityEnd: {} });
+    }
+  }, []);
+
+  const handleChangeLiveSettings = useCallback((settings: LiveSettings) => {
+    setLiveSettings(settings);
+    saveLiveSettings(settings);
+  }, []);
+
+  const handleChangeSourcePolicy = useCallback((policy: SourcePolicy) => {
+    setSourcePolicy(policy);
+    saveSourcePolicy(policy);
+  }, []);
+
+  // One AbortController per tab, so the Cancel button stops that tab's streaming request
+  const abortControllersRef = useRef<Partial<Record<ProfileContextTab, AbortController>>>({});
+
+  const startRequest = useCallback((tab: ProfileContextTab): AbortSignal => {
+    abortControllersRef.current[tab]?.abort();
+    const controller = new AbortController();
+    abortControllersRef.current[tab] = controller;
+    return controller.signal;
+  }, []);
+
+  const cancelRequest = useCallback((tab: ProfileContextTab) => {
+    abortControllersRef.current[tab]?.abort();
+  }, []);
 
   // Generic function to execute Gemini API calls and handle common loading/error states
-  const executeGeminiCall = useCallback(async (
-    apiCall: () => Promise<GeminiResponseData | string | undefined>,
+  const executeGeminiCall = useCallback(async <T,>(
+    apiCall: () => Promise<T>,
     setErrorState: React.Dispatch<React.SetStateAction<string | null>>
-  ): Promise<GeminiResponseData | string | undefined> => {
+  ): Promise<T | undefined> => {
     setErrorState(null); // Clear previous errors
     if (!apiConfigured) {
       setShowSelectKeyButton(true);
@@ -524,6 +876,9 @@ const App: React.FC = () => {
     try {
       return await apiCall();
     } catch (err: any) {
+      if (err?.name === 'AbortError') {
+        return undefined; // Cancelled by the user; any streamed text stays on screen
+      }
       console.error("API Call Error:", err);
       setErrorState(err.message || "An unexpected error occurred.");
       // Check if the error indicates a missing API key for Veo models (billing link applies)
@@ -536,10 +891,337 @@ const App: React.FC = () => {
   }, [apiConfigured]);
 
 
+  // Effect to load the stored lab history and medication list on component mount
+  useEffect(() => {
+    loadLabReports()
+      .then(setLabHistory)
+      .catch(error => console.error('Error loading lab history:', error));
+    loadMedications()
+      .then(setMedications)
+      .catch(error => console.error('Error loading medications:', error));
+    loadHistory()
+      .then(setHistoryEntries)
+      .catch(error => console.error('Error loading history:', error));
+    loadAppointmentQuestions()
+      .then(questions => {
+        appointmentQuestionsRef.current = questions;
+        setAppointmentQuestions(questions);
+      })
+      .catch(error => console.error('Error loading appointment questions:', error));
+    loadReminders()
+      .then(setReminders)
+      .catch(error => console.error('Error loading reminders:', error));
+    loadUserGlossary()
+      .then(setUserGlossaryTerms)
+      .catch(error => console.error('Error loading glossary terms:', error));
+  }, []);
+
+  // Saves a completed request/response pair to the local history
+  const recordHistory = useCallback(async (entry: NewHistoryEntry, pages: DocumentPage[] = []): Promise<HistoryEntry | undefined> => {
+    try {
+      const saved = await saveHistoryEntry(entry, pages.map(page => page.file), saveImagesInHistory);
+      setHistoryEntries(prev => sortHistory([saved, ...prev]));
+      return saved;
+    } catch (error) {
+      console.error('Error saving history:', error);
+      return undefined;
+    }
+  }, [saveImagesInHistory]);
+
+  const handleToggleHistoryPin = useCallback(async (entry: HistoryEntry) => {
+    const updated = { ...entry, pinned: !entry.pinned };
+    try {
+      await updateHistoryEntry(updated);
+      setHistoryEntries(prev => sortHistory(prev.map(existing => existing.id === entry.id ? updated : existing)));
+    } catch (error) {
+      console.error('Error updating history:', error);
+    }
+  }, []);
+
+  const handleDeleteHistoryEntry = useCallback(async (id: string) => {
+    try {
+      const audioId = parseSavedRecording(historyEntries.find(entry => entry.id === id)?.extraOutput ?? null)?.audioId;
+      if (audioId) {
+        await deleteSessionAudio(audioId);
+      }
+      await deleteHistoryEntry(id);
+      setHistoryEntries(prev => prev.filter(entry => entry.id !== id));
+    } catch (error) {
+      console.error('Error deleting history:', error);
+    }
+  }, [historyEntries]);
+
+  // Scores an English explanation and, if it misses the reading target, streams one simpler rewrite in its place
+  const simplifyToTarget = useCallback(async (
+    tab: ReadabilityTab,
+    text: string,
+    systemInstruction: string,
+    setOutput: (text: string) => void,
+    setError: (error: string | null) => void,
+    signal: AbortSignal,
+  ): Promise<string> => {
+    if (appLanguage !== 'en' || signal.aborted) return text; // The scorer only understands English
+    const score = scoreReadability(text);
+    if (meetsReadingLevel(score, readingLevel)) return text;
+
+    const result = await executeGeminiCall(
+      () => callGeminiStream({
+        prompt: buildSimplifyPrompt(text, score, readingLevel),
+        systemInstruction,
+        onText: setOutput,
+        signal,
+      }),
+      setError
+    );
+    if (!result) {
+      setOutput(text); // Keep the original rather than a partial rewrite
+      return text;
+    }
+    setSimplifiedTabs(prev => ({ ...prev, [tab]: true }));
+    return result.text;
+  }, [appLanguage, readingLevel, executeGeminiCall]);
+
+  const handleChangeReadingLevel = useCallback((level: ReadingLevel) => {
+    setReadingLevel(level);
+    saveReadingLevel(level);
+  }, []);
+
+  const handleChangeAppLanguage = useCallback((language: AppLanguage) => {
+    setAppLanguage(language);
+    saveAppLanguage(language);
+  }, []);
+
+  // Effect to keep the page's language attribute in step with the UI, for screen readers and fonts
+  useEffect(() => {
+    document.documentElement.lang = appLanguage;
+  }, [appLanguage]);
+
+  const handleUnlockProfile = useCallback(async (passphrase: string) => {
+    const profile = await loadProfile(passphrase);
+    profilePassphraseRef.current = passphrase;
+    setPatientProfile(profile);
+    setProfileLocked(false);
+  }, []);
+
+  const handleSaveProfile = useCallback(async (profile: PatientProfile, newPassphrase: string | null) => {
+    const passphrase = newPassphrase ?? profilePassphraseRef.current;
+    if (!passphrase) {
+      throw new Error('Please enter a passphrase to encrypt your profile.');
+    }
+    await saveProfile(profile, passphrase);
+    profilePassphraseRef.current = passphrase;
+    setPatientProfile(profile);
+  }, []);
+
+  const handleLockProfile = useCallback(() => {
+    profilePassphraseRef.current = null;
+    setPatientProfile(null);
+    setProfileLocked(hasStoredProfile());
+  }, []);
+
+  const handleClearProfile = useCallback(() => {
+    clearProfile();
+    profilePassphraseRef.current = null;
+    setPatientProfile(null);
+    setProfileLocked(false);
+    setProfileContextTabs({ translate: false, prepare: false, summarize: false, labs: false, record: false });
+  }, []);
+
+  const profileContextFor = (tab: ProfileContextTab): string | null =>
+    patientProfile ? buildProfileContext(patientProfile, tab) : null;
+
+  const setProfileContextTab = (tab: ProfileContextTab) => (checked: boolean) =>
+    setProfileContextTabs(prev => ({ ...prev, [tab]: checked }));
+
+  const handleSaveMedication = useCallback(async (medication: Medication) => {
+    try {
+      await saveMedication(medication);
+      setMedications(prev => [...prev.filter(existing => existing.id !== medication.id), medication]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error('Error saving medication:', error);
+    }
+  }, []);
+
+  const handleAcceptMedicationProposal = useCallback(async (index: number, draft: MedicationDraft) => {
+    await handleSaveMedication({ ...draft, id: crypto.randomUUID() });
+    setMedicationProposals(prev => prev.filter((_, i) => i !== index));
+  }, [handleSaveMedication]);
+
+  const handleRejectMedicationProposal = useCallback((index: number) => {
+    setMedicationProposals(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
+  // Offline interaction check across the active list and any pending proposals
+  const interactionFindings = useMemo(() => checkInteractions([
+    ...medications.filter(medication => isActiveMedication(medication)).map(medication => medication.name),
+    ...medicationProposals.map(proposal => proposal.name),
+  ]), [medications, medicationProposals]);
+
+  const handleDeleteMedication = useCallback(async (id: string) => {
+    try {
+      await deleteMedication(id);
+      setMedications(prev => prev.filter(medication => medication.id !== id));
+    } catch (error) {
+      console.error('Error deleting medication:', error);
+    }
+  }, []);
+
+  const handleShareMedicationsWithTabsChange = useCallback((share: boolean) => {
+    setShareMedicationsWithTabs(share);
+    saveShareMedicationsWithTabs(share);
+  }, []);
+
+  // Adds a question to the appointment list; resolves to null if it is empty or already listed
+  const addAppointmentQuestion = useCallback(async (text: string, source: AppointmentQuestion['source']): Promise<AppointmentQuestion | null> => {
+    const question = createAppointmentQuestion(text, source, appointmentQuestionsRef.current);
+    if (!question) return null;
+    appointmentQuestionsRef.current = [...appointmentQuestionsRef.current, question];
+    try {
+      await saveAppointmentQuestion(question);
+    } catch (error) {
+      appointmentQuestionsRef.current = appointmentQuestionsRef.current.filter(existing => existing.id !== question.id);
+      throw error;
+    }
+    setAppointmentQuestions(prev => [...prev, question]);
+    return question;
+  }, []);
+
+  const handleAddAppointmentQuestion = useCallback((text: string) => {
+    addAppointmentQuestion(text, 'typed').catch(error => console.error('Error saving appointment question:', error));
+  }, [addAppointmentQuestion]);
+
+  const handleDeleteAppointmentQuestion = useCallback(async (id: string) => {
+    try {
+      await deleteAppointmentQuestion(id);
+      appointmentQuestionsRef.current = appointmentQuestionsRef.current.filter(question => question.id !== id);
+      setAppointmentQuestions(prev => prev.filter(question => question.id !== id));
+    } catch (error) {
+      console.error('Error deleting appointment question:', error);
+    }
+  }, []);
+
+  const handleDeleteReminder = useCallback(async (id: string) => {
+    try {
+      await deleteReminder(id);
+      setReminders(prev => prev.filter(reminder => reminder.id !== id));
+      setDueReminders(prev => prev.filter(reminder => reminder.id !== id));
+    } catch (error) {
+      console.error('Error deleting reminder:', error);
+    }
+  }, []);
+
+  const handleQueueGlossaryTerm = useCallback(async (text: string) => {
+    const term = createQueuedTerm(text);
+    if (!term) {
+      setGlossaryError(`"${text.trim()}" is already in the glossary or the queue.`);
+      return;
+    }
+    try {
+      setGlossaryError(null);
+      setUserGlossaryTerms(await saveUserGlossaryTerm(term));
+    } catch (error) {
+      console.error('Error queueing glossary term:', error);
+    }
+  }, []);
+
+  const handleDeleteGlossaryTerm = useCallback(async (id: string) => {
+    try {
+      setUserGlossaryTerms(await deleteUserGlossaryTerm(id));
+      setGlossaryDrafts(prev => prev.filter(draft => draft.id !== id));
+    } catch (error) {
+      console.error('Error deleting glossary term:', error);
+    }
+  }, []);
+
+  // Asks the model to define every queued term; each definition is shown for review rather than saved
+  const handleDefineQueuedTerms = useCallback(async () => {
+    const queued = userGlossaryTerms.filter(term => term.status === 'queued');
+    if (queued.length === 0) return;
+    setGlossaryLoading(true);
+    const definitions = await executeGeminiCall(() => defineGlossaryTerms(queued.map(term => term.term)), setGlossaryError);
+    setGlossaryLoading(false);
+    if (!definitions) return;
+    const drafts = queued.flatMap(term => {
+      const definition = definitions.find(draft => draft.term.toLowerCase() === term.term.toLowerCase());
+      return definition ? [{ ...term, definition: definition.definition, synonyms: definition.synonyms, abbreviations: definition.abbreviations }] : [];
+    });
+    if (drafts.length === 0) {
+      setGlossaryError('No definitions came back for the queued terms. Please try again.');
+    }
+    setGlossaryDrafts(drafts);
+  }, [userGlossaryTerms, executeGeminiCall]);
+
+  const handleSaveGlossaryDraft = useCallback(async (draft: UserGlossaryTerm) => {
+    try {
+      setUserGlossaryTerms(await saveUserGlossaryTerm({ ...draft, status: 'saved' }));
+      setGlossaryDrafts(prev => prev.filter(existing => existing.id !== draft.id));
+    } catch (error) {
+      console.error('Error saving glossary term:', error);
+    }
+  }, []);
+
+  const handleOpenGlossary = useCallback((entryId: string) => {
+    setGlossaryFocusId(entryId);
+    setActiveTab('glossary');
+  }, []);
+
+  // Effect to show each reminder when it comes due, as a notification or else in the page
+  useEffect(() => scheduleReminders(reminders, (reminder) => {
+    const shown = { ...reminder, notified: true };
+    if (!showReminderNotification(reminder)) {
+      setDueReminders(prev => [...prev, shown]);
+    }
+    setReminders(prev => prev.map(existing => existing.id === reminder.id ? shown : existing));
+    saveReminder(shown).catch(error => console.error('Error updating reminder:', error));
+  }), [reminders]);
+
+  // Data and actions for the Live advocate's tools; read through a ref by the running session
+  liveToolContextRef.current = {
+    medications,
+    labSeries: buildTrendSeries(labHistory),
+    addQuestion: (text) => addAppointmentQuestion(text, 'voice'),
+    addMedication: async (draft) => {
+      const medication: Medication = { ...draft, id: crypto.randomUUID() };
+      await saveMedication(medication);
+      setMedications(prev => [...prev, medication].sort((a, b) => a.name.localeCompare(b.name)));
+      return medication;
+    },
+    addReminder: async (text, dueAt) => {
+      const reminder: Reminder = { id: crypto.randomUUID(), text, dueAt: dueAt.toISOString(), createdAt: new Date().toISOString(), notified: false };
+      await saveReminder(reminder);
+      setReminders(prev => [...prev, reminder].sort((a, b) => a.dueAt.localeCompare(b.dueAt)));
+      return reminder;
+    },
+  };
+
+  const handleDeleteLabReport = useCallback(async (id: string) => {
+    try {
+      await deleteLabReport(id);
+      setLabHistory(prev => prev.filter(report => report.id !== id));
+    } catch (error) {
+      console.error('Error deleting lab report:', error);
+    }
+  }, []);
+
+  const handleExplainInteraction = useCallback(
+    (finding: InteractionFinding) => executeGeminiCall(() => explainInteraction(finding, appLanguage), setSummarizeError),
+    [appLanguage, executeGeminiCall]
+  );
+
+  // Effect to apply the redaction setting to every request made through the Gemini service
+  useEffect(() => {
+    setPhiRedactionEnabled(redactionEnabled);
+  }, [redactionEnabled]);
+
   // Effect to check API key status on component mount
   useEffect(() => {
     async function checkApiKey() {
-      if (window.aistudio) {
+      if (getLlmProvider().name === 'mock') {
+        // The mock provider needs no key; every tab runs offline against canned responses.
+        setApiConfigured(true);
+        setApiKeyStatusMessage('Using the local mock provider.');
+      } else if (window.aistudio) {
         const hasKey = await window.aistudio.hasSelectedApiKey();
         setApiConfigured(hasKey);
         if (!hasKey) {
@@ -586,64 +1268,106 @@ const App: React.FC = () => {
   const handleTranslateJargon = useCallback(async () => {
     setTranslateLoading(true);
     setTranslateOutput(null);
+    setTranslateBilingual(null);
     setTranslateProofreadingResult(null); // Clear proofreading results on new translation
+    setSimplifiedTabs(prev => ({ ...prev, translate: false }));
+    const signal = startRequest('translate');
+    const systemInstruction = withReadingLevel(
+      withPatientContext('translate', "You are a friendly, empathetic medical advocate, skilled at simplifying complex medical information."),
+      readingLevel,
+    );
+
+    if (appLanguage !== 'en') {
+      // The side-by-side view needs the structured response, so it is not streamed
+      const bilingual = await executeGeminiCall(
+        () => translateJargonBilingual(translateInput, appLanguage, systemInstruction, signal),
+        setTranslateError
+      );
+      if (bilingual && !signal.aborted) {
+        const output = formatBilingualTranslation(bilingual.translation, strings.bilingualTermColumn, strings.bilingualExplanationColumn);
+        setTranslateBilingual(bilingual.translation);
+        setTranslateOutput(output);
+        recordHistory({ tab: 'translate', inputText: translateInput, imageName: null, output, extraOutput: JSON.stringify(bilingual.translation), model: bilingual.response.model ?? null, groundingUrls: [] });
+      }
+      setTranslateLoading(false);
+      return;
+    }
+
     const result = await executeGeminiCall(
-      () => callGemini({
+      () => callGeminiStream({
         prompt: `Translate the following medical jargon into simple, easy-to-understand language for a patient. Maintain the core meaning but use analogies or common terms where appropriate. If the text is already simple, just rephrase it slightly to sound even more natural without over-simplifying if complexity is necessary.\n\nMedical Jargon: "${translateInput}"`,
-        systemInstruction: "You are a friendly, empathetic medical advocate, skilled at simplifying complex medical information.",
+        systemInstruction,
+        onText: setTranslateOutput,
+        signal,
       }),
       setTranslateError
     );
 
     if (result) {
-      setTranslateOutput(typeof result === 'string' ? result : result.text);
+      const output = await simplifyToTarget('translate', result.text, systemInstruction, setTranslateOutput, setTranslateError, signal);
+      setTranslateOutput(output);
+      recordHistory({ tab: 'translate', inputText: translateInput, imageName: null, output, extraOutput: null, model: result.model ?? null, groundingUrls: [] });
     }
     setTranslateLoading(false);
-  }, [translateInput, executeGeminiCall]);
+  }, [translateInput, appLanguage, strings, readingLevel, executeGeminiCall, withPatientContext, simplifyToTarget, startRequest, recordHistory]);
 
-  const handlePrepareAppointment = useCallback(async () => {
+  const handlePrepareAppointment = useCallback(async (preferTrustedSources = false) => {
     setPrepareLoading(true);
     setPrepareOutput(null);
     setPrepareGroundingUrls(null);
+    setPrepareCitations([]);
     setPrepareProofreadingResult(null); // Clear proofreading results
+    const signal = startRequest('prepare');
     const result = await executeGeminiCall(
-      () => callGemini({
+      () => callGeminiStream({
         prompt: `I am preparing for an appointment and I want to make sure I cover all my concerns. Here are my notes:\n\n"${prepareInput}"\n\nPlease help me organize these notes, suggest questions I should ask my doctor based on them, and highlight any important points I should definitely mention. Provide information grounded by Google Search if applicable.`,
-        systemInstruction: "You are a helpful medical advocate assisting patients in preparing for doctor's appointments.",
+        systemInstruction: [
+          withPatientContext('prepare', "You are a helpful medical advocate assisting patients in preparing for doctor's appointments."),
+          ...(preferTrustedSources ? [buildSourcePreferenceInstruction(sourcePolicy)] : []),
+        ].join(' '),
         useSearchGrounding: true,
+        onText: setPrepareOutput,
+        signal,
       }),
       setPrepareError
     );
 
     if (result) {
-      setPrepareOutput(typeof result === 'string' ? result : result.text);
-      if (typeof result !== 'string' && result.groundingUrls) {
-        setPrepareGroundingUrls(result.groundingUrls);
-      }
+      const grounded = applySourcePolicy(result.groundingUrls ?? [], result.citations ?? [], sourcePolicy);
+      setPrepareOutput(result.text);
+      // An answer that used no sources still gets a References section, so the search can be re-run
+      setPrepareGroundingUrls(result.groundingUrls ?? []);
+      setPrepareCitations(result.citations ?? []);
+      recordHistory({ tab: 'prepare', inputText: prepareInput, imageName: null, output: result.text, extraOutput: null, model: result.model ?? null, groundingUrls: grounded.sources, citations: grounded.citations });
     }
     setPrepareLoading(false);
-  }, [prepareInput, executeGeminiCall]);
+  }, [prepareInput, sourcePolicy, executeGeminiCall, withPatientContext, startRequest, recordHistory]);
 
   const handleSummarizeNotes = useCallback(async () => {
     setSummarizeLoading(true);
     setSummarizeOutput(null);
     setExtractedMedications(null);
+    setMedicationProposals([]);
+    setMedicationExtractionWarning(null);
     setSummarizeProofreadingResult(null); // Clear proofreading results
+    const pages = documentPages.summarize;
+    const notes = appendPageText(summarizeInput, pages);
+    const imageSource = pages.length > 1 ? `the ${pages.length} attached pages` : 'the image';
     let prompt: string;
     let systemInstruction: string;
 
-    if (summarizeInput.trim() && summarizeImageFile) {
-      prompt = `Summarize the following medical notes and extract any mentioned medications or treatment plans. Then list all medications under a separate heading "Medications:". Combine information from the text and the image.
+    if (notes.trim() && pages.length > 0) {
+      prompt = `Summarize the following medical notes and extract any mentioned medications or treatment plans. Then list all medications under a separate heading "Medications:". Combine information from the text and ${imageSource}.
 
-Notes: "${summarizeInput}"`;
+Notes: "${notes}"`;
       systemInstruction = "You are a meticulous medical assistant, capable of summarizing notes and identifying key medical details from both text and visual input.";
-    } else if (summarizeInput.trim()) {
+    } else if (notes.trim()) {
       prompt = `Summarize the following medical notes and extract any mentioned medications or treatment plans. Then list all medications under a separate heading "Medications:".
 
-Notes: "${summarizeInput}"`;
+Notes: "${notes}"`;
       systemInstruction = "You are a meticulous medical assistant, capable of summarizing notes and identifying key medical details.";
-    } else if (summarizeImageFile) {
-      prompt = `Summarize the medical notes provided in the image and extract any mentioned medications or treatment plans. Then list all medications under a separate heading "Medications:".`;
+    } else if (pages.length > 0) {
+      prompt = `Summarize the medical notes provided in ${imageSource} and extract any mentioned medications or treatment plans. Then list all medications under a separate heading "Medications:".`;
       systemInstruction = "You are a meticulous medical assistant, capable of summarizing notes and identifying key medical details from visual input.";
     } else {
       alert('Please enter some text or upload an image to summarize.');
@@ -651,100 +1375,459 @@ Notes: "${summarizeInput}"`;
       return;
     }
 
+    const signal = startRequest('summarize');
     const result = await executeGeminiCall(
-      () => callGemini({
+      () => callGeminiStream({
         prompt,
-        systemInstruction,
-        imageFile: summarizeImageFile,
+        systemInstruction: withPatientContext('summarize', systemInstruction),
+        imageFiles: pages.map(page => page.file),
+        onText: setSummarizeOutput, // The medication section is split out once the stream completes
+        signal,
       }),
       setSummarizeError
     );
 
     if (result) {
-      const fullText = typeof result === 'string' ? result : result.text;
+      const fullText = result.text;
       const medicationRegex = /Medications:\s*([\s\S]*)/i;
       const medicationMatch = fullText.match(medicationRegex);
+      recordHistory({
+        tab: 'summarize',
+        inputText: summarizeInput,
+        imageName: describePages(pages),
+        output: medicationMatch ? fullText.replace(medicationRegex, '').trim() : fullText,
+        extraOutput: medicationMatch?.[1]?.trim() || null,
+        model: result.model ?? null,
+        groundingUrls: [],
+      }, pages);
 
       if (medicationMatch && medicationMatch[1]) {
         setExtractedMedications(medicationMatch[1].trim());
         setSummarizeOutput(fullText.replace(medicationRegex, '').trim());
+
+        // Propose structured additions to the medication list for the user to review
+        const noteSnippet = summarizeInput.trim()
+          ? `"${summarizeInput.trim().slice(0, 60)}${summarizeInput.trim().length > 60 ? '…' : ''}"`
+          : describePages(pages) ?? 'uploaded image';
+        const sourceNote = `Summarized note ${noteSnippet}, ${new Date().toISOString().slice(0, 10)}`;
+        // A failure here leaves the summary intact, so it is reported as a warning rather than an error
+        const drafts = await executeGeminiCall(
+          () => extractMedications(medicationMatch[1].trim(), sourceNote),
+          setMedicationExtractionWarning
+        );
+        if (drafts) {
+          setMedicationProposals(findNewMedications(drafts, medications));
+        }
       } else {
         setSummarizeOutput(fullText);
         setExtractedMedications(null);
       }
     }
     setSummarizeLoading(false);
-  }, [summarizeInput, summarizeImageFile, executeGeminiCall]);
+  }, [summarizeInput, documentPages, medications, executeGeminiCall, withPatientContext, startRequest, recordHistory]);
 
-  const handleLabsExplanation = useCallback(async () => {
+  const handleLabsExplanation = useCallback(async (preferTrustedSources = false) => {
     setLabsLoading(true);
     setLabsOutput(null);
     setLabsGroundingUrls(null);
+    setLabsCitations([]);
+    setLabsPanel(null);
+    setLabsUnmatchedNumbers([]);
     setLabsProofreadingResult(null); // Clear proofreading results
+    setSimplifiedTabs(prev => ({ ...prev, labs: false }));
+    const signal = startRequest('labs');
+    const labsInstruction = (base: string) => withReadingLevel(withPatientContext('labs', base), readingLevel);
+    const explainInstruction = labsInstruction("You are a friendly medical advocate, skilled at explaining lab results clearly and empathetically.");
+
+    // Questions like "how has my A1c changed?" are answered from the stored history.
+    const pages = documentPages.labs;
+    const labText = appendPageText(labsInput, pages);
+    const imageFiles = pages.map(page => page.file);
+    const imageSource = pages.length > 1 ? `the ${pages.length} attached pages` : 'the image';
+    const historySeries = pages.length > 0 ? [] : findHistorySeriesForQuestion(labsInput, buildTrendSeries(labHistory));
+    if (historySeries.length > 0) {
+      const result = await executeGeminiCall(
+        () => callGeminiStream({
+          prompt: buildLabHistoryPrompt(labsInput, historySeries),
+          systemInstruction: explainInstruction,
+          onText: setLabsOutput,
+          signal,
+        }),
+        setLabsError
+      );
+      if (result) {
+        const output = await simplifyToTarget('labs', result.text, explainInstruction, setLabsOutput, setLabsError, signal);
+        setLabsOutput(output);
+        recordHistory({ tab: 'labs', inputText: labsInput, imageName: null, output, extraOutput: null, model: result.model ?? null, groundingUrls: [] });
+      }
+      setLabsLoading(false);
+      return;
+    }
+
+    if (!labsUseSearch) {
+      if (!labText.trim() && pages.length === 0) {
+        alert('Please enter some text or upload an image of lab results.');
+        setLabsLoading(false);
+        return;
+      }
+      // Structured mode: extract the rows first, then explain from the parsed rows only.
+      const panel = await executeGeminiCall(() => extractLabPanel(labText, imageFiles), setLabsError);
+      if (panel && !signal.aborted) {
+        setLabsPanel(panel);
+        try {
+          await saveLabReport(panel);
+          setLabHistory(await loadLabReports());
+        } catch (error) {
+          console.error('Error saving lab report:', error);
+        }
+        const explanation = await executeGeminiCall(
+          () => callGeminiStream({
+            prompt: buildLabExplanationPrompt(panel),
+            systemInstruction: explainInstruction,
+            onText: setLabsOutput,
+            signal,
+          }),
+          setLabsError
+        );
+        if (explanation) {
+          const output = await simplifyToTarget('labs', explanation.text, explainInstruction, setLabsOutput, setLabsError, signal);
+          setLabsOutput(output);
+          setLabsUnmatchedNumbers(findUnmatchedLabNumbers(output, panel));
+          recordHistory({
+            tab: 'labs',
+            inputText: labsInput,
+            imageName: describePages(pages),
+            output,
+            extraOutput: null,
+            model: explanation.model ?? null,
+            groundingUrls: [],
+          }, pages);
+        }
+      }
+      setLabsLoading(false);
+      return;
+    }
+
     let prompt: string;
     let systemInstruction: string;
 
-    if (labsInput.trim() && labsImageFile) {
-      prompt = `Explain the following lab results in simple terms for a patient, highlighting what is normal, what is abnormal, and what it might mean. Combine information from the text and the image. Use Google Search for additional context if necessary.
+    if (labText.trim() && pages.length > 0) {
+      prompt = `Explain the following lab results in simple terms for a patient, highlighting what is normal, what is abnormal, and what it might mean. Combine information from the text and ${imageSource}. Use Google Search for additional context if necessary.
 
-Lab Results: "${labsInput}"`;
-      systemInstruction = "You are a friendly medical advocate, skilled at explaining lab results clearly and empathetically.";
-    } else if (labsInput.trim()) {
+Lab Results: "${labText}"`;
+      systemInstruction = explainInstruction;
+    } else if (labText.trim()) {
       prompt = `Explain the following lab results in simple terms for a patient, highlighting what is normal, what is abnormal, and what it might mean. Use Google Search for additional context if necessary.
 
-Lab Results: "${labsInput}"`;
-      systemInstruction = "You are a friendly medical advocate, skilled at explaining lab results clearly and empathetically.";
-    } else if (labsImageFile) {
-      prompt = `Explain the lab results provided in the image in simple terms for a patient, highlighting what is normal, what is abnormal, and what it might mean. Use Google Search for additional context if necessary.`;
-      systemInstruction = "You are a friendly medical advocate, skilled at explaining lab results clearly and empathetically from visual input.";
+Lab Results: "${labText}"`;
+      systemInstruction = explainInstruction;
+    } else if (pages.length > 0) {
+      prompt = `Explain the lab results provided in ${imageSource} in simple terms for a patient, highlighting what is normal, what is abnormal, and what it might mean. Use Google Search for additional context if necessary.`;
+      systemInstruction = labsInstruction("You are a friendly medical advocate, skilled at explaining lab results clearly and empathetically from visual input.");
     } else {
       alert('Please enter some text or upload an image of lab results.');
       setLabsLoading(false);
       return;
     }
+    if (preferTrustedSources) {
+      systemInstruction = `${systemInstruction} ${buildSourcePreferenceInstruction(sourcePolicy)}`;
+    }
 
     const result = await executeGeminiCall(
-      () => callGemini({
+      () => callGeminiStream({
         prompt,
         systemInstruction,
         useSearchGrounding: true,
-        imageFile: labsImageFile,
+        imageFiles,
+        onText: setLabsOutput,
+        signal,
       }),
       setLabsError
     );
 
     if (result) {
-      setLabsOutput(typeof result === 'string' ? result : result.text);
-      if (typeof result !== 'string' && result.groundingUrls) {
-        setLabsGroundingUrls(result.groundingUrls);
-      }
+      // A rewrite runs without search and would lose the cited passages, so a cited answer is kept as written;
+      // the reading level was already part of the request
+      const grounded = applySourcePolicy(result.groundingUrls ?? [], result.citations ?? [], sourcePolicy);
+      const output = grounded.citations.length > 0
+        ? result.text
+        : await simplifyToTarget('labs', result.text, systemInstruction, setLabsOutput, setLabsError, signal);
+      setLabsOutput(output);
+      setLabsGroundingUrls(result.groundingUrls ?? []);
+      setLabsCitations(result.citations ?? []);
+      recordHistory({
+        tab: 'labs',
+        inputText: labsInput,
+        imageName: describePages(pages),
+        output,
+        extraOutput: null,
+        model: result.model ?? null,
+        groundingUrls: grounded.sources,
+        citations: grounded.citations,
+      }, pages);
     }
     setLabsLoading(false);
-  }, [labsInput, labsImageFile, executeGeminiCall]);
-
-  // Handlers for image file changes
-  const handleSummarizeImageChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSummarizeImageFile(file);
-      setSummarizeImagePreviewUrl(URL.createObjectURL(file));
-    } else {
-      setSummarizeImageFile(null);
-      setSummarizeImagePreviewUrl(null);
+  }, [labsInput, documentPages, labsUseSearch, labHistory, readingLevel, sourcePolicy, executeGeminiCall, withPatientContext, simplifyToTarget, startRequest, recordHistory]);
+
+  const handleGenerateRecap = useCallback(async (transcript: TranscriptEntry[], transcriptSpeakers: TranscriptSpeaker[]): Promise<VisitRecap | undefined> => {
+    setVisitRecapLoading(true);
+    setVisitRecap(null);
+    setHighlightedSegment(null);
+    const recap = await executeGeminiCall(() => generateVisitRecap(transcript, transcriptSpeakers, appLanguage), setVisitRecapError);
+    if (recap) {
+      setVisitRecap(recap);
+    }
+    setVisitRecapLoading(false);
+    return recap;
+  }, [appLanguage, executeGeminiCall]);
+
+  // Keeps the saved copy of the recording in step with speaker edits and recaps made after it was saved
+  const updateSavedRecording = useCallback(async (changes: Partial<SavedRecording>) => {
+    const existing = recordingEntryRef.current;
+    const recording = existing && parseSavedRecording(existing.extraOutput);
+    if (!existing || !recording) return;
+    const updated: HistoryEntry = { ...existing, ...buildRecordingEntry({ ...recording, ...changes }) };
+    recordingEntryRef.current = updated;
+    try {
+      await updateHistoryEntry(updated);
+      setHistoryEntries(prev => sortHistory(prev.map(entry => entry.id === updated.id ? updated : entry)));
+    } catch (error) {
+      console.error('Error updating history:', error);
     }
   }, []);
 
-  const handleLabsImageChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setLabsImageFile(file);
-      setLabsImagePreviewUrl(URL.createObjectURL(file));
-    } else {
-      setLabsImageFile(null);
-      setLabsImagePreviewUrl(null);
+  const handleRecapRecording = useCallback(async () => {
+    const recap = await handleGenerateRecap(transcriptionHistory, speakers);
+    if (recap) {
+      updateSavedRecording({ recap });
     }
+  }, [transcriptionHistory, speakers, handleGenerateRecap, updateSavedRecording]);
+
+  const handleChangeSegmentSpeaker = useCallback((index: number, speakerId: string) => {
+    const transcript = transcriptionHistory.map((entry, entryIndex) => entryIndex === index ? { ...entry, speaker: speakerId } : entry);
+    setTranscriptionHistory(transcript);
+    updateSavedRecording({ transcript });
+  }, [transcriptionHistory, updateSavedRecording]);
+
+  // Renames are saved once the name field loses focus rather than on every keystroke
+  const handleRenameSpeaker = useCallback((speakerId: string, name: string) => {
+    setSpeakers(prev => prev.map(speaker => speaker.id === speakerId ? { ...speaker, name } : speaker));
+  }, []);
+
+  const handleSaveSpeakers = useCallback(() => {
+    updateSavedRecording({ speakers });
+  }, [speakers, updateSavedRecording]);
+
+  const handleAddSpeaker = useCallback((role: Exclude<SpeakerRole, 'model'>) => {
+    const updatedSpeakers = addSpeaker(speakers, role);
+    setSpeakers(updatedSpeakers);
+    updateSavedRecording({ speakers: updatedSpeakers });
+  }, [speakers, updateSavedRecording]);
+
+  // Live transcription does not separate voices, so speakers are assigned from the finished transcript
+  const handleIdentifySpeakers = useCallback(async () => {
+    setSpeakersLoading(true);
+    const transcript = await executeGeminiCall(() => diarizeTranscript(transcriptionHistory, speakers), setSpeakersError);
+    if (transcript) {
+      setTranscriptionHistory(transcript);
+      updateSavedRecording({ transcript, speakers });
+    }
+    setSpeakersLoading(false);
+  }, [transcriptionHistory, speakers, executeGeminiCall, updateSavedRecording]);
+
+  const handleDeleteSessionAudio = useCallback(async () => {
+    if (!sessionAudio) return;
+    try {
+      await deleteSessionAudio(sessionAudio.id);
+      deletedAudioIdRef.current = sessionAudio.id;
+      setSessionAudio(null);
+      updateSavedRecording({ audioId: null });
+    } catch (error) {
+      console.error('Error deleting session audio:', error);
+    }
+  }, [sessionAudio, updateSavedRecording]);
+
+  const handleSeekAudio = useCallback((ms: number) => {
+    const player = audioPlayerRef.current;
+    if (!player) return;
+    player.currentTime = ms / 1000;
+    player.play();
+  }, []);
+
+  // Highlights the transcript segment being played
+  const handleAudioTimeUpdate = useCallback(() => {
+    const ms = (audioPlayerRef.current?.currentTime ?? 0) * 1000;
+    const index = transcriptionHistory.findIndex(entry => ms >= entry.startMs && ms <= Math.max(entry.endMs, entry.startMs + 1000));
+    if (index >= 0) setHighlightedSegment(index);
+  }, [transcriptionHistory]);
+
+  // Saves the conversation log once a recording session ends; appointments recorded in listener mode are recapped first
+  const wasRecordingRef = useRef<boolean>(false);
+  useEffect(() => {
+    if (isRecording) {
+      wasRecordingRef.current = true;
+      return;
+    }
+    if (!wasRecordingRef.current) return;
+    wasRecordingRef.current = false;
+    if (transcriptionHistory.length === 0) return;
+
+    const transcript = transcriptionHistory;
+    const pendingAudio = pendingAudioRef.current;
+    pendingAudioRef.current = null;
+    const saveRecording = async () => {
+      let audioId: string | null = null;
+      if (pendingAudio) {
+        try {
+          const blob = await pendingAudio;
+          audioId = await saveSessionAudio(blob);
+          setSessionAudio({ id: audioId, blob });
+        } catch (error) {
+          console.error('Error saving session audio:', error);
+        }
+      }
+      const recap = recordModeRef.current === 'listener' ? await handleGenerateRecap(transcript, speakers) : undefined;
+      // The audio may have been deleted while the recap was being written
+      if (audioId && deletedAudioIdRef.current === audioId) audioId = null;
+      recordingEntryRef.current = (await recordHistory(buildRecordingEntry({ transcript, speakers, recap: recap ?? null, audioId }))) ?? null;
+    };
+    saveRecording();
+  }, [isRecording, transcriptionHistory, speakers, recordHistory, handleGenerateRecap]);
+
+  // Scrolls the conversation log to a transcript segment referenced by the recap
+  const handleJumpToSegment = useCallback((index: number) => {
+    setHighlightedSegment(index);
+    document.getElementById(`transcript-segment-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, []);
+
+  // Readability of the finished explanations; only English text can be scored
+  const translateReadability = useMemo(
+    () => translateOutput && !translateLoading && appLanguage === 'en' ? scoreReadability(translateOutput) : null,
+    [translateOutput, translateLoading, appLanguage],
+  );
+  const labsReadability = useMemo(
+    () => labsOutput && !labsLoading && appLanguage === 'en' ? scoreReadability(labsOutput) : null,
+    [labsOutput, labsLoading, appLanguage],
+  );
+
+  // Everything the visit packet can draw on; labs fall back to the latest saved report
+  const visitPacketSources = useMemo<VisitPacketSources>(() => {
+    const latestReport = labHistory.length > 0 ? labHistory[labHistory.length - 1] : null;
+    const labPanel = labsPanel ?? latestReport?.panel ?? null;
+    return {
+      profile: patientProfile,
+      prepareOutput: prepareLoading ? null : prepareOutput,
+      savedQuestions: appointmentQuestions.map(question => question.text),
+      summarizeOutput: summarizeLoading ? null : summarizeOutput,
+      medications,
+      labResults: labPanel?.results ?? [],
+      labCollectionDate: labPanel ? labPanel.collectionDate ?? latestReport?.collectionDate ?? null : null,
+      labExplanation: labsLoading ? null : labsOutput,
+      groundingUrls: [...(prepareGrounding?.sources ?? []), ...(labsGrounding?.sources ?? [])],
+    };
+  }, [patientProfile, prepareOutput, prepareLoading, appointmentQuestions, summarizeOutput, summarizeLoading, medications, labsPanel, labHistory, labsOutput, labsLoading, prepareGrounding, labsGrounding]);
+
+  const updateDocumentPages = useCallback((tab: DocumentTab, update: (pages: DocumentPage[]) => DocumentPage[]) => {
+    documentPagesRef.current = { ...documentPagesRef.current, [tab]: update(documentPagesRef.current[tab]) };
+    setDocumentPages(documentPagesRef.current);
   }, []);
 
+  // Restores a saved result into its tab
+  const handleReopenHistory = useCallback(async (entry: HistoryEntry) => {
+    const savedFiles = await Promise.all(entry.imageDataUrls.map((dataUrl, index) =>
+      dataUrlToFile(dataUrl, entry.imageDataUrls.length > 1 ? `Saved page ${index + 1}` : entry.imageName ?? 'Saved image')));
+    const restorePages = async (tab: DocumentTab) => {
+      const { pages, errors } = await loadDocumentPages(savedFiles, []);
+      releaseDocumentPages(documentPagesRef.current[tab]);
+      updateDocumentPages(tab, () => pages);
+      setDocumentPageErrors(prev => ({ ...prev, [tab]: errors }));
+    };
+    switch (entry.tab) {
+      case 'translate':
+        setTranslateInput(entry.inputText);
+        setTranslateOutput(entry.output);
+        setTranslateBilingual(parseSavedBilingualTranslation(entry.extraOutput));
+        setSimplifiedTabs(prev => ({ ...prev, translate: false }));
+        break;
+      case 'prepare':
+        setPrepareInput(entry.inputText);
+        setPrepareOutput(entry.output);
+        setPrepareGroundingUrls(entry.groundingUrls); // Prepare always searches
+        setPrepareCitations(entry.citations ?? []);
+        break;
+      case 'summarize':
+        setSummarizeInput(entry.inputText);
+        setSummarizeOutput(entry.output);
+        setExtractedMedications(entry.extraOutput);
+        await restorePages('summarize');
+        break;
+      case 'labs':
+        setLabsInput(entry.inputText);
+        setLabsOutput(entry.output);
+        setSimplifiedTabs(prev => ({ ...prev, labs: false }));
+        setLabsPanel(null);
+        setLabsUnmatchedNumbers([]);
+        setLabsGroundingUrls(entry.groundingUrls.length > 0 ? entry.groundingUrls : null);
+        setLabsCitations(entry.citations ?? []);
+        await restorePages('labs');
+        break;
+      case 'record':
+        if (!isRecording) {
+          const recording = parseSavedRecording(entry.extraOutput);
+          setTranscriptionHistory(recording?.transcript ?? []);
+          setSpeakers(recording?.speakers ?? DEFAULT_SPEAKERS);
+          setVisitRecap(recording?.recap ?? null);
+          setSpeakersError(null);
+          recordingEntryRef.current = entry;
+          setSessionAudio(null);
+          if (recording?.audioId) {
+            const audioId = recording.audioId;
+            loadSessionAudio(audioId)
+              .then(blob => setSessionAudio(blob ? { id: audioId, blob } : null))
+              .catch(error => console.error('Error loading session audio:', error));
+          }
+          setVisitRecapError(null);
+          setHighlightedSegment(null);
+        }
+        break;
+    }
+    setActiveTab(entry.tab);
+  }, [isRecording, updateDocumentPages]);
+
+  // Handlers for uploaded pages; each tab keeps its own pages in the order they are sent
+  const handleAddDocumentFiles = useCallback((tab: DocumentTab, files: File[]) => {
+    setDocumentPagesLoading(prev => ({ ...prev, [tab]: true }));
+    const upload = documentUploadsRef.current[tab].catch(() => undefined).then(async () => {
+      const { pages, errors } = await loadDocumentPages(files, documentPagesRef.current[tab]);
+      updateDocumentPages(tab, current => [...current, ...pages]);
+      setDocumentPageErrors(prev => ({ ...prev, [tab]: errors }));
+    });
+    documentUploadsRef.current[tab] = upload;
+    return upload.finally(() => {
+      if (documentUploadsRef.current[tab] === upload) setDocumentPagesLoading(prev => ({ ...prev, [tab]: false }));
+    });
+  }, [updateDocumentPages]);
+
+  const handleMoveDocumentPage = useCallback((tab: DocumentTab, index: number, offset: -1 | 1) => {
+    updateDocumentPages(tab, current => {
+      const pages = [...current];
+      const [page] = pages.splice(index, 1);
+      pages.splice(index + offset, 0, page);
+      return pages;
+    });
+  }, [updateDocumentPages]);
+
+  const handleRemoveDocumentPage = useCallback((tab: DocumentTab, id: string) => {
+    releaseDocumentPages(documentPagesRef.current[tab].filter(page => page.id === id));
+    updateDocumentPages(tab, current => current.filter(page => page.id !== id));
+  }, [updateDocumentPages]);
+
+  const handleClearDocumentPages = useCallback((tab: DocumentTab) => {
+    releaseDocumentPages(documentPagesRef.current[tab]);
+    updateDocumentPages(tab, () => []);
+    setDocumentPageErrors(prev => ({ ...prev, [tab]: [] }));
+  }, [updateDocumentPages]);
+
   const renderApiKeyStatus = () => {
     if (showSelectKeyButton) {
       return (
@@ -778,12 +1861,47 @@ Lab Results: "${labsInput}"`;
 
       {renderApiKeyStatus()}
 
-      <Disclaimer>
-        This AI is for informational purposes only and should not replace professional medical advice. Always consult with a qualified healthcare provider for any health concerns.
+      {dueReminders.map(reminder => (
+        <div key={reminder.id} className="flex items-center justify-between bg-amber-100 border-l-4 border-amber-500 text-amber-800 p-4 mb-4 rounded-lg shadow-md" role="alert">
+          <p className="font-medium">Reminder: {reminder.text}</p>
+          <button
+            onClick={() => setDueReminders(prev => prev.filter(due => due.id !== reminder.id))}
+            className="ml-4 text-sm hover:underline"
+          >
+            {strings.buttons.dismiss}
+          </button>
+        </div>
+      ))}
+
+      <Disclaimer label={strings.disclaimerLabel}>
+        {strings.disclaimer}
       </Disclaimer>
 
+      <label className="flex items-center mt-4 text-sm text-textSecondary">
+        {strings.languageLabel}
+        <select
+          value={appLanguage}
+          onChange={(e) => handleChangeAppLanguage(e.target.value as AppLanguage)}
+          className="ml-2 p-1 border border-borderColor rounded-md text-textPrimary"
+        >
+          {APP_LANGUAGES.map(language => (
+            <option key={language.code} value={language.code}>{language.nativeName}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center my-4 text-sm text-textSecondary">
+        <input
+          type="checkbox"
+          checked={redactionEnabled}
+          onChange={(e) => setRedactionEnabled(e.target.checked)}
+          className="mr-2"
+        />
+        Remove personal details (names, dates of birth, record and insurance numbers, phone numbers, addresses) before sending
+      </label>
+
       <div className="flex justify-center mb-8 bg-gray-100 rounded-lg p-2 shadow-inner">
-        {['translate', 'prepare', 'summarize', 'labs', 'record'].map((tab) => (
+        {['translate', 'prepare', 'summarize', 'labs', 'record', 'profile', 'history', 'glossary'].map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab as TabName)}
@@ -793,12 +1911,12 @@ Lab Results: "${labsInput}"`;
                 : 'bg-transparent text-textSecondary hover:bg-gray-200 hover:text-textPrimary'
               }`}
           >
-            {tab.charAt(0).toUpperCase() + tab.slice(1)}
+            {strings.tabs[tab as TabName]}
           </button>
         ))}
       </div>
 
-      <div className="tab-content bg-bgSecondary p-6 rounded-lg shadow-lg">
+      <GlossaryPopoverHost className="tab-content bg-bgSecondary p-6 rounded-lg shadow-lg" onOpenGlossary={handleOpenGlossary}>
         {activeTab === 'translate' && (
           <div>
             <h2 className="text-2xl font-bold text-primary mb-4">Translate Medical Jargon</h2>
@@ -811,6 +1929,13 @@ Lab Results: "${labsInput}"`;
               value={translateInput}
               onChange={(e) => setTranslateInput(e.target.value)}
             ></textarea>
+            <ReadingLevelSelect value={readingLevel} onChange={handleChangeReadingLevel} />
+            <ProfileContextToggle
+              checked={profileContextTabs.translate}
+              onChange={setProfileContextTab('translate')}
+              context={profileContextFor('translate')}
+            />
+            {redactionEnabled && <RedactionPreview text={translateInput} />}
             <div className="flex space-x-2 mb-4">
               <button
                 onClick={handleTranslateJargon}
@@ -818,8 +1943,16 @@ Lab Results: "${labsInput}"`;
                 disabled={translateLoading}
               >
                 {translateLoading && <Spinner size="w-4 h-4" color="border-t-white" className="mr-2" />}
-                Translate
+                {strings.buttons.translate}
               </button>
+              {translateLoading && (
+                <button
+                  onClick={() => cancelRequest('translate')}
+                  className="bg-gray-200 hover:bg-gray-300 text-textPrimary font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-opacity-75 transition duration-150 ease-in-out"
+                >
+                  {strings.buttons.cancel}
+                </button>
+              )}
               <button
                 onClick={() => proofreadText({
                   textToProofread: translateInput,
@@ -831,7 +1964,7 @@ Lab Results: "${labsInput}"`;
                 disabled={translateProofreadingLoading}
               >
                 {translateProofreadingLoading && <Spinner size="w-4 h-4" color="border-t-white" className="mr-2" />}
-                Proofread Input
+                {strings.buttons.proofreadInput}
               </button>
             </div>
 
@@ -849,7 +1982,17 @@ Lab Results: "${labsInput}"`;
             {translateOutput && (
               <ResultSection
                 title="Translated Explanation"
-                content={renderMarkdown(translateOutput)}
+                headerExtra={translateReadability && (
+                  <ReadabilityBadge score={translateReadability} level={readingLevel} simplified={simplifiedTabs.translate} />
+                )}
+                content={translateBilingual ? (
+                  <BilingualTranslationView
+                    translation={translateBilingual}
+                    termColumn={strings.bilingualTermColumn}
+                    explanationColumn={strings.bilingualExplanationColumn}
+                    languageCode={translateBilingual.language}
+                  />
+                ) : renderMarkdown(translateOutput)}
               />
             )}
           </div>
@@ -868,15 +2011,30 @@ Lab Results: "${labsInput}"`;
               value={prepareInput}
               onChange={(e) => setPrepareInput(e.target.value)}
             ></textarea>
+            <ProfileContextToggle
+              checked={profileContextTabs.prepare}
+              onChange={setProfileContextTab('prepare')}
+              context={profileContextFor('prepare')}
+            />
+            <SourcePolicyPanel policy={sourcePolicy} onChange={handleChangeSourcePolicy} />
+            {redactionEnabled && <RedactionPreview text={prepareInput} />}
             <div className="flex space-x-2 mb-4">
               <button
-                onClick={handlePrepareAppointment}
+                onClick={() => handlePrepareAppointment()}
                 className="bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-75 transition duration-150 ease-in-out flex items-center justify-center"
                 disabled={prepareLoading}
               >
                 {prepareLoading && <Spinner size="w-4 h-4" color="border-t-white" className="mr-2" />}
-                Prepare
+                {strings.buttons.prepare}
               </button>
+              {prepareLoading && (
+                <button
+                  onClick={() => cancelRequest('prepare')}
+                  className="bg-gray-200 hover:bg-gray-300 text-textPrimary font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-opacity-75 transition duration-150 ease-in-out"
+                >
+                  {strings.buttons.cancel}
+                </button>
+              )}
               <button
                 onClick={() => proofreadText({
                   textToProofread: prepareInput,
@@ -888,7 +2046,7 @@ Lab Results: "${labsInput}"`;
                 disabled={prepareProofreadingLoading}
               >
                 {prepareProofreadingLoading && <Spinner size="w-4 h-4" color="border-t-white" className="mr-2" />}
-                Proofread Input
+                {strings.buttons.proofreadInput}
               </button>
             </div>
             {prepareError && <ErrorMessage message={prepareError} />}
@@ -904,26 +2062,37 @@ Lab Results: "${labsInput}"`;
             {prepareOutput && (
               <ResultSection
                 title="Appointment Preparation"
-                content={renderMarkdown(prepareOutput)}
+                content={renderGroundedMarkdown(prepareOutput, prepareGrounding?.citations ?? [], prepareGrounding?.sources ?? null)}
               />
             )}
-            {prepareGroundingUrls && prepareGroundingUrls.length > 0 && (
+            {prepareGrounding && (prepareGrounding.sources.length > 0 || prepareGrounding.blockedCount > 0 || sourcePolicy.minTrustedSources > 0) && (
               <ResultSection
                 title="References"
                 variant="info"
                 content={
-                  <ul className="list-disc pl-5">
-                    {prepareGroundingUrls.map((url, index) => (
-                      <li key={index} className="mb-1">
-                        <a href={url.uri} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
-                          {url.title || url.uri}
-                        </a>
-                      </li>
-                    ))}
-                  </ul>
+                  <ReferenceList
+                    sources={prepareGrounding.sources}
+                    policy={sourcePolicy}
+                    blockedCount={prepareGrounding.blockedCount}
+                    onSearchAgain={() => handlePrepareAppointment(true)}
+                  />
                 }
               />
             )}
+            <ResultSection
+              title="My Question List"
+              content={
+                <AppointmentQuestionList
+                  questions={appointmentQuestions}
+                  onAdd={handleAddAppointmentQuestion}
+                  onDelete={handleDeleteAppointmentQuestion}
+                />
+              }
+            />
+            <ResultSection
+              title="Visit Packet"
+              content={<VisitPacketExport sources={visitPacketSources} />}
+            />
           </div>
         )}
 
@@ -931,35 +2100,48 @@ Lab Results: "${labsInput}"`;
           <div>
             <h2 className="text-2xl font-bold text-primary mb-4">Summarize Medical Notes</h2>
             <p className="text-textSecondary mb-4">
-              Upload an image of your notes or type them in, and I'll provide a concise summary,
+              Upload photos or PDFs of your notes (several pages are read together) or type them in, and I'll provide a concise summary,
               including any mentioned medications.
             </p>
-            <div className="flex items-center space-x-4 mb-4">
-              <input
-                type="file"
-                accept="image/*"
-                onChange={handleSummarizeImageChange}
-                className="block w-full text-sm text-textPrimary file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-violet-50 file:text-primary hover:file:bg-violet-100"
-              />
-              {summarizeImagePreviewUrl && (
-                <img src={summarizeImagePreviewUrl} alt="Notes Preview" className="h-24 w-24 object-cover rounded-md shadow-md" />
-              )}
-            </div>
+            <DocumentPagePicker
+              pages={documentPages.summarize}
+              isLoading={documentPagesLoading.summarize}
+              errors={documentPageErrors.summarize}
+              onAddFiles={(files) => handleAddDocumentFiles('summarize', files)}
+              onMove={(index, offset) => handleMoveDocumentPage('summarize', index, offset)}
+              onRemove={(id) => handleRemoveDocumentPage('summarize', id)}
+              onClear={() => handleClearDocumentPages('summarize')}
+              onOpenCamera={() => setCameraTab('summarize')}
+            />
             <textarea
               className="w-full p-3 border border-borderColor rounded-md focus:outline-none focus:ring-2 focus:ring-primary mb-3 text-textPrimary h-32 resize-y"
               placeholder="e.g., 'Patient seen for follow-up on hypertension. BP 140/90. Current medications: Lisinopril 10mg daily. Discussed diet and exercise.'"
               value={summarizeInput}
               onChange={(e) => setSummarizeInput(e.target.value)}
             ></textarea>
+            <ProfileContextToggle
+              checked={profileContextTabs.summarize}
+              onChange={setProfileContextTab('summarize')}
+              context={profileContextFor('summarize')}
+            />
+            {redactionEnabled && <RedactionPreview text={appendPageText(summarizeInput, documentPages.summarize)} hasImage={documentPages.summarize.length > 0} />}
             <div className="flex space-x-2 mb-4">
               <button
                 onClick={handleSummarizeNotes}
                 className="bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-75 transition duration-150 ease-in-out flex items-center justify-center"
-                disabled={summarizeLoading || (!summarizeInput.trim() && !summarizeImageFile)}
+                disabled={summarizeLoading || documentPagesLoading.summarize || (!summarizeInput.trim() && documentPages.summarize.length === 0)}
               >
                 {summarizeLoading && <Spinner size="w-4 h-4" color="border-t-white" className="mr-2" />}
-                Summarize
+                {strings.buttons.summarize}
               </button>
+              {summarizeLoading && (
+                <button
+                  onClick={() => cancelRequest('summarize')}
+                  className="bg-gray-200 hover:bg-gray-300 text-textPrimary font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-opacity-75 transition duration-150 ease-in-out"
+                >
+                  {strings.buttons.cancel}
+                </button>
+              )}
               <button
                 onClick={() => proofreadText({
                   textToProofread: summarizeInput,
@@ -971,7 +2153,7 @@ Lab Results: "${labsInput}"`;
                 disabled={summarizeProofreadingLoading || !summarizeInput.trim()}
               >
                 {summarizeProofreadingLoading && <Spinner size="w-4 h-4" color="border-t-white" className="mr-2" />}
-                Proofread Input
+                {strings.buttons.proofreadInput}
               </button>
             </div>
             {summarizeError && <ErrorMessage message={summarizeError} />}
@@ -997,6 +2179,33 @@ Lab Results: "${labsInput}"`;
                 variant="info"
               />
             )}
+            {medicationExtractionWarning && (
+              <p className="mb-4 p-3 rounded-md bg-amber-50 text-sm text-amber-800">
+                ⚠️ The medications above could not be turned into suggestions for your list ({medicationExtractionWarning}). You can add them by hand below.
+              </p>
+            )}
+            <ResultSection
+              title="Medication List"
+              content={
+                <MedicationListManager
+                  medications={medications}
+                  proposals={medicationProposals}
+                  onAcceptProposal={handleAcceptMedicationProposal}
+                  onRejectProposal={handleRejectMedicationProposal}
+                  onSaveMedication={handleSaveMedication}
+                  onDeleteMedication={handleDeleteMedication}
+                  shareWithTabs={shareMedicationsWithTabs}
+                  onShareWithTabsChange={handleShareMedicationsWithTabsChange}
+                />
+              }
+            />
+            {interactionFindings.length > 0 && (
+              <ResultSection
+                title="Possible Drug Interactions"
+                variant={interactionFindings.some(finding => finding.severity === 'contraindicated' || finding.severity === 'major') ? 'danger' : 'warning'}
+                content={<InteractionFindings findings={interactionFindings} onExplain={handleExplainInteraction} />}
+              />
+            )}
           </div>
         )}
 
@@ -1004,34 +2213,59 @@ Lab Results: "${labsInput}"`;
           <div>
             <h2 className="text-2xl font-bold text-primary mb-4">Explain Lab Results</h2>
             <p className="text-textSecondary mb-4">
-              Upload an image or type in your lab results, and I'll explain what they mean in simple terms.
+              Upload photos or PDFs of your lab report, or type in your lab results, and I'll explain what they mean in simple terms.
+              Structured results are saved to your lab history, so you can also ask questions like "How has my A1c changed?"
             </p>
-            <div className="flex items-center space-x-4 mb-4">
+            <DocumentPagePicker
+              pages={documentPages.labs}
+              isLoading={documentPagesLoading.labs}
+              errors={documentPageErrors.labs}
+              onAddFiles={(files) => handleAddDocumentFiles('labs', files)}
+              onMove={(index, offset) => handleMoveDocumentPage('labs', index, offset)}
+              onRemove={(id) => handleRemoveDocumentPage('labs', id)}
+              onClear={() => handleClearDocumentPages('labs')}
+              onOpenCamera={() => setCameraTab('labs')}
+            />
+            <label className="flex items-center mb-3 text-sm text-textSecondary">
               <input
-                type="file"
-                accept="image/*"
-                onChange={handleLabsImageChange}
-                className="block w-full text-sm text-textPrimary file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-violet-50 file:text-primary hover:file:bg-violet-100"
+                type="checkbox"
+                checked={labsUseSearch}
+                onChange={(e) => setLabsUseSearch(e.target.checked)}
+                className="mr-2"
               />
-              {labsImagePreviewUrl && (
-                <img src={labsImagePreviewUrl} alt="Labs Preview" className="h-24 w-24 object-cover rounded-md shadow-md" />
-              )}
-            </div>
+              Use Google Search for additional context (turn off to get a structured results table)
+            </label>
             <textarea
               className="w-full p-3 border border-borderColor rounded-md focus:outline-none focus:ring-2 focus:ring-primary mb-3 text-textPrimary h-32 resize-y"
               placeholder="e.g., 'Glucose: 120 mg/dL (High), Hemoglobin A1c: 6.8% (High), Cholesterol Total: 220 mg/dL (High)'"
               value={labsInput}
               onChange={(e) => setLabsInput(e.target.value)}
             ></textarea>
+            <ReadingLevelSelect value={readingLevel} onChange={handleChangeReadingLevel} />
+            <ProfileContextToggle
+              checked={profileContextTabs.labs}
+              onChange={setProfileContextTab('labs')}
+              context={profileContextFor('labs')}
+            />
+            <SourcePolicyPanel policy={sourcePolicy} onChange={handleChangeSourcePolicy} />
+            {redactionEnabled && <RedactionPreview text={appendPageText(labsInput, documentPages.labs)} hasImage={documentPages.labs.length > 0} />}
             <div className="flex space-x-2 mb-4">
               <button
-                onClick={handleLabsExplanation}
+                onClick={() => handleLabsExplanation()}
                 className="bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-75 transition duration-150 ease-in-out flex items-center justify-center"
-                disabled={labsLoading || (!labsInput.trim() && !labsImageFile)}
+                disabled={labsLoading || documentPagesLoading.labs || (!labsInput.trim() && documentPages.labs.length === 0)}
               >
                 {labsLoading && <Spinner size="w-4 h-4" color="border-t-white" className="mr-2" />}
-                Explain
+                {strings.buttons.explain}
               </button>
+              {labsLoading && (
+                <button
+                  onClick={() => cancelRequest('labs')}
+                  className="bg-gray-200 hover:bg-gray-300 text-textPrimary font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-opacity-75 transition duration-150 ease-in-out"
+                >
+                  {strings.buttons.cancel}
+                </button>
+              )}
               <button
                 onClick={() => proofreadText({
                   textToProofread: labsInput,
@@ -1043,7 +2277,7 @@ Lab Results: "${labsInput}"`;
                 disabled={labsProofreadingLoading || !labsInput.trim()}
               >
                 {labsProofreadingLoading && <Spinner size="w-4 h-4" color="border-t-white" className="mr-2" />}
-                Proofread Input
+                {strings.buttons.proofreadInput}
               </button>
             </div>
             {labsError && <ErrorMessage message={labsError} />}
@@ -1056,29 +2290,131 @@ Lab Results: "${labsInput}"`;
                 variant="info"
               />
             )}
-            {labsOutput && (
+            {labsPanel ? (
+              <div className="grid md:grid-cols-2 gap-4">
+                <ResultSection
+                  title="Lab Values"
+                  content={<LabResultsTable results={labsPanel.results} />}
+                />
+                {labsOutput && (
+                  <ResultSection
+                    title="Lab Results Explanation"
+                    headerExtra={labsReadability && (
+                      <ReadabilityBadge score={labsReadability} level={readingLevel} simplified={simplifiedTabs.labs} />
+                    )}
+                    content={
+                      <>
+                        {renderMarkdown(labsOutput)}
+                        {labsUnmatchedNumbers.length > 0 && (
+                          <p className="mt-3 text-sm text-amber-700">
+                            ⚠️ These values in the explanation do not match the table: {labsUnmatchedNumbers.join(', ')}
+                          </p>
+                        )}
+                      </>
+                    }
+                  />
+                )}
+              </div>
+            ) : labsOutput && (
               <ResultSection
                 title="Lab Results Explanation"
-                content={renderMarkdown(labsOutput)}
+                headerExtra={labsReadability && (
+                  <ReadabilityBadge score={labsReadability} level={readingLevel} simplified={simplifiedTabs.labs} />
+                )}
+                content={renderGroundedMarkdown(labsOutput, labsGrounding?.citations ?? [], labsGrounding?.sources ?? null)}
               />
             )}
-            {labsGroundingUrls && labsGroundingUrls.length > 0 && (
+            {labsGrounding && (labsGrounding.sources.length > 0 || labsGrounding.blockedCount > 0 || sourcePolicy.minTrustedSources > 0) && (
               <ResultSection
                 title="References"
                 variant="info"
                 content={
-                  <ul className="list-disc pl-5">
-                    {labsGroundingUrls.map((url, index) => (
-                      <li key={index} className="mb-1">
-                        <a href={url.uri} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
-                          {url.title || url.uri}
-                        </a>
-                      </li>
-                    ))}
-                  </ul>
+                  <ReferenceList
+                    sources={labsGrounding.sources}
+                    policy={sourcePolicy}
+                    blockedCount={labsGrounding.blockedCount}
+                    onSearchAgain={() => handleLabsExplanation(true)}
+                  />
                 }
               />
             )}
+            {labHistory.length > 0 && (
+              <ResultSection
+                title="Lab History"
+                variant="info"
+                content={<LabHistoryPanel reports={labHistory} onDeleteReport={handleDeleteLabReport} />}
+              />
+            )}
+          </div>
+        )}
+
+        {activeTab === 'profile' && (
+          <div>
+            <h2 className="text-2xl font-bold text-primary mb-4">My Profile</h2>
+            <p className="text-textSecondary mb-4">
+              Save your age, conditions, allergies and preferred reading level on this device, encrypted with a passphrase.
+              Nothing is sent unless you tick "Include my profile" in a tab, and only what that tab needs is sent.
+            </p>
+            <p className="text-textSecondary mb-4">
+              Only this profile is encrypted. Your session history, lab reports, medication list, question list, reminders and
+              kept session audio are stored on this device without encryption, so anyone who can use this browser profile can
+              read them. Delete what you no longer need from each tab.
+            </p>
+            <PatientProfileEditor
+              profile={patientProfile}
+              isLocked={profileLocked}
+              onUnlock={handleUnlockProfile}
+              onSave={handleSaveProfile}
+              onLock={handleLockProfile}
+              onClear={handleClearProfile}
+            />
+          </div>
+        )}
+
+        {activeTab === 'glossary' && (
+          <div>
+            <h2 className="text-2xl font-bold text-primary mb-4">Medical Glossary</h2>
+            <p className="text-textSecondary mb-4">
+              Plain-language definitions of common medical terms and abbreviations. Terms from this glossary are underlined in your results; select one to see its definition. The glossary works offline.
+            </p>
+            <GlossaryBrowser
+              entries={glossaryEntries()}
+              queuedTerms={userGlossaryTerms.filter(term => term.status === 'queued')}
+              drafts={glossaryDrafts}
+              focusEntryId={glossaryFocusId}
+              isDefining={glossaryLoading}
+              onQueue={handleQueueGlossaryTerm}
+              onDelete={handleDeleteGlossaryTerm}
+              onDefineQueued={handleDefineQueuedTerms}
+              onSaveDraft={handleSaveGlossaryDraft}
+              onDiscardDraft={(id) => setGlossaryDrafts(prev => prev.filter(draft => draft.id !== id))}
+            />
+            {glossaryError && <ErrorMessage message={glossaryError} />}
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div>
+            <h2 className="text-2xl font-bold text-primary mb-4">History</h2>
+            <p className="text-textSecondary mb-4">
+              Your past results are saved on this device. Search, reopen, pin or compare them.
+            </p>
+            <label className="flex items-center mb-4 text-sm text-textSecondary">
+              <input
+                type="checkbox"
+                checked={saveImagesInHistory}
+                onChange={(e) => setSaveImagesInHistory(e.target.checked)}
+                className="mr-2"
+              />
+              Also save uploaded images with new results
+            </label>
+            <HistoryPanel
+              entries={historyEntries}
+              renderContent={renderMarkdown}
+              onReopen={handleReopenHistory}
+              onTogglePin={handleToggleHistoryPin}
+              onDelete={handleDeleteHistoryEntry}
+            />
           </div>
         )}
 
@@ -1086,9 +2422,61 @@ Lab Results: "${labsInput}"`;
           <div className="relative">
             <h2 className="text-2xl font-bold text-primary mb-4">Record Session</h2>
             <p className="text-textSecondary mb-4">
-              Have a real-time conversation with your AI medical advocate. Speak your concerns or questions, and the AI will respond.
+              {recordMode === 'conversation'
+                ? 'Have a real-time conversation with your AI medical advocate. Speak your concerns or questions, and the AI will respond.'
+                : 'Record your appointment. The AI stays silent and only transcribes; when you stop, it writes a recap linked to the conversation log.'}
             </p>
 
+            <div className="flex justify-center space-x-6 mb-4">
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  name="record-mode"
+                  checked={recordMode === 'conversation'}
+                  onChange={() => setRecordMode('conversation')}
+                  disabled={isRecording}
+                  className="mr-2"
+                />
+                Talk with the advocate
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  name="record-mode"
+                  checked={recordMode === 'listener'}
+                  onChange={() => setRecordMode('listener')}
+                  disabled={isRecording}
+                  className="mr-2"
+                />
+                Listen to my visit
+              </label>
+            </div>
+            {recordMode === 'conversation' && (
+              <details className="mb-4 p-3 bg-white rounded-md border border-borderColor">
+                <summary className="cursor-pointer text-sm font-medium text-textPrimary">Voice and conversation settings</summary>
+                <div className="mt-3">
+                  <LiveSettingsPanel settings={liveSettings} onChange={handleChangeLiveSettings} disabled={isRecording} />
+                </div>
+              </details>
+            )}
+            {recordMode === 'conversation' && !isRecording && (
+              <ProfileContextToggle
+                checked={profileContextTabs.record}
+                onChange={setProfileContextTab('record')}
+                context={profileContextFor('record')}
+              />
+            )}
+            <label className="flex items-center justify-center mb-4 text-sm text-textSecondary">
+              <input
+                type="checkbox"
+                checked={keepSessionAudio}
+                onChange={(e) => setKeepSessionAudio(e.target.checked)}
+                disabled={isRecording}
+                className="mr-2"
+              />
+              Keep an audio copy on this device so I can replay it with the transcript
+            </label>
+
             <div className="flex justify-center mb-6">
               {!isRecording ? (
                 <button
@@ -1098,7 +2486,7 @@ Lab Results: "${labsInput}"`;
                 >
                   {liveLoading && <Spinner size="w-5 h-5" color="border-t-white" className="mr-3" />}
                   <svg className="w-6 h-6 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a7 7 0 01-7-7m7 7a7 7 0 007-7m0 0H8m4-4h4m-4-4H8"></path></svg>
-                  Start Recording
+                  {strings.buttons.startRecording}
                 </button>
               ) : (
                 <button
@@ -1107,45 +2495,154 @@ Lab Results: "${labsInput}"`;
                   disabled={!isRecording}
                 >
                   <svg className="w-6 h-6 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 10a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z"></path></svg>
-                  Stop Recording
+                  {strings.buttons.stopRecording}
                 </button>
               )}
             </div>
 
             {liveLoading && isRecording && (
-              <div className="flex items-center justify-center mb-4 text-primary font-medium">
+              <div className="flex items-center justify-center mb-4 text-primary font-medium" role="status">
                 <Spinner size="w-6 h-6" className="mr-3" />
-                Listening...
+                {connectionState === 'live' && 'Listening...'}
+                {connectionState === 'connecting' && CONNECTION_STATE_LABELS.connecting}
+                {connectionState === 'reconnecting' && (
+                  <span className="text-amber-700">
+                    {CONNECTION_STATE_LABELS.reconnecting}{reconnectAttempt > 0 && ` (attempt ${reconnectAttempt} of ${MAX_RECONNECT_ATTEMPTS})`} Keep talking; your audio is held until the connection is back.
+                  </span>
+                )}
+                <span className="ml-4"><InputLevelMeter levelRef={inputLevelRef} /></span>
+              </div>
+            )}
+
+            {isRecording && recordMode === 'conversation' && liveSettings.micMode === 'push-to-talk' && (
+              <div className="flex justify-center mb-4">
+                <button
+                  onPointerDown={handleTalkStart}
+                  onPointerUp={handleTalkEnd}
+                  onPointerLeave={handleTalkEnd}
+                  onPointerCancel={handleTalkEnd}
+                  onLostPointerCapture={handleTalkEnd}
+                  onBlur={handleTalkEnd}
+                  onKeyDown={(e) => {
+                    if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+                      e.preventDefault();
+                      handleTalkStart();
+                    }
+                  }}
+                  onKeyUp={(e) => (e.key === ' ' || e.key === 'Enter') && handleTalkEnd()}
+                  className={`font-bold py-4 px-8 rounded-full text-lg shadow-md select-none touch-none focus:outline-none focus:ring-4 focus:ring-primary focus:ring-opacity-50 transition duration-150 ease-in-out
+                    ${isTalking ? 'bg-primary text-white scale-105' : 'bg-white text-primary border-2 border-primary'}`}
+                  aria-pressed={isTalking}
+                >
+                  {isTalking ? 'Listening… release to send' : 'Hold to talk'}
+                </button>
               </div>
             )}
 
+            {connectionState === 'ended' && !isRecording && !liveError && (
+              <p className="text-center text-sm text-textSecondary mb-4">Session {CONNECTION_STATE_LABELS.ended.toLowerCase()}.</p>
+            )}
             {liveError && <ErrorMessage message={liveError} />}
 
-            <div className="mt-6 border border-borderColor rounded-lg p-4 bg-white shadow-inner max-h-96 overflow-y-auto">
-              <h3 className="text-xl font-semibold mb-3 text-primary">Conversation Log</h3>
-              {transcriptionHistory.length === 0 && !currentLiveInputTranscription && !currentLiveOutputTranscription ? (
-                <p className="text-textSecondary text-center italic">Start recording to begin your conversation.</p>
-              ) : (
-                transcriptionHistory.map((entry, index) => (
-                  <div key={index} className={`mb-2 p-2 rounded-lg ${entry.speaker === 'User' ? 'bg-blue-50 text-blue-800 self-end text-right ml-auto' : 'bg-green-50 text-green-800 self-start mr-auto'}`}>
-                    <strong className="font-semibold">{entry.speaker}:</strong> {entry.text}
-                  </div>
-                ))
-              )}
-              {currentLiveInputTranscription && (
-                <div className="mb-2 p-2 rounded-lg bg-blue-50 text-blue-800 self-end text-right ml-auto animate-pulse">
-                  <strong className="font-semibold">User (Live):</strong> {currentLiveInputTranscription}
-                </div>
-              )}
-              {currentLiveOutputTranscription && (
-                <div className="mb-2 p-2 rounded-lg bg-green-50 text-green-800 self-start mr-auto animate-pulse">
-                  <strong className="font-semibold">Model (Live):</strong> {currentLiveOutputTranscription}
-                </div>
-              )}
-            </div>
+            {liveToolActivity.length > 0 && (
+              <ResultSection
+                title="Changes Made During This Conversation"
+                variant="info"
+                content={
+                  <ul className="list-disc pl-5">
+                    {liveToolActivity.map((summary, index) => <li key={index} className="mb-1">{summary}</li>)}
+                  </ul>
+                }
+              />
+            )}
+
+            {sessionAudioUrl && !isRecording && (
+              <div className="mt-6 flex items-center space-x-3">
+                <audio
+                  ref={audioPlayerRef}
+                  src={sessionAudioUrl}
+                  controls
+                  onTimeUpdate={handleAudioTimeUpdate}
+                  onLoadedMetadata={(e) => {
+                    // MediaRecorder WebM files have no duration until the end is reached; seek there once so the scrubber works
+                    const player = e.currentTarget;
+                    if (player.duration === Infinity) {
+                      player.currentTime = Number.MAX_SAFE_INTEGER;
+                      player.addEventListener('durationchange', () => { player.currentTime = 0; }, { once: true });
+                    }
+                  }}
+                  className="flex-1"
+                />
+                <button onClick={handleDeleteSessionAudio} className="text-sm text-error hover:underline whitespace-nowrap">
+                  Delete audio, keep text
+                </button>
+              </div>
+            )}
+
+            <TranscriptLog
+              entries={transcriptionHistory}
+              speakers={speakers}
+              liveInput={currentLiveInputTranscription}
+              liveOutput={currentLiveOutputTranscription}
+              highlightedSegment={highlightedSegment}
+              editable={!isRecording}
+              onChangeSpeaker={handleChangeSegmentSpeaker}
+              onRenameSpeaker={handleRenameSpeaker}
+              onSaveSpeakers={handleSaveSpeakers}
+              onAddSpeaker={handleAddSpeaker}
+              onSeek={sessionAudioUrl && !isRecording ? handleSeekAudio : undefined}
+            />
+
+            {!isRecording && transcriptionHistory.length > 0 && (
+              <div className="flex justify-center space-x-2 mt-4">
+                <button
+                  onClick={handleIdentifySpeakers}
+                  className="bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-75 transition duration-150 ease-in-out flex items-center justify-center"
+                  disabled={speakersLoading}
+                >
+                  {speakersLoading && <Spinner size="w-4 h-4" color="border-t-white" className="mr-2" />}
+                  Identify Speakers
+                </button>
+                {!visitRecap && !visitRecapLoading && (
+                  <button
+                    onClick={handleRecapRecording}
+                    className="bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-75 transition duration-150 ease-in-out"
+                  >
+                    Recap This Recording
+                  </button>
+                )}
+              </div>
+            )}
+            {speakersError && <ErrorMessage message={`Speaker identification failed: ${speakersError}`} />}
+            {visitRecapLoading && (
+              <div className="flex items-center justify-center mt-4 text-primary font-medium">
+                <Spinner size="w-6 h-6" className="mr-3" />
+                Writing your visit recap...
+              </div>
+            )}
+            {visitRecapError && <ErrorMessage message={visitRecapError} />}
+            {visitRecap && (
+              <ResultSection
+                title="Visit Recap"
+                content={<VisitRecapView recap={visitRecap} transcript={transcriptionHistory} onJumpToSegment={handleJumpToSegment} />}
+              />
+            )}
+            {reminders.length > 0 && (
+              <ResultSection
+                title="Reminders"
+                content={<ReminderList reminders={reminders} onDelete={handleDeleteReminder} />}
+              />
+            )}
           </div>
         )}
-      </div>
+      </GlossaryPopoverHost>
+
+      {cameraTab && (
+        <CameraCapture
+          onCapture={(files) => handleAddDocumentFiles(cameraTab, files)}
+          onClose={() => setCameraTab(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { AppointmentQuestion } from '../services/appointmentQuestions';
+
+interface AppointmentQuestionListProps {
+  questions: AppointmentQuestion[];
+  onAdd: (text: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const AppointmentQuestionList: React.FC<AppointmentQuestionListProps> = ({ questions, onAdd, onDelete }) => {
+  const [draft, setDraft] = useState<string>('');
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    onAdd(draft);
+    setDraft('');
+  };
+
+  return (
+    <div>
+      {questions.length === 0 ? (
+        <p className="text-sm text-textSecondary mb-2">
+          No questions yet. Add your own, or ask the voice advocate in the Record tab to add one.
+        </p>
+      ) : (
+        <ol className="list-decimal pl-5 mb-3">
+          {questions.map(question => (
+            <li key={question.id} className="mb-1">
+              <span className="text-textPrimary">{question.text}</span>
+              {question.source === 'voice' && (
+                <span className="ml-2 text-xs text-textSecondary">(added by voice)</span>
+              )}
+              <button
+                onClick={() => onDelete(question.id)}
+                className="ml-2 text-xs text-red-600 hover:underline"
+                aria-label={`Remove question: ${question.text}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Add a question for your doctor"
+          className="flex-1 p-2 border border-borderColor rounded-md text-textPrimary"
+        />
+        <button
+          onClick={handleAdd}
+          className="bg-primary hover:bg-primary-hover text-white font-bold py-1 px-3 rounded-md"
+          disabled={!draft.trim()}
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AppointmentQuestionList;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { BilingualTranslation } from '../services/bilingualTranslation';
+
+interface BilingualTranslationViewProps {
+  translation: BilingualTranslation;
+  termColumn: string;
+  explanationColumn: string;
+  languageCode: string; // Marks the explanations' language for screen readers and fonts
+}
+
+// English clinical terms next to their explanations, so patients can match what they read to what their doctor says.
+const BilingualTranslationView: React.FC<BilingualTranslationViewProps> = ({ translation, termColumn, explanationColumn, languageCode }) => (
+  <div>
+    <p className="mb-4" lang={languageCode}>{translation.overview}</p>
+    {translation.terms.length > 0 && (
+      <table className="w-full text-left border-collapse">
+        <thead>
+          <tr className="border-b-2 border-borderColor">
+            <th className="py-2 pr-4 w-1/3">{termColumn}</th>
+            <th className="py-2">{explanationColumn}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {translation.terms.map((entry, index) => (
+            <tr key={index} className="border-b border-borderColor align-top">
+              <td className="py-2 pr-4 font-semibold" lang="en">{entry.term}</td>
+              <td className="py-2" lang={languageCode}>{entry.explanation}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export default BilingualTranslationView;
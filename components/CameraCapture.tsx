@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { detectDocumentCorners, Quad, scanFrame, ScanOptions } from '../services/documentScan';
+import Spinner from './Spinner';
+
+interface CameraCaptureProps {
+  onCapture: (files: File[]) => void; // Called with every kept shot, in order, when the user is done
+  onClose: () => void;
+}
+
+const DETECTION_INTERVAL_MS = 400;
+
+interface Shot {
+  file: File;
+  previewUrl: string;
+}
+
+// Photographs paper documents page by page, outlining the detected page edges while aiming.
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null); // The camera could not be started
+  const [captureError, setCaptureError] = useState<string | null>(null); // The last shot failed; the camera keeps running
+  const [corners, setCorners] = useState<Quad | null>(null);
+  const [options, setOptions] = useState<ScanOptions>({ autoCrop: true, enhance: true });
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [isCapturing, setIsCapturing] = useState<boolean>(false);
+  const shotsRef = useRef<Shot[]>([]);
+  shotsRef.current = shots;
+
+  // Effect to start the rear camera, stopping it when the dialog closes
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices?.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) videoRef.current.srcObject = mediaStream;
+      })
+      .catch(error => {
+        console.error('Error starting camera:', error);
+        setCameraError(error?.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow camera access in your browser settings, or upload photos instead.'
+          : 'The camera could not be started. You can upload photos instead.');
+      });
+    if (!navigator.mediaDevices) setCameraError('This browser does not support camera capture. You can upload photos instead.');
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  // Effect to outline the page edges on the preview while auto-crop is on
+  useEffect(() => {
+    if (!options.autoCrop) {
+      setCorners(null);
+      return;
+    }
+    const interval = setInterval(() => {
+      const video = videoRef.current;
+      if (video && video.readyState >= video.HAVE_CURRENT_DATA) {
+        setCorners(detectDocumentCorners(video, video.videoWidth, video.videoHeight));
+      }
+    }, DETECTION_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [options.autoCrop]);
+
+  // Effect to release thumbnails when the dialog closes
+  useEffect(() => () => shotsRef.current.forEach(shot => URL.revokeObjectURL(shot.previewUrl)), []);
+
+  const handleCapture = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    setIsCapturing(true);
+    setCaptureError(null);
+    try {
+      const file = await scanFrame(video, options, `scan-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}-${shots.length + 1}.jpg`);
+      setShots(prev => [...prev, { file, previewUrl: URL.createObjectURL(file) }]);
+    } catch (error) {
+      console.error('Error capturing page:', error);
+      setCaptureError('That page could not be captured. Please try again.');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const handleRemoveShot = (index: number) => {
+    URL.revokeObjectURL(shots[index].previewUrl);
+    setShots(prev => prev.filter((_, shotIndex) => shotIndex !== index));
+  };
+
+  const handleDone = () => {
+    onCapture(shots.map(shot => shot.file));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black bg-opacity-70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Scan documents with the camera">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl p-4 max-h-full overflow-y-auto">
+        <h3 className="text-lg font-semibold text-primary mb-2">Scan Pages</h3>
+        {cameraError ? (
+          <p className="text-red-700 mb-3">{cameraError}</p>
+        ) : (
+          <div className="relative bg-black rounded-md overflow-hidden mb-3">
+            <video ref={videoRef} autoPlay playsInline muted className="w-full max-h-[60vh] object-contain" />
+            {corners && videoRef.current && (
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox={`0 0 ${videoRef.current.videoWidth} ${videoRef.current.videoHeight}`}
+                preserveAspectRatio="xMidYMid meet"
+              >
+                <polygon
+                  points={corners.map(point => `${point.x},${point.y}`).join(' ')}
+                  fill="rgba(37, 99, 235, 0.15)"
+                  stroke="#2563eb"
+                  strokeWidth={Math.max(2, videoRef.current.videoWidth / 300)}
+                />
+              </svg>
+            )}
+          </div>
+        )}
+        {captureError && <p className="text-red-700 text-sm mb-3">{captureError}</p>}
+
+        <div className="flex flex-wrap items-center gap-4 mb-3 text-sm text-textSecondary">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={options.autoCrop}
+              onChange={(e) => setOptions(prev => ({ ...prev, autoCrop: e.target.checked }))}
+              className="mr-2"
+            />
+            Crop to the page edges
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={options.enhance}
+              onChange={(e) => setOptions(prev => ({ ...prev, enhance: e.target.checked }))}
+              className="mr-2"
+            />
+            Clean up shadows and glare
+          </label>
+        </div>
+        <p className="text-xs text-textSecondary mb-3">
+          Lay the page on a darker surface, fill the frame, and avoid direct light. Take one photo per page.
+        </p>
+
+        {shots.length > 0 && (
+          <ol className="flex flex-wrap gap-2 mb-3">
+            {shots.map((shot, index) => (
+              <li key={shot.previewUrl} className="text-xs text-center">
+                <img src={shot.previewUrl} alt={`Scanned page ${index + 1}`} className="h-24 w-20 object-cover rounded border border-borderColor" />
+                <button onClick={() => handleRemoveShot(index)} className="text-red-600 hover:underline" aria-label={`Retake page ${index + 1}`}>
+                  Retake
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button onClick={onClose} className="py-2 px-4 rounded-md text-textSecondary hover:bg-gray-100">
+            Cancel
+          </button>
+          <button
+            onClick={handleCapture}
+            disabled={Boolean(cameraError) || isCapturing}
+            className="flex items-center bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-md disabled:opacity-50"
+          >
+            {isCapturing && <Spinner size="w-4 h-4" color="border-t-white" className="mr-2" />}
+            Capture Page {shots.length + 1}
+          </button>
+          <button
+            onClick={handleDone}
+            disabled={shots.length === 0}
+            className="bg-success hover:bg-green-700 text-white font-bold py-2 px-4 rounded-md disabled:opacity-50"
+          >
+            Use {shots.length} Page{shots.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -2,12 +2,13 @@ import React from 'react';
 
 interface DisclaimerProps {
   children: React.ReactNode;
+  label?: string; // Localized "Important"
 }
 
-const Disclaimer: React.FC<DisclaimerProps> = ({ children }) => {
+const Disclaimer: React.FC<DisclaimerProps> = ({ children, label = 'Important' }) => {
   return (
     <div className="bg-yellow-50 border-2 border-warning text-yellow-800 p-4 rounded-lg mt-5">
-      <strong className="text-amber-700">⚠️ Important:</strong> {children}
+      <strong className="text-amber-700">⚠️ {label}:</strong> {children}
     </div>
   );
 };
@@ -0,0 +1,113 @@
+import React from 'react';
+import { DocumentPage, MAX_DOCUMENT_PAGES, MAX_TOTAL_PAGE_BYTES } from '../services/documentPages';
+import Spinner from './Spinner';
+
+interface DocumentPagePickerProps {
+  pages: DocumentPage[];
+  isLoading: boolean;
+  errors: string[];
+  onAddFiles: (files: File[]) => void;
+  onMove: (index: number, offset: -1 | 1) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onOpenCamera?: () => void; // Shows a "Scan with camera" button when set
+}
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Upload for images and PDFs, with page thumbnails in the order they are sent
+const DocumentPagePicker: React.FC<DocumentPagePickerProps> = ({ pages, isLoading, errors, onAddFiles, onMove, onRemove, onClear, onOpenCamera }) => {
+  const totalBytes = pages.reduce((sum, page) => sum + page.file.size, 0);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Lets the same file be picked again after removing it
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center space-x-4">
+        <input
+          type="file"
+          accept="image/*,application/pdf"
+          multiple
+          onChange={handleChange}
+          disabled={isLoading || pages.length >= MAX_DOCUMENT_PAGES}
+          className="block w-full text-sm text-textPrimary file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-violet-50 file:text-primary hover:file:bg-violet-100"
+        />
+        {onOpenCamera && (
+          <button
+            onClick={onOpenCamera}
+            disabled={isLoading || pages.length >= MAX_DOCUMENT_PAGES}
+            className="whitespace-nowrap py-2 px-4 rounded-full text-sm font-semibold bg-violet-50 text-primary hover:bg-violet-100 disabled:opacity-50"
+          >
+            Scan with camera
+          </button>
+        )}
+        {isLoading && (
+          <span className="flex items-center text-sm text-primary whitespace-nowrap">
+            <Spinner size="w-4 h-4" className="mr-2" />
+            Reading pages...
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-textSecondary mt-1">
+        Images or PDFs, up to {MAX_DOCUMENT_PAGES} pages and {formatMegabytes(MAX_TOTAL_PAGE_BYTES)} in total. Large pages are downscaled.
+      </p>
+
+      {errors.length > 0 && (
+        <ul className="mt-2 text-sm text-red-700 list-disc pl-5">
+          {errors.map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      )}
+
+      {pages.length > 0 && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-2 text-sm text-textSecondary">
+            <span>{pages.length} page{pages.length === 1 ? '' : 's'} ({formatMegabytes(totalBytes)}), sent in this order</span>
+            <button onClick={onClear} className="text-red-600 hover:underline">Remove all</button>
+          </div>
+          <ol className="flex flex-wrap gap-3">
+            {pages.map((page, index) => (
+              <li key={page.id} className="w-28 text-xs">
+                <div className="relative">
+                  <img src={page.previewUrl} alt={page.label} className="h-36 w-28 object-cover rounded-md shadow-md border border-borderColor" />
+                  <span className="absolute top-1 left-1 bg-primary text-white rounded px-1">{index + 1}</span>
+                </div>
+                <p className="truncate mt-1 text-textSecondary" title={page.label}>{page.label}</p>
+                <div className="flex justify-between mt-1">
+                  <button
+                    onClick={() => onMove(index, -1)}
+                    disabled={index === 0}
+                    className="px-1 text-primary disabled:text-gray-300"
+                    aria-label={`Move ${page.label} earlier`}
+                  >
+                    ←
+                  </button>
+                  <button
+                    onClick={() => onRemove(page.id)}
+                    className="text-red-600 hover:underline"
+                    aria-label={`Remove ${page.label}`}
+                  >
+                    Remove
+                  </button>
+                  <button
+                    onClick={() => onMove(index, 1)}
+                    disabled={index === pages.length - 1}
+                    className="px-1 text-primary disabled:text-gray-300"
+                    aria-label={`Move ${page.label} later`}
+                  >
+                    →
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentPagePicker;
@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GlossaryEntry, searchGlossary, UserGlossaryTerm } from '../services/glossary';
+
+interface GlossaryBrowserProps {
+  entries: GlossaryEntry[];
+  queuedTerms: UserGlossaryTerm[];
+  drafts: UserGlossaryTerm[]; // Queued terms with a model-generated definition awaiting review
+  focusEntryId: string | null; // Scrolled to and highlighted, e.g. after "Open in glossary"
+  isDefining: boolean;
+  onQueue: (text: string) => void;
+  onDelete: (id: string) => void;
+  onDefineQueued: () => void;
+  onSaveDraft: (draft: UserGlossaryTerm) => void;
+  onDiscardDraft: (id: string) => void;
+}
+
+const GlossaryBrowser: React.FC<GlossaryBrowserProps> = ({
+  entries,
+  queuedTerms,
+  drafts,
+  focusEntryId,
+  isDefining,
+  onQueue,
+  onDelete,
+  onDefineQueued,
+  onSaveDraft,
+  onDiscardDraft,
+}) => {
+  const [query, setQuery] = useState<string>('');
+  const [newTerm, setNewTerm] = useState<string>('');
+  const focusRef = useRef<HTMLLIElement>(null);
+  const results = searchGlossary(query, entries);
+
+  // Effect to clear the search and bring the focused entry into view
+  useEffect(() => {
+    if (!focusEntryId) return;
+    setQuery('');
+    requestAnimationFrame(() => focusRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+  }, [focusEntryId]);
+
+  const handleQueue = (text: string) => {
+    if (!text.trim()) return;
+    onQueue(text);
+    setNewTerm('');
+  };
+
+  return (
+    <div>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search terms, abbreviations or definitions"
+        className="w-full p-3 border border-borderColor rounded-md mb-4 text-textPrimary"
+        aria-label="Search the glossary"
+      />
+
+      {results.length === 0 ? (
+        <div className="text-sm text-textSecondary mb-4">
+          <p>No glossary entry matches "{query.trim()}".</p>
+          <button
+            onClick={() => {
+              handleQueue(query);
+              setQuery('');
+            }}
+            className="mt-2 text-primary hover:underline"
+          >
+            Queue "{query.trim()}" for a definition
+          </button>
+        </div>
+      ) : (
+        <ul className="divide-y divide-borderColor border border-borderColor rounded-md mb-6 max-h-[32rem] overflow-y-auto">
+          {results.map(entry => (
+            <li
+              key={entry.id}
+              ref={entry.id === focusEntryId ? focusRef : undefined}
+              className={`p-3 ${entry.id === focusEntryId ? 'bg-blue-50' : ''}`}
+            >
+              <div className="flex items-baseline justify-between">
+                <p className="font-semibold text-textPrimary">
+                  {entry.term}
+                  {entry.abbreviations.length > 0 && (
+                    <span className="ml-1 font-normal text-textSecondary">({entry.abbreviations.join(', ')})</span>
+                  )}
+                </p>
+                {entry.source === 'saved' && (
+                  <span className="text-xs text-textSecondary">
+                    Saved by you
+                    <button
+                      onClick={() => onDelete(entry.id)}
+                      className="ml-2 text-red-600 hover:underline"
+                      aria-label={`Delete ${entry.term} from the glossary`}
+                    >
+                      Delete
+                    </button>
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-textPrimary mt-1">{entry.definition}</p>
+              {entry.synonyms.length > 0 && (
+                <p className="text-xs text-textSecondary mt-1">Also called: {entry.synonyms.join(', ')}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h3 className="text-lg font-semibold text-primary mb-2">Missing a Term?</h3>
+      <p className="text-sm text-textSecondary mb-2">
+        Queue terms the glossary doesn't have, then ask for definitions. You can review each one before it is saved.
+      </p>
+      <div className="flex space-x-2 mb-3">
+        <input
+          type="text"
+          value={newTerm}
+          onChange={(e) => setNewTerm(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleQueue(newTerm)}
+          placeholder="e.g. sleep apnea"
+          className="flex-1 p-2 border border-borderColor rounded-md text-textPrimary"
+        />
+        <button
+          onClick={() => handleQueue(newTerm)}
+          className="bg-primary hover:bg-primary-hover text-white font-bold py-1 px-3 rounded-md"
+          disabled={!newTerm.trim()}
+        >
+          Queue
+        </button>
+      </div>
+
+      {queuedTerms.length > 0 && (
+        <div className="mb-4">
+          <ul className="mb-3">
+            {queuedTerms.map(term => (
+              <li key={term.id} className="text-sm mb-1">
+                <span className="text-textPrimary">{term.term}</span>
+                <button
+                  onClick={() => onDelete(term.id)}
+                  className="ml-2 text-xs text-red-600 hover:underline"
+                  aria-label={`Remove ${term.term} from the queue`}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onDefineQueued}
+            className="bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-md disabled:opacity-50"
+            disabled={isDefining}
+          >
+            {isDefining ? 'Defining...' : `Define ${queuedTerms.length} Queued Term${queuedTerms.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      )}
+
+      {drafts.length > 0 && (
+        <div>
+          <h4 className="text-base font-semibold mb-2">Review Definitions</h4>
+          <ul className="space-y-3">
+            {drafts.map(draft => (
+              <li key={draft.id} className="p-3 border border-borderColor rounded-md">
+                <p className="font-semibold text-textPrimary">
+                  {draft.term}
+                  {draft.abbreviations.length > 0 && (
+                    <span className="ml-1 font-normal text-textSecondary">({draft.abbreviations.join(', ')})</span>
+                  )}
+                </p>
+                <p className="text-sm text-textPrimary mt-1">{draft.definition}</p>
+                {draft.synonyms.length > 0 && (
+                  <p className="text-xs text-textSecondary mt-1">Also called: {draft.synonyms.join(', ')}</p>
+                )}
+                <div className="mt-2 space-x-2">
+                  <button
+                    onClick={() => onSaveDraft(draft)}
+                    className="bg-success hover:bg-green-700 text-white text-sm font-bold py-1 px-3 rounded-md"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => onDiscardDraft(draft.id)}
+                    className="text-sm text-textSecondary hover:underline"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryBrowser;
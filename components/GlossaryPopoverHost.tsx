@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { findGlossaryEntry, GlossaryEntry } from '../services/glossary';
+
+interface GlossaryPopoverHostProps {
+  children: React.ReactNode;
+  className?: string;
+  onOpenGlossary: (entryId: string) => void;
+}
+
+const POPOVER_WIDTH = 288; // w-72
+
+// Shows a definition when an underlined term inside `children` is clicked. Terms are rendered as
+// buttons with a data-glossary-id attribute, so one listener here serves every result on the page.
+const GlossaryPopoverHost: React.FC<GlossaryPopoverHostProps> = ({ children, className = '', onOpenGlossary }) => {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const [popover, setPopover] = useState<{ entry: GlossaryEntry; top: number; left: number } | null>(null);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const term = (e.target as HTMLElement).closest<HTMLElement>('[data-glossary-id]');
+    const entry = term?.dataset.glossaryId ? findGlossaryEntry(term.dataset.glossaryId) : undefined;
+    if (!term || !entry || !hostRef.current) return;
+    const hostRect = hostRef.current.getBoundingClientRect();
+    const termRect = term.getBoundingClientRect();
+    setPopover({
+      entry,
+      top: termRect.bottom - hostRect.top + 4,
+      left: Math.max(0, Math.min(termRect.left - hostRect.left, hostRect.width - POPOVER_WIDTH)),
+    });
+  };
+
+  // Effect to close the popover on Escape or a click anywhere outside it
+  useEffect(() => {
+    if (!popover) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setPopover(null);
+    };
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (!popoverRef.current?.contains(target) && !target.closest('[data-glossary-id]')) setPopover(null);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('mousedown', handleMouseDown);
+    };
+  }, [popover]);
+
+  return (
+    <div ref={hostRef} className={`relative ${className}`} onClick={handleClick}>
+      {children}
+      {popover && (
+        <div
+          ref={popoverRef}
+          role="dialog"
+          aria-label={`Definition of ${popover.entry.term}`}
+          className="absolute z-20 w-72 p-3 bg-white border border-borderColor rounded-lg shadow-lg text-sm text-textPrimary"
+          style={{ top: popover.top, left: popover.left }}
+        >
+          <p className="font-semibold text-primary">
+            {popover.entry.term}
+            {popover.entry.abbreviations.length > 0 && (
+              <span className="ml-1 font-normal text-textSecondary">({popover.entry.abbreviations.join(', ')})</span>
+            )}
+          </p>
+          <p className="mt-1">{popover.entry.definition}</p>
+          <button
+            onClick={() => {
+              setPopover(null);
+              onOpenGlossary(popover.entry.id);
+            }}
+            className="mt-2 text-xs text-primary hover:underline"
+          >
+            Open in glossary
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryPopoverHost;
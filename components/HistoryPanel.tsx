@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { filterHistory, HISTORY_TAB_LABELS, HistoryEntry, HistoryTab } from '../services/sessionHistory';
+import ResultSection from './ResultSection';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  renderContent: (text: string) => React.ReactNode;
+  onReopen: (entry: HistoryEntry) => void;
+  onTogglePin: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+}
+
+const preview = (text: string, length = 120): string =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, renderContent, onReopen, onTogglePin, onDelete }) => {
+  const [query, setQuery] = useState<string>('');
+  const [tabFilter, setTabFilter] = useState<HistoryTab | 'all'>('all');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const visibleEntries = useMemo(() => filterHistory(entries, query, tabFilter), [entries, query, tabFilter]);
+  const compared = compareIds
+    .map(id => entries.find(entry => entry.id === id))
+    .filter((entry): entry is HistoryEntry => Boolean(entry));
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id)
+      ? prev.filter(existing => existing !== id)
+      : [...prev, id].slice(-2)); // Compare at most two results
+  };
+
+  return (
+    <div>
+      <div className="flex space-x-2 mb-4">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search inputs and results"
+          className="flex-1 p-2 border border-borderColor rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <select
+          value={tabFilter}
+          onChange={(e) => setTabFilter(e.target.value as HistoryTab | 'all')}
+          className="p-2 border border-borderColor rounded-md"
+        >
+          <option value="all">All tabs</option>
+          {(Object.keys(HISTORY_TAB_LABELS) as HistoryTab[]).map(tab => (
+            <option key={tab} value={tab}>{HISTORY_TAB_LABELS[tab]}</option>
+          ))}
+        </select>
+      </div>
+
+      {compared.length === 2 && (
+        <div className="grid md:grid-cols-2 gap-4 mb-4">
+          {compared.map(entry => (
+            <ResultSection
+              key={entry.id}
+              title={`${HISTORY_TAB_LABELS[entry.tab]} — ${new Date(entry.timestamp).toLocaleString()}`}
+              content={renderContent(entry.output)}
+            />
+          ))}
+        </div>
+      )}
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-textSecondary text-center italic">
+          {entries.length === 0 ? 'Results you get in the other tabs are saved here.' : 'No saved results match your search.'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className={`p-3 bg-white rounded-md border ${entry.pinned ? 'border-primary' : 'border-borderColor'}`}>
+              <div className="flex items-center justify-between text-sm text-textSecondary mb-1">
+                <span>
+                  {entry.pinned && '📌 '}
+                  <strong className="text-textPrimary">{HISTORY_TAB_LABELS[entry.tab]}</strong>
+                  {' · '}{new Date(entry.timestamp).toLocaleString()}
+                  {entry.model && ` · ${entry.model}`}
+                </span>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(entry.id)}
+                    onChange={() => toggleCompare(entry.id)}
+                    className="mr-1"
+                  />
+                  Compare
+                </label>
+              </div>
+              {entry.inputText && <p className="text-sm mb-1"><span className="font-semibold">Input:</span> {preview(entry.inputText)}</p>}
+              {entry.imageName && <p className="text-sm mb-1 text-textSecondary">Image: {entry.imageName}{entry.imageDataUrls.length > 0 ? '' : ' (not saved)'}</p>}
+              <p className="text-sm mb-2"><span className="font-semibold">Result:</span> {preview(entry.output)}</p>
+              {entry.groundingUrls.length > 0 && (
+                <p className="text-xs text-textSecondary mb-2">{entry.groundingUrls.length} reference{entry.groundingUrls.length === 1 ? '' : 's'}</p>
+              )}
+              <div className="space-x-3 text-sm">
+                <button onClick={() => onReopen(entry)} className="text-primary hover:underline">Reopen</button>
+                <button onClick={() => onTogglePin(entry)} className="text-primary hover:underline">{entry.pinned ? 'Unpin' : 'Pin'}</button>
+                <button onClick={() => onDelete(entry.id)} className="text-error hover:underline">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
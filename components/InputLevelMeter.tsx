@@ -0,0 +1,33 @@
+import React, { useEffect, useRef } from 'react';
+
+interface InputLevelMeterProps {
+  levelRef: React.MutableRefObject<number>; // Updated by the capture pipeline, 0-1
+}
+
+// Draws from a ref on every animation frame instead of through React state, so metering never re-renders the app.
+const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ levelRef }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    let displayed = 0;
+    const draw = () => {
+      // Rise instantly, fall gently, and scale up so normal speech fills most of the bar
+      displayed = Math.max(levelRef.current, displayed * 0.9);
+      if (barRef.current) {
+        barRef.current.style.width = `${Math.min(100, Math.sqrt(displayed) * 140)}%`;
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [levelRef]);
+
+  return (
+    <div className="w-48 h-2 bg-gray-200 rounded-full overflow-hidden" aria-hidden="true">
+      <div ref={barRef} className="h-full bg-green-500 transition-none" style={{ width: '0%' }} />
+    </div>
+  );
+};
+
+export default InputLevelMeter;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { InteractionFinding } from '../services/drugInteractions';
+import { InteractionSeverity } from '../services/interactionData';
+import Spinner from './Spinner';
+
+interface InteractionFindingsProps {
+  findings: InteractionFinding[];
+  onExplain: (finding: InteractionFinding) => Promise<string | undefined>;
+}
+
+const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  contraindicated: 'bg-red-600 text-white',
+  major: 'bg-red-100 text-red-800',
+  moderate: 'bg-amber-100 text-amber-800',
+  minor: 'bg-gray-100 text-gray-700',
+};
+
+const findingKey = (finding: InteractionFinding): string =>
+  `${finding.drugA}|${finding.drugB}|${finding.severity}`;
+
+const InteractionFindings: React.FC<InteractionFindingsProps> = ({ findings, onExplain }) => {
+  const [explanations, setExplanations] = useState<Record<string, string>>({});
+  const [loadingKey, setLoadingKey] = useState<string | null>(null);
+
+  const handleExplain = async (finding: InteractionFinding) => {
+    const key = findingKey(finding);
+    setLoadingKey(key);
+    const explanation = await onExplain(finding);
+    if (explanation) {
+      setExplanations(prev => ({ ...prev, [key]: explanation }));
+    }
+    setLoadingKey(null);
+  };
+
+  return (
+    <div>
+      <ul className="space-y-3">
+        {findings.map(finding => {
+          const key = findingKey(finding);
+          return (
+            <li key={key} className="p-3 bg-white rounded-md border border-borderColor">
+              <div className="flex items-center justify-between">
+                <strong>{finding.drugA} + {finding.drugB}</strong>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold uppercase ${SEVERITY_STYLES[finding.severity]}`}>
+                  {finding.severity}
+                </span>
+              </div>
+              <p className="text-sm mt-1">{finding.explanation}</p>
+              {explanations[key] ? (
+                <p className="text-sm mt-2 p-2 bg-blue-50 rounded-md">{explanations[key]}</p>
+              ) : (
+                <button
+                  onClick={() => handleExplain(finding)}
+                  className="text-sm text-primary hover:underline mt-1 flex items-center"
+                  disabled={loadingKey !== null}
+                >
+                  {loadingKey === key && <Spinner size="w-3 h-3" className="mr-2" />}
+                  Explain in plain language
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <p className="text-xs text-textSecondary mt-3">
+        Checked offline against interaction dataset v{findings[0]?.datasetVersion}. This list is not complete — always ask your pharmacist.
+      </p>
+    </div>
+  );
+};
+
+export default InteractionFindings;
@@ -0,0 +1,63 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { buildTrendSeries, LabReport } from '../services/labHistory';
+import LabTrendChart from './LabTrendChart';
+
+interface LabHistoryPanelProps {
+  reports: LabReport[];
+  onDeleteReport: (id: string) => void;
+}
+
+const LabHistoryPanel: React.FC<LabHistoryPanelProps> = ({ reports, onDeleteReport }) => {
+  const series = useMemo(() => buildTrendSeries(reports), [reports]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!series.some(entry => entry.key === selectedKey)) {
+      setSelectedKey(series[0]?.key ?? null);
+    }
+  }, [series, selectedKey]);
+
+  const selectedSeries = series.find(entry => entry.key === selectedKey);
+
+  return (
+    <div>
+      {series.length > 0 && (
+        <>
+          <label className="block text-sm text-textSecondary mb-2">
+            Analyte:{' '}
+            <select
+              value={selectedKey ?? ''}
+              onChange={(e) => setSelectedKey(e.target.value)}
+              className="ml-1 p-1 border border-borderColor rounded-md text-textPrimary"
+            >
+              {series.map(entry => (
+                <option key={entry.key} value={entry.key}>
+                  {entry.name} ({entry.points.length})
+                </option>
+              ))}
+            </select>
+          </label>
+          {selectedSeries && <LabTrendChart series={selectedSeries} />}
+        </>
+      )}
+      <h4 className="text-base font-semibold mt-4 mb-2">Saved Reports</h4>
+      <ul className="text-sm">
+        {[...reports].reverse().map(report => (
+          <li key={report.id} className="flex items-center justify-between py-1 border-b border-borderColor last:border-0">
+            <span>
+              {report.collectionDate} — {report.panel.results.length} results
+            </span>
+            <button
+              onClick={() => onDeleteReport(report.id)}
+              className="text-error hover:underline"
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LabHistoryPanel;
@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { LabFlag, LabResult } from '../services/labResults';
+
+interface LabResultsTableProps {
+  results: LabResult[];
+}
+
+type SortKey = 'analyte' | 'value' | 'flag' | 'collectionDate';
+
+// Abnormal results sort first when sorting by flag
+const FLAG_ORDER: Record<LabFlag, number> = { critical: 0, H: 1, L: 2, normal: 3 };
+
+const FLAG_STYLES: Record<LabFlag, string> = {
+  critical: 'bg-red-100 text-red-800',
+  H: 'bg-amber-100 text-amber-800',
+  L: 'bg-amber-100 text-amber-800',
+  normal: 'bg-emerald-50 text-emerald-700',
+};
+
+const compareRows = (a: LabResult, b: LabResult, key: SortKey): number => {
+  switch (key) {
+    case 'value':
+      return (a.value ?? Infinity) - (b.value ?? Infinity);
+    case 'flag':
+      return (a.flag ? FLAG_ORDER[a.flag] : 4) - (b.flag ? FLAG_ORDER[b.flag] : 4);
+    case 'collectionDate':
+      return (a.collectionDate ?? '').localeCompare(b.collectionDate ?? '');
+    default:
+      return a.analyte.localeCompare(b.analyte);
+  }
+};
+
+const COLUMNS: { key: SortKey | null; label: string }[] = [
+  { key: 'analyte', label: 'Analyte' },
+  { key: 'value', label: 'Value' },
+  { key: null, label: 'Reference Range' },
+  { key: 'flag', label: 'Flag' },
+  { key: 'collectionDate', label: 'Collected' },
+];
+
+const LabResultsTable: React.FC<LabResultsTableProps> = ({ results }) => {
+  const [sortKey, setSortKey] = useState<SortKey | null>(null);
+  const [ascending, setAscending] = useState<boolean>(true);
+
+  const sortedResults = useMemo(() => {
+    if (!sortKey) return results;
+    const sorted = [...results].sort((a, b) => compareRows(a, b, sortKey));
+    return ascending ? sorted : sorted.reverse();
+  }, [results, sortKey, ascending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead>
+          <tr className="border-b border-borderColor">
+            {COLUMNS.map(column => (
+              <th key={column.label} className="py-2 pr-3 font-semibold text-textSecondary">
+                {column.key ? (
+                  <button onClick={() => handleSort(column.key!)} className="hover:text-primary">
+                    {column.label}
+                    {sortKey === column.key && (ascending ? ' ▲' : ' ▼')}
+                  </button>
+                ) : (
+                  column.label
+                )}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedResults.map((row, index) => (
+            <tr key={`${row.analyte}-${index}`} className="border-b border-borderColor last:border-0">
+              <td className="py-2 pr-3 font-medium">{row.analyte}</td>
+              <td className="py-2 pr-3">{row.valueText} {row.unit}</td>
+              <td className="py-2 pr-3 text-textSecondary">{row.referenceRange || '—'}</td>
+              <td className="py-2 pr-3">
+                {row.flag && (
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${FLAG_STYLES[row.flag]}`}>
+                    {row.flag}
+                  </span>
+                )}
+              </td>
+              <td className="py-2 pr-3 text-textSecondary">{row.collectionDate ?? '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default LabResultsTable;
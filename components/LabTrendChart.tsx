@@ -0,0 +1,82 @@
+import React from 'react';
+import { LabTrendSeries } from '../services/labHistory';
+
+interface LabTrendChartProps {
+  series: LabTrendSeries;
+}
+
+const WIDTH = 400;
+const HEIGHT = 160;
+const PADDING = { top: 12, right: 16, bottom: 24, left: 40 };
+
+const LabTrendChart: React.FC<LabTrendChartProps> = ({ series }) => {
+  const { points } = series;
+  if (points.length === 0) return null;
+
+  // Use the most recent reference range for the band; ranges rarely change between reports.
+  const latest = points[points.length - 1];
+  const bandLow = latest.referenceLow;
+  const bandHigh = latest.referenceHigh;
+
+  const values = points.map(point => point.value);
+  const bounds = [...values, ...(bandLow !== null ? [bandLow] : []), ...(bandHigh !== null ? [bandHigh] : [])];
+  let min = Math.min(...bounds);
+  let max = Math.max(...bounds);
+  const margin = (max - min) * 0.1 || Math.abs(max) * 0.1 || 1;
+  min -= margin;
+  max += margin;
+
+  const times = points.map(point => new Date(point.date).getTime());
+  const firstTime = times[0];
+  const timeSpan = times[times.length - 1] - firstTime;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) => PADDING.left + (timeSpan === 0 ? plotWidth / 2 : ((times[index] - firstTime) / timeSpan) * plotWidth);
+  const y = (value: number) => PADDING.top + (1 - (value - min) / (max - min)) * plotHeight;
+
+  const bandTop = y(bandHigh ?? max);
+  const bandBottom = y(bandLow ?? min);
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(point.value)}`).join(' ');
+
+  return (
+    <figure>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${series.name} trend`}>
+        {(bandLow !== null || bandHigh !== null) && (
+          <rect
+            x={PADDING.left}
+            y={bandTop}
+            width={plotWidth}
+            height={Math.max(bandBottom - bandTop, 0)}
+            className="fill-emerald-100"
+          />
+        )}
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} className="stroke-gray-300" />
+        <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} className="stroke-gray-300" />
+        <text x={PADDING.left - 4} y={PADDING.top + 4} textAnchor="end" className="fill-gray-500 text-[10px]">{Math.round(max * 10) / 10}</text>
+        <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} textAnchor="end" className="fill-gray-500 text-[10px]">{Math.round(min * 10) / 10}</text>
+        <path d={path} fill="none" className="stroke-primary" strokeWidth={2} />
+        {points.map((point, index) => (
+          <circle
+            key={`${point.date}-${index}`}
+            cx={x(index)}
+            cy={y(point.value)}
+            r={4}
+            className={point.flag && point.flag !== 'normal' ? 'fill-amber-500' : 'fill-primary'}
+          >
+            <title>{`${point.date}: ${point.value} ${series.unit}`}</title>
+          </circle>
+        ))}
+        <text x={PADDING.left} y={HEIGHT - 6} className="fill-gray-500 text-[10px]">{points[0].date}</text>
+        {points.length > 1 && (
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[10px]">{latest.date}</text>
+        )}
+      </svg>
+      <figcaption className="text-sm text-textSecondary mt-1">
+        {series.name} ({series.unit}) — shaded area is the reference range
+      </figcaption>
+    </figure>
+  );
+};
+
+export default LabTrendChart;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { READING_LEVEL_LABELS, ReadingLevel } from '../services/patientProfile';
+import {
+  AdvocatePersona,
+  LIVE_VOICES,
+  LiveSettings,
+  MicMode,
+  PACE_LABELS,
+  PERSONA_LABELS,
+  SpeakingPace,
+} from '../services/liveSettings';
+
+interface LiveSettingsPanelProps {
+  settings: LiveSettings;
+  onChange: (settings: LiveSettings) => void;
+  disabled: boolean; // Settings apply when a session starts, so they are locked while recording
+}
+
+const selectClassName = 'block w-full p-1 border border-borderColor rounded-md text-textPrimary';
+
+const LiveSettingsPanel: React.FC<LiveSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const update = <K extends keyof LiveSettings>(key: K, value: LiveSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  return (
+    <fieldset disabled={disabled} className="grid grid-cols-2 gap-3">
+      <label className="text-sm text-textSecondary">
+        Voice
+        <select value={settings.voice} onChange={(e) => update('voice', e.target.value)} className={selectClassName}>
+          {LIVE_VOICES.map(voice => (
+            <option key={voice.name} value={voice.name}>{voice.name} ({voice.description.toLowerCase()})</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-sm text-textSecondary">
+        Speaking pace
+        <select value={settings.pace} onChange={(e) => update('pace', e.target.value as SpeakingPace)} className={selectClassName}>
+          {(Object.keys(PACE_LABELS) as SpeakingPace[]).map(pace => (
+            <option key={pace} value={pace}>{PACE_LABELS[pace]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-sm text-textSecondary">
+        Reading level
+        <select value={settings.readingLevel} onChange={(e) => update('readingLevel', e.target.value as ReadingLevel)} className={selectClassName}>
+          {(Object.keys(READING_LEVEL_LABELS) as ReadingLevel[]).map(level => (
+            <option key={level} value={level}>{READING_LEVEL_LABELS[level]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-sm text-textSecondary">
+        Advocate style
+        <select value={settings.persona} onChange={(e) => update('persona', e.target.value as AdvocatePersona)} className={selectClassName}>
+          {(Object.keys(PERSONA_LABELS) as AdvocatePersona[]).map(persona => (
+            <option key={persona} value={persona}>{PERSONA_LABELS[persona]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-sm text-textSecondary">
+        Microphone
+        <select value={settings.micMode} onChange={(e) => update('micMode', e.target.value as MicMode)} className={selectClassName}>
+          <option value="always-on">Always on</option>
+          <option value="push-to-talk">Push to talk</option>
+        </select>
+      </label>
+      <p className="col-span-2 text-xs text-textSecondary">The advocate answers in the language chosen at the top of the page.</p>
+    </fieldset>
+  );
+};
+
+export default LiveSettingsPanel;
@@ -0,0 +1,192 @@
+import React, { useMemo } from 'react';
+import { splitGlossaryTerms } from '../services/glossary';
+import { splitCitationMarkers, stripCitationMarkers } from '../services/groundingCitations';
+import { MarkdownBlock, MarkdownInline, parseMarkdown, safeLinkHref } from '../services/markdown';
+
+type CitationSource = { uri: string; title?: string };
+
+interface MarkdownContentProps {
+  text: string;
+  sources?: CitationSource[]; // Numbered sources for citation markers from annotateCitations
+}
+
+const CELL_CLASS = 'border border-borderColor px-2 py-1 text-left align-top';
+
+const hostnameOf = (uri: string): string => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch {
+    return uri;
+  }
+};
+
+// A footnote link per source, each previewing the source title and site on hover or focus
+const renderCitation = (sourceNumbers: number[], sources: CitationSource[], key: string): React.ReactNode => (
+  <sup key={key} className="ml-0.5 whitespace-nowrap">
+    {sourceNumbers.map(number => {
+      const source = sources[number - 1];
+      const href = source && safeLinkHref(source.uri);
+      if (!href) return <span key={number} className="text-textSecondary">[{number}]</span>;
+      return (
+        <span key={number} className="relative group">
+          <a
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-primary hover:underline focus:underline"
+            aria-label={`Source ${number}: ${source.title || hostnameOf(source.uri)}`}
+          >
+            [{number}]
+          </a>
+          <span className="hidden group-hover:block group-focus-within:block absolute z-20 left-0 top-full mt-1 w-64 p-2 rounded-md shadow-lg bg-white border border-borderColor text-xs text-textPrimary whitespace-normal font-normal">
+            <span className="block font-semibold">{source.title || 'External Link'}</span>
+            <span className="block text-textSecondary">{hostnameOf(source.uri)}</span>
+          </span>
+        </span>
+      );
+    })}
+  </sup>
+);
+
+const UNSUPPORTED_BADGE = (
+  <span
+    className="ml-1 inline-block align-middle px-1.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium whitespace-nowrap"
+    title="None of the search results cited for this answer support this statement. Check it with your doctor."
+  >
+    ⚠ No source
+  </span>
+);
+
+// Recognized glossary terms become buttons that GlossaryPopoverHost opens
+const renderGlossaryTerms = (value: string, key: string): React.ReactNode[] =>
+  splitGlossaryTerms(value).map((segment, index) => segment.entryId ? (
+    <button
+      key={`${key}-${index}`}
+      type="button"
+      data-glossary-id={segment.entryId}
+      className="underline decoration-dotted underline-offset-2 cursor-help"
+    >
+      {segment.text}
+    </button>
+  ) : segment.text);
+
+const renderText = (value: string, key: string, sources: CitationSource[]): React.ReactNode[] =>
+  splitCitationMarkers(value).flatMap((part, index) => {
+    const partKey = `${key}-${index}`;
+    if (part.type === 'citation') return renderCitation(part.sourceNumbers, sources, partKey);
+    if (part.type === 'unsupported') return <React.Fragment key={partKey}>{UNSUPPORTED_BADGE}</React.Fragment>;
+    return renderGlossaryTerms(part.value, partKey);
+  });
+
+const renderInline = (nodes: MarkdownInline[], key: string, sources: CitationSource[], inLink = false): React.ReactNode[] =>
+  nodes.flatMap((node, index): React.ReactNode | React.ReactNode[] => {
+    const nodeKey = `${key}-${index}`;
+    switch (node.type) {
+      case 'text':
+        return inLink ? stripCitationMarkers(node.value) : renderText(node.value, nodeKey, sources);
+      case 'strong':
+        return <strong key={nodeKey}>{renderInline(node.children, nodeKey, sources, inLink)}</strong>;
+      case 'emphasis':
+        return <em key={nodeKey}>{renderInline(node.children, nodeKey, sources, inLink)}</em>;
+      case 'code':
+        return <code key={nodeKey} className="px-1 rounded bg-gray-100 font-mono text-sm">{stripCitationMarkers(node.value)}</code>;
+      case 'break':
+        return <br key={nodeKey} />;
+      case 'link': {
+        // Links can't nest, and glossary buttons or citation links inside a link would be invalid
+        if (inLink) return renderInline(node.children, nodeKey, sources, true);
+        const external = node.href.startsWith('http');
+        return (
+          <a
+            key={nodeKey}
+            href={node.href}
+            className="text-primary underline hover:text-primary-hover"
+            {...(external ? { target: '_blank', rel: 'noopener noreferrer nofollow' } : {})}
+          >
+            {renderInline(node.children, nodeKey, sources, true)}
+          </a>
+        );
+      }
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[], key: string, sources: CitationSource[]): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    const blockKey = `${key}-${index}`;
+    switch (block.type) {
+      case 'heading': {
+        // Headings start at h3 to avoid conflicting with ResultSection titles
+        const children = renderInline(block.children, blockKey, sources);
+        if (block.level === 1) return <h3 key={blockKey} className="text-xl font-semibold mb-2 mt-4 text-primary">{children}</h3>;
+        if (block.level === 2) return <h4 key={blockKey} className="text-lg font-semibold mb-2 mt-3 text-primary">{children}</h4>;
+        return <h5 key={blockKey} className="text-base font-semibold mb-2 mt-2">{children}</h5>;
+      }
+      case 'paragraph':
+        return <p key={blockKey} className="mb-2">{renderInline(block.children, blockKey, sources)}</p>;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => {
+          const itemKey = `${blockKey}-${itemIndex}`;
+          // A leading paragraph renders inline so simple lists stay compact
+          const [lead, ...rest] = item;
+          return (
+            <li key={itemKey}>
+              {lead?.type === 'paragraph' ? renderInline(lead.children, `${itemKey}-lead`, sources) : lead && renderBlocks([lead], `${itemKey}-lead`, sources)}
+              {renderBlocks(rest, itemKey, sources)}
+            </li>
+          );
+        });
+        return block.ordered
+          ? <ol key={blockKey} start={block.start !== 1 ? block.start : undefined} className="list-decimal pl-5 mb-2">{items}</ol>
+          : <ul key={blockKey} className="list-disc pl-5 mb-2">{items}</ul>;
+      }
+      case 'table':
+        return (
+          <div key={blockKey} className="overflow-x-auto mb-2">
+            <table className="border-collapse text-sm">
+              <thead>
+                <tr className="bg-gray-100">
+                  {block.header.map((cell, column) => (
+                    <th key={column} className={`${CELL_CLASS} font-semibold`} style={{ textAlign: block.align[column] ?? undefined }}>
+                      {renderInline(cell, `${blockKey}-h${column}`, sources)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td key={column} className={CELL_CLASS} style={{ textAlign: block.align[column] ?? undefined }}>
+                        {renderInline(cell, `${blockKey}-${rowIndex}-${column}`, sources)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'code':
+        return (
+          <pre key={blockKey} className="bg-gray-100 rounded-md p-3 mb-2 overflow-x-auto text-sm">
+            <code>{stripCitationMarkers(block.value)}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return (
+          <blockquote key={blockKey} className="border-l-4 border-borderColor pl-3 mb-2 text-textSecondary">
+            {renderBlocks(block.children, blockKey, sources)}
+          </blockquote>
+        );
+      case 'rule':
+        return <hr key={blockKey} className="my-3 border-borderColor" />;
+    }
+  });
+
+// Renders markdown from model output as React elements only; no HTML from the text reaches the page.
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ text, sources = [] }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <>{renderBlocks(blocks, 'md', sources)}</>;
+};
+
+export default MarkdownContent;
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import {
+  describeMedication,
+  isActiveMedication,
+  Medication,
+  MedicationDraft,
+  medicationsToCsv,
+  medicationsToJson,
+} from '../services/medications';
+
+interface MedicationListManagerProps {
+  medications: Medication[];
+  proposals: MedicationDraft[];
+  onAcceptProposal: (index: number, medication: MedicationDraft) => void;
+  onRejectProposal: (index: number) => void;
+  onSaveMedication: (medication: Medication) => void;
+  onDeleteMedication: (id: string) => void;
+  shareWithTabs: boolean;
+  onShareWithTabsChange: (share: boolean) => void;
+}
+
+const FIELDS: { key: keyof MedicationDraft; label: string; type?: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'dose', label: 'Dose' },
+  { key: 'route', label: 'Route' },
+  { key: 'frequency', label: 'Frequency' },
+  { key: 'startDate', label: 'Start date', type: 'date' },
+  { key: 'stopDate', label: 'Stop date', type: 'date' },
+  { key: 'prescriber', label: 'Prescriber' },
+];
+
+interface MedicationFormProps {
+  initial: MedicationDraft;
+  submitLabel: string;
+  onSubmit: (medication: MedicationDraft) => void;
+  onCancel: () => void;
+}
+
+const MedicationForm: React.FC<MedicationFormProps> = ({ initial, submitLabel, onSubmit, onCancel }) => {
+  const [draft, setDraft] = useState<MedicationDraft>(initial);
+
+  return (
+    <div className="grid grid-cols-2 gap-2 p-3 bg-white rounded-md border border-borderColor">
+      {FIELDS.map(field => (
+        <label key={field.key} className="text-sm text-textSecondary">
+          {field.label}
+          <input
+            type={field.type ?? 'text'}
+            value={draft[field.key] ?? ''}
+            onChange={(e) => setDraft({ ...draft, [field.key]: field.type === 'date' ? e.target.value || null : e.target.value })}
+            className="block w-full p-1 border border-borderColor rounded-md text-textPrimary"
+          />
+        </label>
+      ))}
+      <div className="col-span-2 flex space-x-2">
+        <button
+          onClick={() => onSubmit(draft)}
+          className="bg-primary hover:bg-primary-hover text-white font-bold py-1 px-3 rounded-md"
+          disabled={!draft.name.trim()}
+        >
+          {submitLabel}
+        </button>
+        <button onClick={onCancel} className="py-1 px-3 rounded-md text-textSecondary hover:bg-gray-200">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const downloadFile = (contents: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const MedicationListManager: React.FC<MedicationListManagerProps> = ({
+  medications,
+  proposals,
+  onAcceptProposal,
+  onRejectProposal,
+  onSaveMedication,
+  onDeleteMedication,
+  shareWithTabs,
+  onShareWithTabsChange,
+}) => {
+  // Which entry is being edited: a proposal index or a saved medication id
+  const [editingProposal, setEditingProposal] = useState<number | null>(null);
+  const [editingMedicationId, setEditingMedicationId] = useState<string | null>(null);
+
+  return (
+    <div>
+      {proposals.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-base font-semibold mb-2">Proposed Additions</h4>
+          <ul className="space-y-2">
+            {proposals.map((proposal, index) => (
+              <li key={`${proposal.name}-${index}`}>
+                {editingProposal === index ? (
+                  <MedicationForm
+                    initial={proposal}
+                    submitLabel="Accept"
+                    onSubmit={(medication) => {
+                      onAcceptProposal(index, medication);
+                      setEditingProposal(null);
+                    }}
+                    onCancel={() => setEditingProposal(null)}
+                  />
+                ) : (
+                  <div className="flex items-center justify-between p-2 bg-white rounded-md border border-dashed border-blue-300">
+                    <span>{describeMedication(proposal)}</span>
+                    <span className="space-x-2 text-sm">
+                      <button onClick={() => onAcceptProposal(index, proposal)} className="text-success hover:underline">Accept</button>
+                      <button onClick={() => setEditingProposal(index)} className="text-primary hover:underline">Edit</button>
+                      <button onClick={() => onRejectProposal(index)} className="text-error hover:underline">Reject</button>
+                    </span>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <h4 className="text-base font-semibold mb-2">My Medications</h4>
+      {medications.length === 0 ? (
+        <p className="text-sm text-textSecondary italic">No medications saved yet. Summarize a note to get suggestions.</p>
+      ) : (
+        <ul className="space-y-2">
+          {medications.map(medication => (
+            <li key={medication.id}>
+              {editingMedicationId === medication.id ? (
+                <MedicationForm
+                  initial={medication}
+                  submitLabel="Save"
+                  onSubmit={(draft) => {
+                    onSaveMedication({ ...draft, id: medication.id });
+                    setEditingMedicationId(null);
+                  }}
+                  onCancel={() => setEditingMedicationId(null)}
+                />
+              ) : (
+                <div className={`flex items-center justify-between p-2 bg-white rounded-md border border-borderColor ${isActiveMedication(medication) ? '' : 'opacity-60'}`}>
+                  <span>
+                    {describeMedication(medication)}
+                    {medication.stopDate && <span className="text-xs text-textSecondary"> (stopped {medication.stopDate})</span>}
+                    {medication.prescriber && <span className="block text-xs text-textSecondary">Prescribed by {medication.prescriber}</span>}
+                    {medication.sourceNote && <span className="block text-xs text-textSecondary">Source: {medication.sourceNote}</span>}
+                  </span>
+                  <span className="space-x-2 text-sm">
+                    <button onClick={() => setEditingMedicationId(medication.id)} className="text-primary hover:underline">Edit</button>
+                    <button onClick={() => onDeleteMedication(medication.id)} className="text-error hover:underline">Remove</button>
+                  </span>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mt-4 text-sm">
+        <label className="flex items-center text-textSecondary">
+          <input
+            type="checkbox"
+            checked={shareWithTabs}
+            onChange={(e) => onShareWithTabsChange(e.target.checked)}
+            className="mr-2"
+          />
+          Use my current medications as context in the other tabs
+        </label>
+        {medications.length > 0 && (
+          <>
+            <button
+              onClick={() => downloadFile(medicationsToCsv(medications), 'medications.csv', 'text/csv')}
+              className="text-primary hover:underline"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => downloadFile(medicationsToJson(medications), 'medications.json', 'application/json')}
+              className="text-primary hover:underline"
+            >
+              Export JSON
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MedicationListManager;
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { buildProfileContext, EMPTY_PROFILE, PatientProfile, ProfileContextTab, READING_LEVEL_LABELS, ReadingLevel } from '../services/patientProfile';
+import ErrorMessage from './ErrorMessage';
+
+interface PatientProfileEditorProps {
+  profile: PatientProfile | null; // null while locked or before one is created
+  isLocked: boolean;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onSave: (profile: PatientProfile, passphrase: string | null) => Promise<void>;
+  onLock: () => void;
+  onClear: () => void;
+}
+
+const TAB_LABELS: Record<ProfileContextTab, string> = {
+  translate: 'Translate',
+  prepare: 'Prepare',
+  summarize: 'Summarize',
+  labs: 'Labs',
+  record: 'Record Session',
+};
+
+const splitList = (text: string): string[] =>
+  text.split(',').map(item => item.trim()).filter(Boolean);
+
+const inputClassName = 'block w-full p-2 border border-borderColor rounded-md text-textPrimary focus:outline-none focus:ring-2 focus:ring-primary';
+
+const PatientProfileEditor: React.FC<PatientProfileEditorProps> = ({ profile, isLocked, onUnlock, onSave, onLock, onClear }) => {
+  const [draft, setDraft] = useState<PatientProfile>(profile ?? EMPTY_PROFILE);
+  const [conditionsText, setConditionsText] = useState<string>('');
+  const [allergiesText, setAllergiesText] = useState<string>('');
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  useEffect(() => {
+    const current = profile ?? EMPTY_PROFILE;
+    setDraft(current);
+    setConditionsText(current.conditions.join(', '));
+    setAllergiesText(current.allergies.join(', '));
+  }, [profile]);
+
+  const run = async (action: () => Promise<void>, successMessage: string) => {
+    setBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      await action();
+      setPassphrase('');
+      setStatus(successMessage);
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Delete your saved profile from this device? This cannot be undone.')) {
+      onClear();
+      setStatus('Profile cleared.');
+    }
+  };
+
+  if (isLocked) {
+    return (
+      <div>
+        <p className="text-textSecondary mb-3">Your profile is encrypted on this device. Enter your passphrase to unlock it.</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className={`${inputClassName} mb-3`}
+        />
+        <div className="flex space-x-2">
+          <button
+            onClick={() => run(() => onUnlock(passphrase), 'Profile unlocked.')}
+            className="bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-md"
+            disabled={busy || !passphrase}
+          >
+            Unlock
+          </button>
+          <button onClick={handleClear} className="py-2 px-4 rounded-md text-error hover:bg-red-50">
+            Forgot passphrase? Clear profile
+          </button>
+        </div>
+        {error && <ErrorMessage message={error} />}
+      </div>
+    );
+  }
+
+  const updatedProfile: PatientProfile = { ...draft, conditions: splitList(conditionsText), allergies: splitList(allergiesText) };
+
+  return (
+    <div>
+      <div className="grid md:grid-cols-2 gap-3 mb-3">
+        <label className="text-sm text-textSecondary">
+          Age
+          <input
+            type="number"
+            min={0}
+            value={draft.age ?? ''}
+            onChange={(e) => setDraft({ ...draft, age: e.target.value ? Number(e.target.value) : null })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-sm text-textSecondary">
+          Sex
+          <input
+            type="text"
+            value={draft.sex}
+            onChange={(e) => setDraft({ ...draft, sex: e.target.value })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-sm text-textSecondary">
+          Conditions (comma-separated)
+          <input
+            type="text"
+            value={conditionsText}
+            onChange={(e) => setConditionsText(e.target.value)}
+            placeholder="e.g. type 2 diabetes, high blood pressure"
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-sm text-textSecondary">
+          Allergies (comma-separated)
+          <input
+            type="text"
+            value={allergiesText}
+            onChange={(e) => setAllergiesText(e.target.value)}
+            placeholder="e.g. penicillin"
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-sm text-textSecondary">
+          Preferred reading level (for Prepare; Translate and Labs have their own)
+          <select
+            value={draft.readingLevel}
+            onChange={(e) => setDraft({ ...draft, readingLevel: e.target.value as ReadingLevel })}
+            className={inputClassName}
+          >
+            {(Object.keys(READING_LEVEL_LABELS) as ReadingLevel[]).map(level => (
+              <option key={level} value={level}>{READING_LEVEL_LABELS[level]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-textSecondary">
+          {profile ? 'New passphrase (leave blank to keep current)' : 'Passphrase'}
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      <div className="flex space-x-2 mb-4">
+        <button
+          onClick={() => run(() => onSave(updatedProfile, passphrase || null), 'Profile saved and encrypted.')}
+          className="bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-md"
+          disabled={busy || (!profile && !passphrase)}
+        >
+          Save
+        </button>
+        {profile && (
+          <button onClick={onLock} className="py-2 px-4 rounded-md text-textSecondary hover:bg-gray-200">
+            Lock
+          </button>
+        )}
+        {profile && (
+          <button onClick={handleClear} className="py-2 px-4 rounded-md text-error hover:bg-red-50">
+            Clear Profile
+          </button>
+        )}
+      </div>
+      {error && <ErrorMessage message={error} />}
+      {status && <p className="text-sm text-success mb-3">{status}</p>}
+
+      <h4 className="text-base font-semibold mb-2">What each tab sends when you include your profile</h4>
+      <ul className="text-sm space-y-1">
+        {(Object.keys(TAB_LABELS) as ProfileContextTab[]).map(tab => (
+          <li key={tab}>
+            <strong>{TAB_LABELS[tab]}:</strong>{' '}
+            <span className="text-textSecondary">{buildProfileContext(updatedProfile, tab) || 'Nothing'}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PatientProfileEditor;
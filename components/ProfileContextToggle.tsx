@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface ProfileContextToggleProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  context: string | null; // The exact text that will be sent; null when no unlocked profile exists
+}
+
+const ProfileContextToggle: React.FC<ProfileContextToggleProps> = ({ checked, onChange, context }) => {
+  if (context === null) return null;
+
+  return (
+    <div className="mb-3 text-sm">
+      <label className="flex items-center text-textSecondary">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={(e) => onChange(e.target.checked)}
+          className="mr-2"
+        />
+        Include my profile
+      </label>
+      {checked && (
+        <p className="mt-1 p-2 bg-white border border-borderColor rounded-md text-textSecondary">
+          <span className="font-semibold">Will be sent:</span> {context || 'Nothing relevant to this tab.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProfileContextToggle;
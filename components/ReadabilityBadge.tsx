@@ -0,0 +1,34 @@
+import React from 'react';
+import { ReadingLevel } from '../services/patientProfile';
+import { meetsReadingLevel, READING_LEVEL_TARGET_LABELS, ReadabilityScore } from '../services/readability';
+
+interface ReadabilityBadgeProps {
+  score: ReadabilityScore;
+  level: ReadingLevel;
+  simplified: boolean; // Whether the text was rewritten automatically to get closer to the target
+}
+
+const ReadabilityBadge: React.FC<ReadabilityBadgeProps> = ({ score, level, simplified }) => {
+  const meetsTarget = meetsReadingLevel(score, level);
+  const details = [
+    `Flesch-Kincaid grade ${score.gradeLevel}`,
+    `${score.averageSentenceLength} words per sentence`,
+    score.unexplainedJargon.length > 0
+      ? `Unexplained terms: ${score.unexplainedJargon.join(', ')}`
+      : 'No unexplained terms',
+    `Target: ${READING_LEVEL_TARGET_LABELS[level]}`,
+  ].join('\n');
+
+  return (
+    <div
+      className={`ml-4 shrink-0 text-xs font-medium px-2 py-1 rounded-full ${meetsTarget ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}
+      title={details}
+    >
+      Grade {score.gradeLevel} · {score.averageSentenceLength} words/sentence
+      {score.unexplainedJargon.length > 0 && ` · ${score.unexplainedJargon.length} unexplained term${score.unexplainedJargon.length === 1 ? '' : 's'}`}
+      {simplified && ' · simplified'}
+    </div>
+  );
+};
+
+export default ReadabilityBadge;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { ReadingLevel } from '../services/patientProfile';
+import { READING_LEVEL_TARGET_LABELS } from '../services/readability';
+
+interface ReadingLevelSelectProps {
+  value: ReadingLevel;
+  onChange: (level: ReadingLevel) => void;
+}
+
+const ReadingLevelSelect: React.FC<ReadingLevelSelectProps> = ({ value, onChange }) => (
+  <label className="flex items-center mb-3 text-sm text-textSecondary">
+    Reading level
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as ReadingLevel)}
+      className="ml-2 p-1 border border-borderColor rounded-md text-textPrimary"
+    >
+      {(Object.keys(READING_LEVEL_TARGET_LABELS) as ReadingLevel[]).map(level => (
+        <option key={level} value={level}>{READING_LEVEL_TARGET_LABELS[level]}</option>
+      ))}
+    </select>
+  </label>
+);
+
+export default ReadingLevelSelect;
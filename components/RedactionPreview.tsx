@@ -0,0 +1,48 @@
+import React, { useMemo } from 'react';
+import { findPhi } from '../services/phiRedaction';
+
+interface RedactionPreviewProps {
+  text: string;
+  hasImage?: boolean;
+}
+
+// Shows, before sending, exactly which parts of the input will be replaced with placeholders.
+const RedactionPreview: React.FC<RedactionPreviewProps> = ({ text, hasImage = false }) => {
+  const matches = useMemo(() => findPhi(text), [text]);
+
+  if (matches.length === 0 && !hasImage) return null;
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  matches.forEach((match, index) => {
+    segments.push(text.slice(cursor, match.start));
+    segments.push(
+      <span key={index}>
+        <del className="bg-red-100 text-red-800">{match.original}</del>
+        <ins className="bg-green-100 text-green-800 no-underline">{match.placeholder}</ins>
+      </span>
+    );
+    cursor = match.end;
+  });
+  segments.push(text.slice(cursor));
+
+  return (
+    <div className="mb-3 text-sm">
+      {matches.length > 0 && (
+        <details className="p-2 bg-white border border-borderColor rounded-md">
+          <summary className="cursor-pointer text-textSecondary">
+            {matches.length} personal detail{matches.length === 1 ? '' : 's'} will be replaced before sending (shown restored in the answer)
+          </summary>
+          <p className="mt-2 whitespace-pre-wrap max-h-48 overflow-y-auto">{segments}</p>
+        </details>
+      )}
+      {hasImage && (
+        <p className="mt-1 text-amber-700">
+          Images can't be redacted automatically. Crop or cover names, dates of birth and ID numbers before uploading.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RedactionPreview;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { safeLinkHref } from '../services/markdown';
+import { classifySource, countTrustedSources, GroundingSource, SOURCE_TIER_LABELS, SourcePolicy, SourceTier, sourceDomain } from '../services/sourcePolicy';
+
+interface ReferenceListProps {
+  sources: GroundingSource[];
+  policy: SourcePolicy;
+  blockedCount: number; // Sources already removed from the response by the policy
+  onSearchAgain: () => void; // Re-runs the query asking for trusted sources; offered when too few were used
+}
+
+const TIER_STYLES: Record<SourceTier, string> = {
+  trusted: 'bg-green-100 text-green-800',
+  unrated: 'bg-gray-100 text-gray-700',
+  blocked: 'bg-red-100 text-red-800',
+};
+
+// Numbered so the footnote markers in a grounded answer point at the matching entry; each entry is tagged with its trust tier
+const ReferenceList: React.FC<ReferenceListProps> = ({ sources, policy, blockedCount, onSearchAgain }) => {
+  const trustedCount = countTrustedSources(sources, policy);
+
+  return (
+    <>
+      {sources.length > 0 && (
+        <ol className="list-decimal pl-5">
+          {sources.map((source, index) => {
+            const href = safeLinkHref(source.uri);
+            const tier = classifySource(source, policy);
+            const domain = sourceDomain(source);
+            return (
+              <li key={index} className="mb-1">
+                {href ? (
+                  <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary hover:underline">
+                    {source.title || source.uri}
+                  </a>
+                ) : (
+                  source.title || source.uri
+                )}
+                <span className={`ml-2 px-1.5 rounded-full text-xs font-medium whitespace-nowrap ${TIER_STYLES[tier]}`}>
+                  {SOURCE_TIER_LABELS[tier]}
+                </span>
+                {domain && domain !== source.title && <span className="ml-2 text-xs text-textSecondary">{domain}</span>}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      {blockedCount > 0 && (
+        <p className="mt-2 text-sm text-textSecondary">
+          {blockedCount} reference{blockedCount === 1 ? '' : 's'} from blocked sites {blockedCount === 1 ? 'was' : 'were'} removed.
+        </p>
+      )}
+      {trustedCount < policy.minTrustedSources && (
+        <div className="mt-3 p-3 rounded-md bg-amber-50 text-sm text-amber-800 flex flex-wrap items-center justify-between gap-2">
+          <span>
+            This answer used {trustedCount === 0 ? 'no' : `only ${trustedCount}`} trusted source{trustedCount === 1 ? '' : 's'}.
+          </span>
+          <button onClick={onSearchAgain} className="bg-amber-600 hover:bg-amber-700 text-white font-semibold py-1 px-3 rounded-md">
+            Search again with trusted sources
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ReferenceList;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { formatReminderTime, Reminder } from '../services/reminders';
+
+interface ReminderListProps {
+  reminders: Reminder[];
+  onDelete: (id: string) => void;
+}
+
+const ReminderList: React.FC<ReminderListProps> = ({ reminders, onDelete }) => {
+  const canNotify = typeof Notification !== 'undefined';
+
+  return (
+    <div>
+      {canNotify && Notification.permission === 'default' && (
+        <button
+          onClick={() => Notification.requestPermission()}
+          className="text-sm text-primary hover:underline mb-2"
+        >
+          Allow notifications so reminders appear even when this tab is in the background
+        </button>
+      )}
+      <ul className="space-y-1">
+        {reminders.map(reminder => (
+          <li key={reminder.id} className={`flex items-center text-sm ${reminder.notified ? 'text-textSecondary' : 'text-textPrimary'}`}>
+            <span className="font-semibold mr-2">{formatReminderTime(reminder)}</span>
+            <span className="flex-1">{reminder.text}</span>
+            <button
+              onClick={() => onDelete(reminder.id)}
+              className="ml-2 text-xs text-red-600 hover:underline"
+              aria-label={`Delete reminder: ${reminder.text}`}
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ReminderList;
@@ -3,17 +3,30 @@ import React from 'react';
 interface ResultSectionProps {
   title: string;
   content: string | React.ReactNode;
-  variant?: 'default' | 'info';
+  variant?: 'default' | 'info' | 'warning' | 'danger';
+  headerExtra?: React.ReactNode; // Shown to the right of the title, e.g. a readability score
 }
 
-const ResultSection: React.FC<ResultSectionProps> = ({ title, content, variant = 'default' }) => {
-  const bgColor = variant === 'info' ? 'bg-blue-50' : 'bg-bgSecondary';
-  const borderColor = variant === 'info' ? 'border-blue-500' : 'border-primary';
-  const titleColor = variant === 'info' ? 'text-blue-700' : 'text-primary';
+const VARIANT_STYLES = {
+  default: { bgColor: 'bg-bgSecondary', borderColor: 'border-primary', titleColor: 'text-primary' },
+  info: { bgColor: 'bg-blue-50', borderColor: 'border-blue-500', titleColor: 'text-blue-700' },
+  warning: { bgColor: 'bg-amber-50', borderColor: 'border-warning', titleColor: 'text-amber-700' },
+  danger: { bgColor: 'bg-red-50', borderColor: 'border-error', titleColor: 'text-red-700' },
+};
+
+const ResultSection: React.FC<ResultSectionProps> = ({ title, content, variant = 'default', headerExtra }) => {
+  const { bgColor, borderColor, titleColor } = VARIANT_STYLES[variant];
 
   return (
     <div className={`${bgColor} p-5 rounded-lg mb-4 border-l-4 ${borderColor}`}>
-      <h3 className={`text-lg font-semibold mb-3 ${titleColor}`}>{title}</h3>
+      {headerExtra ? (
+        <div className="flex items-start justify-between mb-3">
+          <h3 className={`text-lg font-semibold ${titleColor}`}>{title}</h3>
+          {headerExtra}
+        </div>
+      ) : (
+        <h3 className={`text-lg font-semibold mb-3 ${titleColor}`}>{title}</h3>
+      )}
       {typeof content === 'string' ? (
         <p className="leading-relaxed text-textPrimary whitespace-pre-wrap">{content}</p>
       ) : (
@@ -23,4 +36,4 @@ const ResultSection: React.FC<ResultSectionProps> = ({ title, content, variant =
   );
 };
 
-export default ResultSection;
\ No newline at end of file
+export default ResultSection;
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_SOURCE_POLICY, MAX_MIN_TRUSTED_SOURCES, parseDomainList, SourcePolicy } from '../services/sourcePolicy';
+
+interface SourcePolicyPanelProps {
+  policy: SourcePolicy;
+  onChange: (policy: SourcePolicy) => void;
+}
+
+const textareaClassName = 'block w-full mt-1 p-2 border border-borderColor rounded-md text-textPrimary font-mono text-xs';
+
+// Collapsible editor for the trusted and blocked domains, shown on each grounded tab; lists are saved when a field
+// loses focus so typing isn't interrupted
+const SourcePolicyPanel: React.FC<SourcePolicyPanelProps> = ({ policy, onChange }) => {
+  const [allowlistText, setAllowlistText] = useState<string>(policy.allowlist.join('\n'));
+  const [blocklistText, setBlocklistText] = useState<string>(policy.blocklist.join('\n'));
+
+  // Effect to show the cleaned-up lists after a save or reset
+  useEffect(() => {
+    setAllowlistText(policy.allowlist.join('\n'));
+    setBlocklistText(policy.blocklist.join('\n'));
+  }, [policy.allowlist, policy.blocklist]);
+
+  return (
+    <details className="mb-3 p-3 bg-white rounded-md border border-borderColor">
+      <summary className="cursor-pointer text-sm font-medium text-textPrimary">Trusted source settings</summary>
+      <div className="mt-3 text-sm text-textSecondary">
+        <div className="grid md:grid-cols-2 gap-3">
+          <label>
+            Trusted sites, one per line
+            <textarea
+              value={allowlistText}
+              onChange={(e) => setAllowlistText(e.target.value)}
+              onBlur={() => onChange({ ...policy, allowlist: parseDomainList(allowlistText) })}
+              rows={6}
+              className={textareaClassName}
+            />
+          </label>
+          <label>
+            Blocked sites, one per line
+            <textarea
+              value={blocklistText}
+              onChange={(e) => setBlocklistText(e.target.value)}
+              onBlur={() => onChange({ ...policy, blocklist: parseDomainList(blocklistText) })}
+              rows={6}
+              className={textareaClassName}
+            />
+          </label>
+        </div>
+        <p className="text-xs mt-1">
+          Subdomains are included, so "nih.gov" also covers "ncbi.nlm.nih.gov". References from blocked sites are removed from answers.
+        </p>
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-3">
+          <label className="flex items-center">
+            Offer to search again with fewer than
+            <input
+              type="number"
+              min={0}
+              max={MAX_MIN_TRUSTED_SOURCES}
+              value={policy.minTrustedSources}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isInteger(value) && value >= 0 && value <= MAX_MIN_TRUSTED_SOURCES) {
+                  onChange({ ...policy, minTrustedSources: value });
+                }
+              }}
+              className="w-14 mx-2 p-1 border border-borderColor rounded-md text-textPrimary"
+            />
+            trusted sources
+          </label>
+          <button onClick={() => onChange(DEFAULT_SOURCE_POLICY)} className="text-primary hover:underline">
+            Restore defaults
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default SourcePolicyPanel;
@@ -0,0 +1,138 @@
+import React from 'react';
+import {
+  formatTimestamp,
+  SPEAKER_ROLE_LABELS,
+  speakerName,
+  SpeakerRole,
+  TranscriptEntry,
+  TranscriptSpeaker,
+} from '../services/transcript';
+
+interface TranscriptLogProps {
+  entries: TranscriptEntry[];
+  speakers: TranscriptSpeaker[];
+  liveInput: string;
+  liveOutput: string;
+  highlightedSegment: number | null;
+  editable: boolean; // Speakers can only be changed once recording has stopped
+  onChangeSpeaker: (index: number, speakerId: string) => void;
+  onRenameSpeaker: (speakerId: string, name: string) => void;
+  onSaveSpeakers: () => void; // Called when a speaker name field loses focus
+  onAddSpeaker: (role: Exclude<SpeakerRole, 'model'>) => void;
+  onSeek?: (ms: number) => void; // Set when the session audio is available
+}
+
+const ROLE_STYLES: Record<SpeakerRole, string> = {
+  patient: 'bg-blue-50 text-blue-800 self-end text-right ml-auto',
+  doctor: 'bg-purple-50 text-purple-800 self-start mr-auto',
+  caregiver: 'bg-amber-50 text-amber-800 self-start mr-auto',
+  other: 'bg-gray-100 text-gray-800 self-start mr-auto',
+  model: 'bg-green-50 text-green-800 self-start mr-auto',
+};
+
+const ADDABLE_ROLES: Exclude<SpeakerRole, 'model'>[] = ['doctor', 'caregiver', 'other'];
+
+const TranscriptLog: React.FC<TranscriptLogProps> = ({
+  entries,
+  speakers,
+  liveInput,
+  liveOutput,
+  highlightedSegment,
+  editable,
+  onChangeSpeaker,
+  onRenameSpeaker,
+  onSaveSpeakers,
+  onAddSpeaker,
+  onSeek,
+}) => {
+  const roleOf = (speakerId: string): SpeakerRole => speakers.find(speaker => speaker.id === speakerId)?.role ?? 'other';
+  const humanSpeakers = speakers.filter(speaker => speaker.role !== 'model');
+
+  return (
+    <div className="mt-6 border border-borderColor rounded-lg p-4 bg-white shadow-inner">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xl font-semibold text-primary">Conversation Log</h3>
+        {editable && entries.length > 0 && (
+          <details className="text-sm relative">
+            <summary className="cursor-pointer text-primary">Speakers</summary>
+            <div className="absolute right-0 z-10 mt-2 w-72 p-3 bg-white border border-borderColor rounded-md shadow-lg space-y-2">
+              {speakers.map(speaker => (
+                <label key={speaker.id} className="flex items-center">
+                  <span className="w-20 text-textSecondary">{SPEAKER_ROLE_LABELS[speaker.role]}</span>
+                  <input
+                    type="text"
+                    value={speaker.name}
+                    onChange={(e) => onRenameSpeaker(speaker.id, e.target.value)}
+                    onBlur={onSaveSpeakers}
+                    className="flex-1 p-1 border border-borderColor rounded-md"
+                  />
+                </label>
+              ))}
+              <div className="flex flex-wrap gap-2 pt-1">
+                {ADDABLE_ROLES.map(role => (
+                  <button key={role} onClick={() => onAddSpeaker(role)} className="text-primary hover:underline">
+                    + {SPEAKER_ROLE_LABELS[role]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </details>
+        )}
+      </div>
+      <div className="max-h-96 overflow-y-auto">
+        {entries.length === 0 && !liveInput && !liveOutput ? (
+          <p className="text-textSecondary text-center italic">Start recording to begin your conversation.</p>
+        ) : (
+          entries.map((entry, index) => (
+            <div
+              key={index}
+              id={`transcript-segment-${index}`}
+              className={`mb-2 p-2 rounded-lg ${ROLE_STYLES[roleOf(entry.speaker)]} ${highlightedSegment === index ? 'ring-2 ring-primary' : ''}`}
+            >
+              {onSeek ? (
+                <button
+                  onClick={() => onSeek(entry.startMs)}
+                  className="text-xs font-mono opacity-70 mr-2 hover:underline"
+                  title="Play from here"
+                >
+                  {formatTimestamp(entry.startMs)}–{formatTimestamp(entry.endMs)}
+                </button>
+              ) : (
+                <span className="text-xs font-mono opacity-70 mr-2">
+                  {formatTimestamp(entry.startMs)}–{formatTimestamp(entry.endMs)}
+                </span>
+              )}
+              {editable && roleOf(entry.speaker) !== 'model' ? (
+                <select
+                  value={entry.speaker}
+                  onChange={(e) => onChangeSpeaker(index, e.target.value)}
+                  className="font-semibold bg-transparent border-b border-current mr-1"
+                  aria-label="Speaker"
+                >
+                  {humanSpeakers.map(speaker => (
+                    <option key={speaker.id} value={speaker.id}>{speaker.name}</option>
+                  ))}
+                </select>
+              ) : (
+                <strong className="font-semibold">{speakerName(speakers, entry.speaker)}:</strong>
+              )}{' '}
+              {entry.text}
+            </div>
+          ))
+        )}
+        {liveInput && (
+          <div className="mb-2 p-2 rounded-lg bg-blue-50 text-blue-800 self-end text-right ml-auto animate-pulse">
+            <strong className="font-semibold">Live:</strong> {liveInput}
+          </div>
+        )}
+        {liveOutput && (
+          <div className="mb-2 p-2 rounded-lg bg-green-50 text-green-800 self-start mr-auto animate-pulse">
+            <strong className="font-semibold">Advocate (Live):</strong> {liveOutput}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptLog;
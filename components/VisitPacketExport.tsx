@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  availableSections,
+  buildVisitPacket,
+  canCreateVisitPacketPdf,
+  createVisitPacketPdf,
+  PDF_UNSUPPORTED_TEXT_MESSAGE,
+  printVisitPacket,
+  VISIT_PACKET_SECTION_LABELS,
+  VisitPacketSection,
+  VisitPacketSources,
+} from '../services/visitPacket';
+import ErrorMessage from './ErrorMessage';
+import Spinner from './Spinner';
+
+interface VisitPacketExportProps {
+  sources: VisitPacketSources;
+}
+
+const VisitPacketExport: React.FC<VisitPacketExportProps> = ({ sources }) => {
+  const available = useMemo(() => availableSections(sources), [sources]);
+  const [excluded, setExcluded] = useState<VisitPacketSection[]>([]);
+  const [patientName, setPatientName] = useState<string>('');
+  const [visitDate, setVisitDate] = useState<string>(() => new Date().toISOString().slice(0, 10));
+  const [pdfLoading, setPdfLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Drop exclusions for sections that no longer have content
+  useEffect(() => {
+    setExcluded(prev => prev.filter(section => available.includes(section)));
+  }, [available]);
+
+  const selected = available.filter(section => !excluded.includes(section));
+
+  const toggleSection = (section: VisitPacketSection) => {
+    setExcluded(prev => prev.includes(section) ? prev.filter(existing => existing !== section) : [...prev, section]);
+  };
+
+  const buildPacket = () => buildVisitPacket(sources, { sections: selected, patientName, visitDate });
+  const pdfSupported = selected.length === 0 || canCreateVisitPacketPdf(buildPacket());
+
+  const handlePrint = () => {
+    setError(null);
+    try {
+      printVisitPacket(buildPacket());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not open the print dialog.');
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    setError(null);
+    setPdfLoading(true);
+    try {
+      const url = URL.createObjectURL(await createVisitPacketPdf(buildPacket()));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `visit-packet-${visitDate || 'undated'}.pdf`;
+      link.click();
+      // Revoked later, since the browser may not have started reading the file when click() returns
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not create the PDF.');
+    } finally {
+      setPdfLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-textSecondary mb-3">
+        Choose what to bring to your appointment. Your name is only used for this packet and is not saved or sent anywhere.
+      </p>
+      <div className="grid md:grid-cols-2 gap-3 mb-3">
+        <input
+          type="text"
+          value={patientName}
+          onChange={(e) => setPatientName(e.target.value)}
+          placeholder="Patient name (optional)"
+          className="p-2 border border-borderColor rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <input
+          type="date"
+          value={visitDate}
+          onChange={(e) => setVisitDate(e.target.value)}
+          className="p-2 border border-borderColor rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-2 mb-4">
+        {available.map(section => (
+          <label key={section} className="flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={!excluded.includes(section)}
+              onChange={() => toggleSection(section)}
+              className="mr-2"
+            />
+            {VISIT_PACKET_SECTION_LABELS[section]}
+          </label>
+        ))}
+      </div>
+      <div className="flex space-x-2">
+        <button
+          onClick={handlePrint}
+          className="bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-75 transition duration-150 ease-in-out flex items-center justify-center disabled:opacity-50"
+          disabled={selected.length === 0}
+        >
+          Print
+        </button>
+        <button
+          onClick={handleDownloadPdf}
+          className="bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-75 transition duration-150 ease-in-out flex items-center justify-center disabled:opacity-50"
+          disabled={selected.length === 0 || pdfLoading || !pdfSupported}
+        >
+          {pdfLoading && <Spinner size="w-4 h-4" color="border-t-white" className="mr-2" />}
+          Download PDF
+        </button>
+      </div>
+      {!pdfSupported && <p className="mt-2 text-sm text-textSecondary">{PDF_UNSUPPORTED_TEXT_MESSAGE}</p>}
+      {error && <ErrorMessage message={error} />}
+    </div>
+  );
+};
+
+export default VisitPacketExport;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { RECAP_SECTION_LABELS, RecapSection, VisitRecap } from '../services/visitRecap';
+import { formatTimestamp, TranscriptEntry } from '../services/transcript';
+
+interface VisitRecapViewProps {
+  recap: VisitRecap;
+  transcript: TranscriptEntry[];
+  onJumpToSegment: (index: number) => void;
+}
+
+const VisitRecapView: React.FC<VisitRecapViewProps> = ({ recap, transcript, onJumpToSegment }) => {
+  const sections = (Object.keys(RECAP_SECTION_LABELS) as RecapSection[]).filter(section => recap[section].length > 0);
+
+  if (sections.length === 0) {
+    return <p className="text-textSecondary italic">Nothing to recap was found in this recording.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {sections.map(section => (
+        <div key={section}>
+          <h4 className="text-base font-semibold mb-1">{RECAP_SECTION_LABELS[section]}</h4>
+          <ul className="list-disc pl-5 space-y-1">
+            {recap[section].map((item, index) => (
+              <li key={index}>
+                {item.text}
+                {item.segments.map(segment => (
+                  <button
+                    key={segment}
+                    onClick={() => onJumpToSegment(segment)}
+                    className="ml-2 text-xs text-primary hover:underline font-mono"
+                    title="Show in the conversation log"
+                  >
+                    {formatTimestamp(transcript[segment].startMs)}
+                  </button>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VisitRecapView;
@@ -0,0 +1,33 @@
+import { deleteRecord, getAllRecords, putRecord, STORES } from "./localDb";
+
+export interface AppointmentQuestion {
+  id: string;
+  text: string;
+  createdAt: string; // ISO timestamp
+  source: 'typed' | 'voice'; // Whether it was typed in the Prepare tab or added during a Live conversation
+}
+
+const normalizeQuestion = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Creates a question for the appointment list, or returns null if the text is empty or already on the list.
+ */
+export function createAppointmentQuestion(text: string, source: AppointmentQuestion['source'], existing: AppointmentQuestion[]): AppointmentQuestion | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const key = normalizeQuestion(trimmed);
+  if (existing.some(question => normalizeQuestion(question.text) === key)) return null;
+  return { id: crypto.randomUUID(), text: trimmed, createdAt: new Date().toISOString(), source };
+}
+
+export async function loadAppointmentQuestions(): Promise<AppointmentQuestion[]> {
+  const questions = await getAllRecords<AppointmentQuestion>(STORES.appointmentQuestions);
+  return questions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export const saveAppointmentQuestion = (question: AppointmentQuestion): Promise<void> =>
+  putRecord(STORES.appointmentQuestions, question);
+
+export const deleteAppointmentQuestion = (id: string): Promise<void> =>
+  deleteRecord(STORES.appointmentQuestions, id);
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createBlob,
+  createResampler,
+  decode,
+  decodeAudioData,
+  encode,
+  floatTo16BitPcm,
+  LIVE_INPUT_SAMPLE_RATE,
+  rmsLevel,
+} from './audioCodec';
+
+const sine = (frequency: number, sampleRate: number, length: number, amplitude = 0.5, offset = 0): Float32Array =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * (i + offset) / sampleRate));
+
+// Feeds the input in uneven chunks, the way capture batches arrive
+const resampleInChunks = (fromRate: number, toRate: number, input: Float32Array, chunkSize: number): Float32Array => {
+  const resample = createResampler(fromRate, toRate);
+  const output: number[] = [];
+  for (let i = 0; i < input.length; i += chunkSize) {
+    output.push(...resample(input.subarray(i, i + chunkSize)));
+  }
+  return Float32Array.from(output);
+};
+
+const maxDifference = (a: Float32Array, b: Float32Array): number =>
+  a.reduce((max, value, i) => Math.max(max, Math.abs(value - b[i])), 0);
+
+describe('createResampler', () => {
+  it('passes audio through when the rates match', () => {
+    const input = sine(440, LIVE_INPUT_SAMPLE_RATE, 160);
+    expect(createResampler(LIVE_INPUT_SAMPLE_RATE, LIVE_INPUT_SAMPLE_RATE)(input)).toBe(input);
+  });
+
+  it('downsamples a 48 kHz sine to the matching 16 kHz sine', () => {
+    const output = resampleInChunks(48000, LIVE_INPUT_SAMPLE_RATE, sine(440, 48000, 4800), 4800);
+    expect(output).toHaveLength(1600);
+    // Each output sample averages three inputs, so it sits on the middle one
+    const expected = Float32Array.from({ length: 1600 }, (_, i) => 0.5 * Math.sin(2 * Math.PI * 440 * (3 * i + 1) / 48000));
+    expect(maxDifference(output, expected)).toBeLessThan(0.002);
+  });
+
+  it('gives the same result however the input is chunked', () => {
+    const input = sine(300, 44100, 8820);
+    const whole = resampleInChunks(44100, LIVE_INPUT_SAMPLE_RATE, input, input.length);
+    const chunked = resampleInChunks(44100, LIVE_INPUT_SAMPLE_RATE, input, 997);
+    expect(whole).toHaveLength(3200);
+    expect(chunked).toHaveLength(whole.length);
+    expect(maxDifference(chunked, whole)).toBeLessThan(1e-6);
+  });
+
+  it('filters out tones above the new Nyquist frequency', () => {
+    // A 16 kHz tone completes one cycle every three samples at 48 kHz, so each average cancels it out
+    const output = resampleInChunks(48000, LIVE_INPUT_SAMPLE_RATE, sine(16000, 48000, 4800), 480);
+    expect(rmsLevel(output)).toBeLessThan(0.01);
+  });
+
+  it('interpolates when upsampling', () => {
+    const output = resampleInChunks(LIVE_INPUT_SAMPLE_RATE, 48000, sine(200, LIVE_INPUT_SAMPLE_RATE, 1600), 160);
+    const expected = sine(200, 48000, output.length);
+    expect(output.length).toBeGreaterThan(4790);
+    expect(maxDifference(output, expected)).toBeLessThan(0.001);
+  });
+});
+
+describe('floatTo16BitPcm', () => {
+  it('scales to the full 16-bit range and clips out-of-range samples', () => {
+    expect(Array.from(floatTo16BitPcm(Float32Array.from([0, 0.5, -0.5, 1, -1, 1.7, -3, Number.POSITIVE_INFINITY]))))
+      .toEqual([0, 16383, -16384, 32767, -32768, 32767, -32768, 32767]);
+  });
+});
+
+describe('createBlob', () => {
+  it('frames 16 kHz PCM as little-endian base64', () => {
+    const samples = sine(440, LIVE_INPUT_SAMPLE_RATE, 1600);
+    const blob = createBlob(samples);
+    expect(blob.mimeType).toBe('audio/pcm;rate=16000');
+    expect(blob.data).toMatch(/^[A-Za-z0-9+/]+={0,2}$/);
+    expect(blob.data).toHaveLength(Math.ceil((samples.length * 2) / 3) * 4);
+
+    const bytes = decode(blob.data);
+    expect(bytes).toHaveLength(samples.length * 2);
+    const view = new DataView(bytes.buffer);
+    const pcm = floatTo16BitPcm(samples);
+    pcm.forEach((value, i) => expect(view.getInt16(i * 2, true)).toBe(value));
+  });
+
+  it('encodes frames longer than one slice the same as Node', () => {
+    const bytes = Uint8Array.from({ length: 100000 }, (_, i) => (i * 31) % 256);
+    const base64 = encode(bytes);
+    expect(base64).toBe(Buffer.from(bytes).toString('base64'));
+    expect(decode(base64)).toEqual(bytes);
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('turns 24 kHz model PCM back into float samples', async () => {
+    const channels: Float32Array[] = [];
+    const context = {
+      createBuffer: (numberOfChannels: number, length: number, sampleRate: number) => {
+        for (let i = 0; i < numberOfChannels; i++) channels.push(new Float32Array(length));
+        return { length, sampleRate, getChannelData: (channel: number) => channels[channel] };
+      },
+    } as unknown as BaseAudioContext;
+    const pcm = Int16Array.from([0, 16384, -32768, 32767]);
+
+    const buffer = await decodeAudioData(decode(encode(new Uint8Array(pcm.buffer))), context, 24000, 1);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -1, 32767 / 32768]);
+  });
+});
+
+describe('rmsLevel', () => {
+  it('measures a sine at its amplitude over root two', () => {
+    expect(rmsLevel(new Float32Array(0))).toBe(0);
+    expect(rmsLevel(sine(440, LIVE_INPUT_SAMPLE_RATE, 16000, 0.5))).toBeCloseTo(0.5 / Math.SQRT2, 3);
+    expect(rmsLevel(Float32Array.from([2, -2]))).toBe(1);
+  });
+});
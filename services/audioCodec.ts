@@ -0,0 +1,131 @@
+// PCM helpers for the Live API: it takes 16 kHz 16-bit mono input and returns 24 kHz 16-bit mono output.
+
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+export const LIVE_OUTPUT_SAMPLE_RATE = 24000;
+
+export function decode(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encode(bytes: Uint8Array): string {
+  // Build the binary string in slices; one character at a time is slow for long frames
+  const SLICE = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i += SLICE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + SLICE));
+  }
+  return btoa(binary);
+}
+
+export async function decodeAudioData(
+  data: Uint8Array,
+  ctx: BaseAudioContext,
+  sampleRate: number,
+  numChannels: number,
+): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+/**
+ * Converts float samples to 16-bit PCM, clipping anything outside [-1, 1].
+ */
+export function floatTo16BitPcm(data: Float32Array): Int16Array {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return int16;
+}
+
+/**
+ * Wraps 16 kHz float samples as a Live API realtime input blob.
+ */
+export function createBlob(data: Float32Array): { data: string; mimeType: string } {
+  const int16 = floatTo16BitPcm(data);
+  return {
+    data: encode(new Uint8Array(int16.buffer)),
+    mimeType: `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}`,
+  };
+}
+
+/**
+ * Root-mean-square level of a frame, from 0 (silence) to 1 (full scale).
+ */
+export function rmsLevel(data: Float32Array): number {
+  if (data.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i] * data[i];
+  }
+  return Math.min(1, Math.sqrt(sum / data.length));
+}
+
+export type Resampler = (input: Float32Array) => Float32Array;
+
+/**
+ * Creates a streaming resampler. When downsampling, each output sample is the average of the
+ * input samples it covers, which filters out most content above the new Nyquist frequency.
+ * Samples that do not yet fill an output sample are carried over to the next call.
+ */
+export function createResampler(fromRate: number, toRate: number): Resampler {
+  if (fromRate === toRate) {
+    return input => input;
+  }
+  const step = fromRate / toRate; // Input samples per output sample
+  let pending = new Float32Array(0);
+  let position = 0; // Position of the next output sample within `pending`
+  // Snap rounding error away so a boundary meant to land on a sample does not fall just short of it,
+  // which would shift the averaging window depending on how the input was chunked
+  const nextPosition = () => {
+    const next = position + step;
+    return Math.abs(next - Math.round(next)) < 1e-9 ? Math.round(next) : next;
+  };
+
+  return (input: Float32Array) => {
+    const samples = new Float32Array(pending.length + input.length);
+    samples.set(pending);
+    samples.set(input, pending.length);
+
+    const output: number[] = [];
+    if (step > 1) {
+      for (let next = nextPosition(); next <= samples.length; next = nextPosition()) {
+        const start = Math.floor(position);
+        const end = Math.floor(next);
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += samples[i];
+        output.push(sum / (end - start));
+        position = next;
+      }
+    } else {
+      // Upsampling: interpolate between neighbouring samples
+      while (position + 1 < samples.length) {
+        const index = Math.floor(position);
+        const fraction = position - index;
+        output.push(samples[index] * (1 - fraction) + samples[index + 1] * fraction);
+        position = nextPosition();
+      }
+    }
+
+    const consumed = Math.floor(position);
+    pending = samples.slice(consumed);
+    position -= consumed;
+    return Float32Array.from(output);
+  };
+}
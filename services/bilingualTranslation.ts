@@ -0,0 +1,111 @@
+import { Schema, Type } from "@google/genai";
+import { callGemini, GeminiResponseData } from "./geminiService";
+import { APP_LANGUAGES, AppLanguage, languageName } from "./i18n";
+
+export interface BilingualTerm {
+  term: string; // The clinical term in English, as it appeared in the text
+  explanation: string; // Plain-language explanation in the output language
+}
+
+export interface BilingualTranslation {
+  language: AppLanguage; // The language of the overview and explanations
+  overview: string; // The whole passage restated simply, in the output language
+  terms: BilingualTerm[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const BILINGUAL_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    overview: { type: Type.STRING, description: 'The whole passage restated in simple language, in the requested language.' },
+    terms: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING, description: 'A medical term exactly as it appears in the text, in English.' },
+          explanation: { type: Type.STRING, description: 'A short, plain-language explanation of the term, in the requested language.' },
+        },
+        required: ['term', 'explanation'],
+        propertyOrdering: ['term', 'explanation'],
+      },
+    },
+  },
+  required: ['overview', 'terms'],
+  propertyOrdering: ['overview', 'terms'],
+};
+
+/**
+ * Parses and validates the model's JSON. Terms without both parts are dropped.
+ */
+export function parseBilingualTranslation(json: string, language: AppLanguage): BilingualTranslation {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('The translation returned invalid JSON.');
+  }
+  if (!isRecord(raw) || typeof raw.overview !== 'string') {
+    throw new Error('The translation did not include an explanation.');
+  }
+  const terms: unknown[] = Array.isArray(raw.terms) ? raw.terms : [];
+  return {
+    language,
+    overview: raw.overview.trim(),
+    terms: terms.flatMap((entry): BilingualTerm[] => {
+      if (!isRecord(entry) || typeof entry.term !== 'string' || typeof entry.explanation !== 'string') return [];
+      const term = entry.term.trim();
+      const explanation = entry.explanation.trim();
+      return term && explanation ? [{ term, explanation }] : [];
+    }),
+  };
+}
+
+/**
+ * Reads a translation saved in a history entry's `extraOutput`.
+ * @returns The translation, or null if the entry holds none.
+ */
+export function parseSavedBilingualTranslation(extraOutput: string | null): BilingualTranslation | null {
+  if (!extraOutput) return null;
+  try {
+    const language = JSON.parse(extraOutput)?.language;
+    return APP_LANGUAGES.some(entry => entry.code === language) ? parseBilingualTranslation(extraOutput, language) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Markdown version of a bilingual translation, used for history, proofreading and copying.
+ */
+export function formatBilingualTranslation(translation: BilingualTranslation, termColumn: string, explanationColumn: string): string {
+  if (translation.terms.length === 0) return translation.overview;
+  const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+  const rows = translation.terms.map(entry => `| ${escapeCell(entry.term)} | ${escapeCell(entry.explanation)} |`);
+  return `${translation.overview}\n\n| ${termColumn} | ${explanationColumn} |\n| --- | --- |\n${rows.join('\n')}`;
+}
+
+/**
+ * Explains medical jargon in another language, pairing each English clinical term with its explanation.
+ * @param text The jargon to explain.
+ * @param language The language to explain it in.
+ * @param systemInstruction The Translate tab's system instruction, including any patient context.
+ * @param signal Cancels the request.
+ */
+export async function translateJargonBilingual(
+  text: string,
+  language: AppLanguage,
+  systemInstruction: string,
+  signal?: AbortSignal,
+): Promise<{ translation: BilingualTranslation; response: GeminiResponseData }> {
+  const name = languageName(language);
+  const response = await callGemini({
+    prompt: `Explain the following medical jargon to a patient in simple ${name}. First restate the whole passage in plain ${name}. Then list each medical term from the passage in English, exactly as written, with a short explanation in ${name}.\n\nMedical Jargon: "${text}"`,
+    systemInstruction,
+    responseSchema: BILINGUAL_SCHEMA,
+    signal,
+  });
+  return { translation: parseBilingualTranslation(response.text, language), response };
+}
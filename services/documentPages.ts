@@ -0,0 +1,190 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+/**
+ * One page of an uploaded document, ready to send as an image.
+ */
+export interface DocumentPage {
+  id: string;
+  file: File; // A rendered PDF page or an uploaded image, downscaled if large
+  sourceName: string; // The uploaded file's name
+  label: string; // e.g. "discharge.pdf, page 2"
+  previewUrl: string; // Object URL for the thumbnail; released by releaseDocumentPages
+  text: string; // The PDF page's text layer; empty for images and scanned pages
+}
+
+export const MAX_DOCUMENT_PAGES = 20;
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024; // Per uploaded file
+// Base64 adds a third, and inline request data is limited to 20 MB
+export const MAX_TOTAL_PAGE_BYTES = 12 * 1024 * 1024;
+
+export const MAX_PAGE_DIMENSION = 2000; // Longest side in pixels; enough for small print on lab reports
+const MAX_UNSCALED_IMAGE_BYTES = 1.5 * 1024 * 1024; // Smaller images with small dimensions are sent as uploaded
+const JPEG_QUALITY = 0.85;
+
+/**
+ * Encodes a canvas as a JPEG File, at the quality used for all pages.
+ */
+export const canvasToJpegFile = (canvas: HTMLCanvasElement, name: string): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(new File([blob], name, { type: 'image/jpeg' }));
+      else reject(new Error(`Could not encode ${name}.`));
+    }, 'image/jpeg', JPEG_QUALITY);
+  });
+
+const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const jpegName = (name: string): string => `${name.replace(/\.[^.]+$/, '')}.jpg`;
+
+/**
+ * Re-encodes an image as JPEG if it is larger than the page limits; otherwise returns it unchanged.
+ */
+export async function downscaleImage(file: File): Promise<File> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error(`${file.name} could not be read as an image.`);
+  }
+  try {
+    const scale = Math.min(1, MAX_PAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1 && file.size <= MAX_UNSCALED_IMAGE_BYTES) return file;
+    const canvas = createCanvas(bitmap.width * scale, bitmap.height * scale);
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#ffffff'; // Transparent PNGs would otherwise turn black
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await canvasToJpegFile(canvas, jpegName(file.name));
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Renders up to `maxPages` pages of a PDF to images and extracts each page's text layer.
+ * @returns The pages, and the PDF's total page count so callers can report pages left out.
+ */
+async function renderPdfPages(file: File, maxPages: number): Promise<{ pages: Omit<DocumentPage, 'id' | 'previewUrl'>[]; pageCount: number }> {
+  const { getDocument, GlobalWorkerOptions, PasswordException, version } = await import('pdfjs-dist');
+  // The worker must match the library version exactly, so it is loaded by version from the CDN in the import map
+  GlobalWorkerOptions.workerSrc ||= `https://aistudiocdn.com/pdfjs-dist@${version}/build/pdf.worker.min.mjs`;
+  const loadingTask = getDocument({ data: new Uint8Array(await file.arrayBuffer()) });
+  let pdf: PDFDocumentProxy;
+  try {
+    pdf = await loadingTask.promise;
+  } catch (error) {
+    await loadingTask.destroy();
+    if (error instanceof PasswordException) {
+      throw new Error(`${file.name} is password protected. Remove the password and upload it again.`);
+    }
+    throw new Error(`${file.name} could not be opened as a PDF.`);
+  }
+
+  try {
+    const pages: Omit<DocumentPage, 'id' | 'previewUrl'>[] = [];
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, maxPages); pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: Math.min(2, MAX_PAGE_DIMENSION / Math.max(unscaled.width, unscaled.height)) });
+      const canvas = createCanvas(viewport.width, viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .trim();
+      const label = pdf.numPages > 1 ? `${file.name}, page ${pageNumber}` : file.name;
+      pages.push({
+        file: await canvasToJpegFile(canvas, jpegName(`${file.name.replace(/\.pdf$/i, '')}-page-${pageNumber}`)),
+        sourceName: file.name,
+        label,
+        text,
+      });
+      page.cleanup();
+    }
+    return { pages, pageCount: pdf.numPages };
+  } finally {
+    await loadingTask.destroy(); // Also stops the worker's copy of the document
+  }
+}
+
+const isPdf = (file: File): boolean => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+/**
+ * Turns uploaded images and PDFs into pages, keeping within the page count and total size limits.
+ * Files that can't be used are reported in `errors` rather than failing the whole upload.
+ * @param existing The pages already added, which count towards the limits.
+ * @returns The new pages, in upload order.
+ */
+export async function loadDocumentPages(files: File[], existing: DocumentPage[]): Promise<{ pages: DocumentPage[]; errors: string[] }> {
+  const pages: DocumentPage[] = [];
+  const errors: string[] = [];
+  let totalBytes = existing.reduce((sum, page) => sum + page.file.size, 0);
+
+  for (const file of files) {
+    const remaining = MAX_DOCUMENT_PAGES - existing.length - pages.length;
+    if (remaining <= 0) {
+      errors.push(`Only ${MAX_DOCUMENT_PAGES} pages can be sent at once; ${file.name} was not added.`);
+      continue;
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      errors.push(`${file.name} is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.`);
+      continue;
+    }
+    if (!isPdf(file) && !file.type.startsWith('image/')) {
+      errors.push(`${file.name} is not an image or a PDF.`);
+      continue;
+    }
+
+    try {
+      const rendered = isPdf(file)
+        ? await renderPdfPages(file, remaining)
+        : { pages: [{ file: await downscaleImage(file), sourceName: file.name, label: file.name, text: '' }], pageCount: 1 };
+      if (rendered.pageCount > rendered.pages.length) {
+        errors.push(`Only the first ${rendered.pages.length} of ${rendered.pageCount} pages of ${file.name} were added (limit ${MAX_DOCUMENT_PAGES} pages).`);
+      }
+      for (const page of rendered.pages) {
+        if (totalBytes + page.file.size > MAX_TOTAL_PAGE_BYTES) {
+          errors.push(`${page.label} was not added: the pages would exceed ${MAX_TOTAL_PAGE_BYTES / (1024 * 1024)} MB in total.`);
+          continue;
+        }
+        totalBytes += page.file.size;
+        pages.push({ ...page, id: crypto.randomUUID(), previewUrl: URL.createObjectURL(page.file) });
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : `${file.name} could not be read.`);
+    }
+  }
+
+  return { pages, errors };
+}
+
+export const releaseDocumentPages = (pages: DocumentPage[]): void =>
+  pages.forEach(page => URL.revokeObjectURL(page.previewUrl));
+
+/**
+ * Adds the PDF text layers to the user's typed text, so small print is read accurately. Pages are
+ * numbered in their current order to match the attached images.
+ */
+export function appendPageText(text: string, pages: DocumentPage[]): string {
+  const pageTexts = pages
+    .map((page, index) => (page.text ? `[Page ${index + 1}: ${page.label}]\n${page.text}` : ''))
+    .filter(Boolean);
+  if (pageTexts.length === 0) return text;
+  return [text.trim(), `Text extracted from the uploaded PDF pages:\n${pageTexts.join('\n\n')}`].filter(Boolean).join('\n\n');
+}
+
+/**
+ * A short description of the pages for history, e.g. "3 pages from discharge.pdf, photo.jpg".
+ */
+export function describePages(pages: DocumentPage[]): string | null {
+  if (pages.length === 0) return null;
+  if (pages.length === 1) return pages[0].label;
+  return `${pages.length} pages from ${[...new Set(pages.map(page => page.sourceName))].join(', ')}`;
+}
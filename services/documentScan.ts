@@ -0,0 +1,284 @@
+import { canvasToJpegFile, MAX_PAGE_DIMENSION } from "./documentPages";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Quad = [Point, Point, Point, Point]; // Top-left, top-right, bottom-right, bottom-left
+
+export interface ScanOptions {
+  autoCrop: boolean; // Crop to the detected document edges and correct the perspective
+  enhance: boolean; // Even out lighting and glare, then stretch contrast
+}
+
+const DETECTION_WIDTH = 320; // Edges are found on a small copy of the frame
+const MIN_DOCUMENT_AREA = 0.2; // Smaller detections are more likely a bright object than the page
+const PAPER_LEVEL = 235; // Brightness the page background is normalized to
+const BACKGROUND_CELL = 16; // Pixels per cell when estimating the page background
+
+const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const toGray = (data: Uint8ClampedArray): Float32Array => {
+  const gray = new Float32Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// 3x3 box blur, so text and paper texture don't split the page into pieces
+const boxBlur = (values: Float32Array, width: number, height: number): Float32Array => {
+  const blurred = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+            sum += values[ny * width + nx];
+            count++;
+          }
+        }
+      }
+      blurred[y * width + x] = sum / count;
+    }
+  }
+  return blurred;
+};
+
+// Otsu's method: the threshold that best separates the histogram into two classes
+const otsuThreshold = (gray: Float32Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach(value => histogram[Math.min(255, Math.round(value))]++);
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = { threshold: 127, variance: -1 };
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best.variance) best = { threshold: level, variance };
+  }
+  return best.threshold;
+};
+
+const quadArea = (quad: Quad): number =>
+  Math.abs(quad.reduce((sum, point, index) => {
+    const next = quad[(index + 1) % 4];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+
+/**
+ * Finds the corners of the largest bright region, which is usually the page against a darker
+ * background, from the extremes of x + y and x - y.
+ */
+const findBrightRegionCorners = (mask: Uint8Array, width: number, height: number): Quad | null => {
+  const visited = new Uint8Array(mask.length);
+  const queue = new Int32Array(mask.length);
+  let best: { size: number; corners: Quad } | null = null;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    visited[start] = 1;
+    const corners: Quad = [{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }];
+    let minSum = Infinity, maxSum = -Infinity, minDiff = Infinity, maxDiff = -Infinity;
+
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const y = (index - x) / width;
+      if (x + y < minSum) { minSum = x + y; corners[0] = { x, y }; }
+      if (x - y > maxDiff) { maxDiff = x - y; corners[1] = { x, y }; }
+      if (x + y > maxSum) { maxSum = x + y; corners[2] = { x, y }; }
+      if (x - y < minDiff) { minDiff = x - y; corners[3] = { x, y }; }
+      const neighbors = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, y > 0 ? index - width : -1, y < height - 1 ? index + width : -1];
+      for (const neighbor of neighbors) {
+        if (neighbor >= 0 && mask[neighbor] && !visited[neighbor]) {
+          visited[neighbor] = 1;
+          queue[tail++] = neighbor;
+        }
+      }
+    }
+    if (!best || tail > best.size) best = { size: tail, corners };
+  }
+
+  return best && quadArea(best.corners) >= MIN_DOCUMENT_AREA * width * height ? best.corners : null;
+};
+
+/**
+ * Detects the edges of a document in a camera frame or image.
+ * @returns The corners in the source's pixel coordinates, or null if no page stands out from the background.
+ */
+export function detectDocumentCorners(source: CanvasImageSource, width: number, height: number): Quad | null {
+  if (!width || !height) return null;
+  const scale = Math.min(1, DETECTION_WIDTH / width);
+  const small = createCanvas(width * scale, height * scale);
+  const context = small.getContext('2d', { willReadFrequently: true })!;
+  context.drawImage(source, 0, 0, small.width, small.height);
+  const gray = boxBlur(toGray(context.getImageData(0, 0, small.width, small.height).data), small.width, small.height);
+  const threshold = otsuThreshold(gray);
+  const mask = new Uint8Array(gray.length);
+  gray.forEach((value, index) => { mask[index] = value > threshold ? 1 : 0; });
+  const corners = findBrightRegionCorners(mask, small.width, small.height);
+  return corners ? corners.map(point => ({ x: point.x / small.width * width, y: point.y / small.height * height })) as Quad : null;
+}
+
+// Solves for the homography taking the output rectangle's corners to the quad's corners
+const solveHomography = (quad: Quad, width: number, height: number): number[] => {
+  const targets: [number, number][] = [[0, 0], [width, 0], [width, height], [0, height]];
+  const rows: number[][] = [];
+  quad.forEach(({ x, y }, index) => {
+    const [u, v] = targets[index];
+    rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  });
+  // Gaussian elimination with partial pivoting
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = 0; row < 8; row++) {
+      if (row === column) continue;
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k < 9; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+  return rows.map((row, index) => row[8] / row[index]);
+};
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Maps the quad in `source` onto an upright rectangle, correcting the perspective of a page
+ * photographed at an angle.
+ */
+export function warpToRectangle(source: HTMLCanvasElement, quad: Quad): HTMLCanvasElement {
+  const [topLeft, topRight, bottomRight, bottomLeft] = quad;
+  const naturalWidth = Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight));
+  const naturalHeight = Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight));
+  const scale = Math.min(1, MAX_PAGE_DIMENSION / Math.max(naturalWidth, naturalHeight));
+  const output = createCanvas(naturalWidth * scale, naturalHeight * scale);
+  const [h0, h1, h2, h3, h4, h5, h6, h7] = solveHomography(quad, output.width, output.height);
+
+  const sourceData = source.getContext('2d', { willReadFrequently: true })!.getImageData(0, 0, source.width, source.height).data;
+  const outputContext = output.getContext('2d')!;
+  const outputImage = outputContext.createImageData(output.width, output.height);
+  const pixels = outputImage.data;
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let v = 0; v < output.height; v++) {
+    for (let u = 0; u < output.width; u++) {
+      const w = h6 * u + h7 * v + 1;
+      const x = Math.min(maxX, Math.max(0, (h0 * u + h1 * v + h2) / w));
+      const y = Math.min(maxY, Math.max(0, (h3 * u + h4 * v + h5) / w));
+      // Bilinear sampling
+      const x0 = Math.floor(x), y0 = Math.floor(y);
+      const x1 = Math.min(maxX, x0 + 1), y1 = Math.min(maxY, y0 + 1);
+      const fx = x - x0, fy = y - y0;
+      const target = (v * output.width + u) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        const top = sourceData[(y0 * source.width + x0) * 4 + channel] * (1 - fx) + sourceData[(y0 * source.width + x1) * 4 + channel] * fx;
+        const bottom = sourceData[(y1 * source.width + x0) * 4 + channel] * (1 - fx) + sourceData[(y1 * source.width + x1) * 4 + channel] * fx;
+        pixels[target + channel] = top * (1 - fy) + bottom * fy;
+      }
+      pixels[target + 3] = 255;
+    }
+  }
+  outputContext.putImageData(outputImage, 0, 0);
+  return output;
+}
+
+/**
+ * Evens out shadows and glare by dividing each pixel by the local paper brightness, then stretches
+ * the contrast so print is dark on a white page. Colors are kept, so highlighted flags stay visible.
+ */
+export function enhanceDocument(canvas: HTMLCanvasElement): void {
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  const { width, height, data } = image;
+  const gray = toGray(data);
+
+  // The brightest pixel in each cell approximates the paper there; text is darker and drops out
+  const columns = Math.ceil(width / BACKGROUND_CELL);
+  const rows = Math.ceil(height / BACKGROUND_CELL);
+  let background: Float32Array = new Float32Array(columns * rows);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = Math.floor(y / BACKGROUND_CELL) * columns + Math.floor(x / BACKGROUND_CELL);
+      background[cell] = Math.max(background[cell], gray[y * width + x]);
+    }
+  }
+  background = boxBlur(boxBlur(background, columns, rows), columns, rows);
+
+  const histogram = new Array<number>(256).fill(0);
+  for (let y = 0; y < height; y++) {
+    // Bilinear interpolation between cell centers
+    const cy = Math.min(rows - 1, Math.max(0, (y + 0.5) / BACKGROUND_CELL - 0.5));
+    const row0 = Math.floor(cy), row1 = Math.min(rows - 1, row0 + 1), fy = cy - row0;
+    for (let x = 0; x < width; x++) {
+      const cx = Math.min(columns - 1, Math.max(0, (x + 0.5) / BACKGROUND_CELL - 0.5));
+      const column0 = Math.floor(cx), column1 = Math.min(columns - 1, column0 + 1), fx = cx - column0;
+      const paper = (background[row0 * columns + column0] * (1 - fx) + background[row0 * columns + column1] * fx) * (1 - fy)
+        + (background[row1 * columns + column0] * (1 - fx) + background[row1 * columns + column1] * fx) * fy;
+      const gain = PAPER_LEVEL / Math.max(paper, 40);
+      const index = (y * width + x) * 4;
+      for (let channel = 0; channel < 3; channel++) data[index + channel] = data[index + channel] * gain;
+      histogram[Math.round(Math.min(255, gray[y * width + x] * gain))]++;
+    }
+  }
+
+  // Stretch between the 1st and 99th percentiles of brightness
+  const percentile = (fraction: number): number => {
+    let seen = 0;
+    for (let level = 0; level < 256; level++) {
+      seen += histogram[level];
+      if (seen >= fraction * gray.length) return level;
+    }
+    return 255;
+  };
+  const low = percentile(0.01);
+  const high = Math.max(low + 1, percentile(0.99));
+  for (let index = 0; index < data.length; index += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      data[index + channel] = (data[index + channel] - low) * 255 / (high - low);
+    }
+  }
+  context.putImageData(image, 0, 0);
+}
+
+/**
+ * Turns a camera frame into a page image: cropped to the document and straightened if its edges are
+ * found, and cleaned up if requested.
+ */
+export async function scanFrame(video: HTMLVideoElement, options: ScanOptions, name: string): Promise<File> {
+  const frame = createCanvas(video.videoWidth, video.videoHeight);
+  frame.getContext('2d', { willReadFrequently: true })!.drawImage(video, 0, 0);
+  const corners = options.autoCrop ? detectDocumentCorners(frame, frame.width, frame.height) : null;
+  const fullFrame: Quad = [{ x: 0, y: 0 }, { x: frame.width, y: 0 }, { x: frame.width, y: frame.height }, { x: 0, y: frame.height }];
+  // Warping the whole frame still downscales it to the page size limit
+  const page = warpToRectangle(frame, corners ?? fullFrame);
+  if (options.enhance) enhanceDocument(page);
+  return canvasToJpegFile(page, name);
+}
@@ -0,0 +1,72 @@
+import { callGemini } from "./geminiService";
+import { AppLanguage, buildLanguageInstruction } from "./i18n";
+import { DRUG_GROUPS, InteractionSeverity, INTERACTION_DATASET_VERSION, INTERACTIONS } from "./interactionData";
+
+export interface InteractionFinding {
+  drugA: string; // Medication name as entered
+  drugB: string;
+  severity: InteractionSeverity;
+  explanation: string;
+  datasetVersion: string;
+}
+
+const SEVERITY_ORDER: Record<InteractionSeverity, number> = { contraindicated: 0, major: 1, moderate: 2, minor: 3 };
+
+/**
+ * Returns the dataset groups a medication name belongs to, matching whole words so
+ * "Lisinopril 10 mg" matches lisinopril but "asa" does not match "nasal".
+ */
+const groupsForMedication = (name: string): string[] => {
+  const text = ` ${name.toLowerCase().replace(/[^a-z0-9-]+/g, ' ')} `;
+  return Object.entries(DRUG_GROUPS)
+    .filter(([, group]) => group.names.some(drugName => text.includes(` ${drugName} `)))
+    .map(([id]) => id);
+};
+
+/**
+ * Checks every pair of medications against the bundled interaction dataset. Runs entirely offline.
+ * @param medicationNames Medication names as entered, e.g. ["Lisinopril 10 mg", "Spironolactone"].
+ * @returns Findings sorted from most to least severe.
+ */
+export function checkInteractions(medicationNames: string[]): InteractionFinding[] {
+  const medications = medicationNames.map(name => ({ name, groups: groupsForMedication(name) }));
+  const findings: InteractionFinding[] = [];
+
+  for (let i = 0; i < medications.length; i++) {
+    for (let j = i + 1; j < medications.length; j++) {
+      const first = medications[i];
+      const second = medications[j];
+      INTERACTIONS.forEach(entry => {
+        const matchesPair =
+          (first.groups.includes(entry.a) && second.groups.includes(entry.b)) ||
+          (first.groups.includes(entry.b) && second.groups.includes(entry.a));
+        if (matchesPair) {
+          findings.push({
+            drugA: first.name,
+            drugB: second.name,
+            severity: entry.severity,
+            explanation: entry.explanation,
+            datasetVersion: INTERACTION_DATASET_VERSION,
+          });
+        }
+      });
+    }
+  }
+
+  return findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Asks the model to restate a flagged interaction in plain language for the patient.
+ * @param language The language to explain it in.
+ * @returns A Promise resolving to the plain-language explanation.
+ */
+export async function explainInteraction(finding: InteractionFinding, language: AppLanguage): Promise<string> {
+  const response = await callGemini({
+    prompt: `A medication checker flagged a ${finding.severity} interaction between ${finding.drugA} and ${finding.drugB}: "${finding.explanation}"
+
+Explain this to a patient in 2-4 short sentences of plain language: what could happen, what warning signs to watch for, and that they should talk to their doctor or pharmacist before changing anything.`,
+    systemInstruction: ["You are a friendly, empathetic medical advocate. You never tell patients to stop or change a medication on their own.", buildLanguageInstruction(language)].filter(Boolean).join('\n\n'),
+  });
+  return response.text;
+}
@@ -0,0 +1,44 @@
+import { GoogleGenAI, LiveConnectParameters } from "@google/genai";
+import { LlmGenerateRequest, LlmGenerateResponse, LlmLiveSession, LlmProvider } from "./llmProvider";
+
+/**
+ * Creates a fresh client on each call so a key selected after page load is picked up.
+ */
+const createClient = (): GoogleGenAI => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("Gemini API key is not configured. Please set the API_KEY environment variable.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+export function createGeminiProvider(): LlmProvider {
+  return {
+    name: 'gemini',
+
+    isConfigured: () => Boolean(process.env.API_KEY),
+
+    generateContent: async ({ model, parts, config }: LlmGenerateRequest): Promise<LlmGenerateResponse> => {
+      const ai = createClient();
+      return ai.models.generateContent({
+        model,
+        contents: [{ parts }],
+        config,
+      });
+    },
+
+    generateContentStream: async ({ model, parts, config }: LlmGenerateRequest): Promise<AsyncGenerator<LlmGenerateResponse>> => {
+      const ai = createClient();
+      return ai.models.generateContentStream({
+        model,
+        contents: [{ parts }],
+        config,
+      });
+    },
+
+    connectLive: async (params: LiveConnectParameters): Promise<LlmLiveSession> => {
+      const ai = createClient();
+      return ai.live.connect(params);
+    },
+  };
+}
@@ -1,4 +1,6 @@
-import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
+import { Part, Schema } from "@google/genai";
+import { getLlmProvider, LlmGenerateResponse } from "./llmProvider";
+import { isPhiRedactionEnabled, redactPhi, rehydratePhi } from "./phiRedaction";
 
 const GEMINI_MODEL = 'gemini-2.5-flash'; // Default model for text-only
 
@@ -6,12 +8,24 @@ interface CallGeminiParams {
   prompt: string;
   systemInstruction?: string;
   useSearchGrounding?: boolean;
-  imageFile?: File; // Optional image file for multimodal input
+  imageFiles?: File[]; // Optional images for multimodal input, e.g. the pages of a document, in order
+  responseSchema?: Schema; // Optional JSON schema; ignored when search grounding is on
+  signal?: AbortSignal; // Cancels the request, which then rejects with an AbortError
+}
+
+/**
+ * A passage of a grounded response and the sources that support it.
+ */
+export interface GroundingCitation {
+  text: string; // The passage as it appears in the response text
+  sourceIndices: number[]; // Indices into `groundingUrls`
 }
 
 export interface GeminiResponseData {
   text: string;
+  model?: string; // The model that produced the response
   groundingUrls?: { uri: string; title?: string }[];
+  citations?: GroundingCitation[]; // From the grounding supports; only set along with groundingUrls
 }
 
 /**
@@ -32,18 +46,12 @@ const fileToBase64 = (file: File): Promise<{ data: string; mimeType: string }> =
   });
 };
 
-export async function callGemini(params: CallGeminiParams): Promise<GeminiResponseData> {
-  const { prompt, systemInstruction, useSearchGrounding = false, imageFile } = params;
-  const apiKey = process.env.API_KEY;
-
-  if (!apiKey) {
-    throw new Error(
-      `Gemini API key is not configured. Please set the API_KEY environment variable. 
-      For local development, you might need to configure it in your build tool (e.g., VITE_API_KEY for Vite apps).`
-    );
-  }
-
-  const ai = new GoogleGenAI({ apiKey });
+/**
+ * Picks the model, builds the config and content parts, and de-identifies the prompt.
+ * Shared by `callGemini` and `callGeminiStream`.
+ */
+const prepareRequest = async (params: CallGeminiParams) => {
+  const { prompt, systemInstruction, useSearchGrounding = false, imageFiles = [], responseSchema } = params;
 
   let modelToUse: string;
 
@@ -52,7 +60,7 @@ export async function callGemini(params: CallGeminiParams): Promise<GeminiRespon
     // and which is also suitable for potentially complex queries and multimodal input.
     // gemini-2.5-pro is generally more capable for tasks requiring grounding and can handle images.
     modelToUse = 'gemini-2.5-pro';
-  } else if (imageFile) {
+  } else if (imageFiles.length > 0) {
     // If there's an image but no search grounding, use the dedicated multimodal image model.
     modelToUse = 'gemini-2.5-flash-image';
   } else {
@@ -60,36 +68,95 @@ export async function callGemini(params: CallGeminiParams): Promise<GeminiRespon
     modelToUse = GEMINI_MODEL; // which is 'gemini-2.5-flash'
   }
 
-  try {
-    const config: any = {
-      temperature: 0.7,
-      maxOutputTokens: 2048,
-      ...(systemInstruction && { systemInstruction }),
-    };
+  const config: any = {
+    temperature: 0.7,
+    maxOutputTokens: 2048,
+    ...(systemInstruction && { systemInstruction }),
+  };
 
-    if (useSearchGrounding) {
-      config.tools = [{ googleSearch: {} }];
-      // As per guidelines, ensure responseMimeType and responseSchema are NOT set when googleSearch is used.
-    }
+  if (useSearchGrounding) {
+    config.tools = [{ googleSearch: {} }];
+    // As per guidelines, ensure responseMimeType and responseSchema are NOT set when googleSearch is used.
+  } else if (responseSchema) {
+    config.responseMimeType = 'application/json';
+    config.responseSchema = responseSchema;
+  }
 
-    // Build content parts
-    const parts: Part[] = [];
-    if (imageFile) {
-      const imageData = await fileToBase64(imageFile);
-      parts.push({
-        inlineData: {
-          data: imageData.data,
-          mimeType: imageData.mimeType,
-        },
-      });
-    }
-    parts.push({ text: prompt });
+  // Build content parts
+  const parts: Part[] = [];
+  // All pages go in one request, before the prompt, so the model reads them as one document
+  for (const imageFile of imageFiles) {
+    const imageData = await fileToBase64(imageFile);
+    parts.push({
+      inlineData: {
+        data: imageData.data,
+        mimeType: imageData.mimeType,
+      },
+    });
+  }
+  // De-identify the prompt; placeholders are swapped back into the answer by `restoreText`.
+  const { text: promptToSend, redactions } = isPhiRedactionEnabled() ? redactPhi(prompt) : { text: prompt, redactions: [] };
+  parts.push({ text: promptToSend });
+
+  const isJson = Boolean(responseSchema) && !useSearchGrounding;
+  // JSON answers need the restored values escaped so they still parse.
+  const restoreText = (text: string) =>
+    rehydratePhi(text, redactions, isJson ? value => JSON.stringify(value).slice(1, -1) : undefined);
+
+  return { model: modelToUse, parts, config, restoreText };
+};
+
+const assertProviderConfigured = () => {
+  if (!getLlmProvider().isConfigured()) {
+    throw new Error(
+      `Gemini API key is not configured. Please set the API_KEY environment variable. 
+      For local development, you might need to configure it in your build tool (e.g., VITE_API_KEY for Vite apps).`
+    );
+  }
+};
+
+/**
+ * Collects the web sources and the passages they support. Supports refer to chunks by index, so the
+ * indices are remapped to skip chunks without a web URL. Passages go through `restoreText` so they
+ * match the text the user sees.
+ */
+const extractGrounding = (response: LlmGenerateResponse, restoreText: (text: string) => string): Pick<GeminiResponseData, 'groundingUrls' | 'citations'> | undefined => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  if (!metadata?.groundingChunks?.some(chunk => chunk.web?.uri)) return undefined;
+
+  const groundingUrls: NonNullable<GeminiResponseData['groundingUrls']> = [];
+  const urlIndexByChunk = new Map<number, number>();
+  metadata.groundingChunks.forEach((chunk, index) => {
+    if (!chunk.web?.uri) return;
+    urlIndexByChunk.set(index, groundingUrls.length);
+    groundingUrls.push({ uri: chunk.web.uri, title: chunk.web.title || 'External Link' });
+  });
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: modelToUse,
-      contents: [{ parts: parts }],
-      config: config
+  const citations = (metadata.groundingSupports ?? []).flatMap((support): GroundingCitation[] => {
+    const sourceIndices = [...new Set((support.groundingChunkIndices ?? []).flatMap(index => urlIndexByChunk.get(index) ?? []))];
+    return support.segment?.text && sourceIndices.length > 0
+      ? [{ text: restoreText(support.segment.text), sourceIndices }]
+      : [];
+  });
+  return { groundingUrls, citations };
+};
+
+export async function callGemini(params: CallGeminiParams): Promise<GeminiResponseData> {
+  const { useSearchGrounding = false, signal } = params;
+  const provider = getLlmProvider();
+  assertProviderConfigured();
+
+  try {
+    const { model, parts, config, restoreText } = await prepareRequest(params);
+
+    const response: LlmGenerateResponse = await provider.generateContent({
+      model,
+      parts,
+      config: { ...config, abortSignal: signal },
     });
+    if (signal?.aborted) {
+      throw new DOMException('The request was cancelled.', 'AbortError');
+    }
 
     if (!response || !response.text) {
       // More detailed check if text is missing
@@ -109,20 +176,20 @@ export async function callGemini(params: CallGeminiParams): Promise<GeminiRespon
     }
 
     const result: GeminiResponseData = {
-      text: response.text,
+      text: restoreText(response.text),
+      model,
     };
 
-    if (useSearchGrounding && response.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-      result.groundingUrls = response.candidates[0].groundingMetadata.groundingChunks
-        .filter(chunk => chunk.web?.uri)
-        .map(chunk => ({
-          uri: chunk.web!.uri!,
-          title: chunk.web!.title || 'External Link',
-        }));
+    const grounding = useSearchGrounding ? extractGrounding(response, restoreText) : undefined;
+    if (grounding) {
+      Object.assign(result, grounding);
     }
 
     return result;
   } catch (error: unknown) {
+    if (signal?.aborted) {
+      throw new DOMException('The request was cancelled.', 'AbortError');
+    }
     console.error('Gemini API Error:', error);
     if (error instanceof Error) {
       throw new Error(`Gemini API request failed: ${error.message}`);
@@ -131,6 +198,67 @@ export async function callGemini(params: CallGeminiParams): Promise<GeminiRespon
   }
 }
 
+interface CallGeminiStreamParams extends CallGeminiParams {
+  onText: (textSoFar: string) => void; // Called with the full text received so far after every chunk
+}
+
+/**
+ * Streams a response, reporting the accumulated text as it arrives. Grounding references are
+ * attached once the stream completes.
+ * @returns A Promise resolving to the complete response.
+ * @throws An error named 'AbortError' if the signal is aborted; text already reported is kept by the caller.
+ */
+export async function callGeminiStream(params: CallGeminiStreamParams): Promise<GeminiResponseData> {
+  const { useSearchGrounding = false, onText, signal } = params;
+  const provider = getLlmProvider();
+  assertProviderConfigured();
+
+  try {
+    const { model, parts, config, restoreText } = await prepareRequest(params);
+    const stream = await provider.generateContentStream({
+      model,
+      parts,
+      config: { ...config, abortSignal: signal },
+    });
+
+    let text = '';
+    let grounding: ReturnType<typeof extractGrounding>;
+    for await (const chunk of stream) {
+      if (signal?.aborted) break;
+      if (chunk.promptFeedback?.blockReason) {
+        throw new Error(`Gemini API response blocked due to prompt feedback: ${chunk.promptFeedback.blockReason}`);
+      }
+      if (chunk.candidates?.[0]?.finishReason === 'SAFETY') {
+        throw new Error("Gemini API response blocked due to safety reasons in candidate output.");
+      }
+      if (chunk.text) {
+        text += chunk.text;
+        onText(restoreText(text));
+      }
+      // Grounding metadata arrives with the final chunks; keep the latest non-empty set.
+      grounding = (useSearchGrounding && extractGrounding(chunk, restoreText)) || grounding;
+    }
+
+    if (signal?.aborted) {
+      throw new DOMException('The request was cancelled.', 'AbortError');
+    }
+    if (!text) {
+      throw new Error("No text content found in Gemini API response or empty response with no specific block reason.");
+    }
+
+    return { text: restoreText(text), model, ...grounding };
+  } catch (error: unknown) {
+    if (signal?.aborted) {
+      throw new DOMException('The request was cancelled.', 'AbortError');
+    }
+    console.error('Gemini API Stream Error:', error);
+    if (error instanceof Error) {
+      throw new Error(`Gemini API request failed: ${error.message}`);
+    }
+    throw new Error("An unknown error occurred during Gemini API call.");
+  }
+}
+
 
 /**
  * Proofreads the given text for grammar, spelling, and punctuation errors.
@@ -139,23 +267,22 @@ export async function callGemini(params: CallGeminiParams): Promise<GeminiRespon
  * @returns A Promise resolving to the corrected text.
  */
 export async function callGeminiProofread(text: string): Promise<string> {
-  const apiKey = process.env.API_KEY;
+  const provider = getLlmProvider();
 
-  if (!apiKey) {
+  if (!provider.isConfigured()) {
     throw new Error("Gemini API key is not configured for proofreading.");
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-
   try {
+    const { text: textToSend, redactions } = isPhiRedactionEnabled() ? redactPhi(text) : { text, redactions: [] };
     const prompt = `Proofread the following text for grammar, spelling, and punctuation errors. Return only the corrected text. If no corrections are needed, return the original text exactly as provided.
 
 Text to proofread:
-"${text}"`;
+"${textToSend}"`;
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
+    const response: LlmGenerateResponse = await provider.generateContent({
       model: 'gemini-2.5-flash', // Using flash for speed
-      contents: [{ parts: [{ text: prompt }] }],
+      parts: [{ text: prompt }],
       config: {
         temperature: 0.2, // Lower temperature for more deterministic corrections
         maxOutputTokens: 2048,
@@ -183,7 +310,7 @@ Text to proofread:
       return text;
     }
 
-    return response.text.trim();
+    return rehydratePhi(response.text.trim(), redactions);
   } catch (error: unknown) {
     console.error('Gemini Proofread API Error:', error);
     if (error instanceof Error) {
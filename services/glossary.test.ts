@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseGlossaryDrafts, splitGlossaryTerms } from './glossary';
+
+const underlined = (text: string): string[] =>
+  splitGlossaryTerms(text).filter(segment => segment.entryId).map(segment => segment.text);
+
+describe('splitGlossaryTerms', () => {
+  it('underlines terms, synonyms and longer abbreviations', () => {
+    expect(underlined('History of atrial fibrillation and CHF. Take 1 tab BID.')).toEqual(['atrial fibrillation', 'CHF', 'BID']);
+  });
+
+  it('does not underline two-letter abbreviations', () => {
+    expect(underlined('Dr. HS reviewed the CT with MI from the PO office in AF, SL and HF.')).toEqual([]);
+  });
+
+  it('keeps the text intact', () => {
+    const text = 'Take 1 tab QHS for heart failure.';
+    expect(splitGlossaryTerms(text).map(segment => segment.text).join('')).toBe(text);
+  });
+});
+
+describe('parseGlossaryDrafts', () => {
+  it('trims fields and drops entries without a term or definition', () => {
+    const json = JSON.stringify([
+      { term: ' Stent ', definition: ' A small tube. ', synonyms: ['coronary stent', 3, ''], abbreviations: null },
+      { term: 'Empty', definition: ' ' },
+      null,
+      'text',
+      { definition: 'No term.' },
+    ]);
+    expect(parseGlossaryDrafts(json)).toEqual([
+      { term: 'Stent', definition: 'A small tube.', synonyms: ['coronary stent'], abbreviations: [] },
+    ]);
+  });
+
+  it('rejects answers that are not a JSON list', () => {
+    expect(() => parseGlossaryDrafts('{')).toThrow('not valid JSON');
+    expect(() => parseGlossaryDrafts('{}')).toThrow('not a list');
+  });
+});
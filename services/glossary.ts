@@ -0,0 +1,224 @@
+import { Schema, Type } from "@google/genai";
+import { callGemini } from "./geminiService";
+import { BUNDLED_GLOSSARY, BundledGlossaryEntry } from "./glossaryData";
+import { deleteRecord, getAllRecords, putRecord, STORES } from "./localDb";
+
+export interface GlossaryEntry extends BundledGlossaryEntry {
+  source: 'bundled' | 'saved'; // Saved entries were defined by the model and kept by the user
+}
+
+/**
+ * A term the user added. Queued terms are waiting for a definition; saved ones appear in results.
+ */
+export interface UserGlossaryTerm {
+  id: string;
+  term: string;
+  definition: string; // Empty while queued
+  synonyms: string[];
+  abbreviations: string[];
+  status: 'queued' | 'saved';
+  createdAt: string; // ISO timestamp
+}
+
+export type GlossaryDraft = Pick<UserGlossaryTerm, 'term' | 'definition' | 'synonyms' | 'abbreviations'>;
+
+export interface GlossarySegment {
+  text: string;
+  entryId?: string; // Set when the text is a recognized term
+}
+
+const GLOSSARY_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      term: { type: Type.STRING, description: 'The term exactly as given.' },
+      definition: { type: Type.STRING, description: 'A one or two sentence definition in plain language a patient can understand.' },
+      synonyms: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Other names for the same thing.' },
+      abbreviations: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Common abbreviations, with their usual capitalization.' },
+    },
+    required: ['term', 'definition', 'synonyms', 'abbreviations'],
+    propertyOrdering: ['term', 'definition', 'synonyms', 'abbreviations'],
+  },
+};
+
+// The user's terms from IndexedDB, kept in memory so results can be rendered synchronously
+let userTerms: UserGlossaryTerm[] = [];
+let matcher: { entries: GlossaryEntry[]; terms: RegExp | null; abbreviations: RegExp | null } | null = null;
+
+const toEntry = (term: UserGlossaryTerm): GlossaryEntry => ({
+  id: term.id,
+  term: term.term,
+  definition: term.definition,
+  synonyms: term.synonyms,
+  abbreviations: term.abbreviations,
+  category: 'general',
+  source: 'saved',
+});
+
+const setUserTerms = (terms: UserGlossaryTerm[]) => {
+  userTerms = terms;
+  matcher = null;
+};
+
+const normalizeTerm = (term: string): string =>
+  term.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Every entry shown in results and the glossary browser: the bundled glossary plus the user's saved terms.
+ */
+export const glossaryEntries = (): GlossaryEntry[] => [
+  ...BUNDLED_GLOSSARY.map(entry => ({ ...entry, source: 'bundled' as const })),
+  ...userTerms.filter(term => term.status === 'saved' && term.definition).map(toEntry),
+];
+
+export const findGlossaryEntry = (id: string): GlossaryEntry | undefined =>
+  glossaryEntries().find(entry => entry.id === id);
+
+export async function loadUserGlossary(): Promise<UserGlossaryTerm[]> {
+  const terms = await getAllRecords<UserGlossaryTerm>(STORES.glossaryTerms);
+  setUserTerms(terms.sort((a, b) => a.term.localeCompare(b.term)));
+  return userTerms;
+}
+
+/**
+ * Stores a term and updates the in-memory glossary, so the next render underlines it.
+ * @returns The user's terms after the change.
+ */
+export async function saveUserGlossaryTerm(term: UserGlossaryTerm): Promise<UserGlossaryTerm[]> {
+  await putRecord(STORES.glossaryTerms, term);
+  setUserTerms([...userTerms.filter(existing => existing.id !== term.id), term].sort((a, b) => a.term.localeCompare(b.term)));
+  return userTerms;
+}
+
+export async function deleteUserGlossaryTerm(id: string): Promise<UserGlossaryTerm[]> {
+  await deleteRecord(STORES.glossaryTerms, id);
+  setUserTerms(userTerms.filter(term => term.id !== id));
+  return userTerms;
+}
+
+/**
+ * Creates a queued term, or returns null if the glossary or queue already has it.
+ */
+export function createQueuedTerm(text: string): UserGlossaryTerm | null {
+  const term = text.trim();
+  const key = normalizeTerm(term);
+  if (!key) return null;
+  const known = [
+    ...glossaryEntries().flatMap(entry => [entry.term, ...entry.synonyms, ...entry.abbreviations]),
+    ...userTerms.map(userTerm => userTerm.term),
+  ];
+  if (known.some(existing => normalizeTerm(existing) === key)) return null;
+  return { id: crypto.randomUUID(), term, definition: '', synonyms: [], abbreviations: [], status: 'queued', createdAt: new Date().toISOString() };
+}
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest alternatives first so "type 2 diabetes mellitus" wins over "diabetes"; letters and digits may not touch a match
+const buildPattern = (phrases: string[], flags: string): RegExp | null => {
+  if (phrases.length === 0) return null;
+  const alternatives = [...new Set(phrases)].sort((a, b) => b.length - a.length).map(escapeRegex);
+  return new RegExp(`(?<![A-Za-z0-9])(?:${alternatives.join('|')})(?![A-Za-z0-9])`, flags);
+};
+
+// Two-letter abbreviations such as "HS", "MI" or "PO" also appear as initials, state codes and
+// ordinary words in capitals, so they are left to the glossary browser rather than underlined
+const MIN_UNDERLINED_ABBREVIATION_LETTERS = 3;
+
+const isUnderlinedAbbreviation = (abbreviation: string): boolean =>
+  abbreviation.replace(/[^A-Za-z]/g, '').length >= MIN_UNDERLINED_ABBREVIATION_LETTERS;
+
+const getMatcher = () => {
+  if (!matcher) {
+    const entries = glossaryEntries();
+    matcher = {
+      entries,
+      terms: buildPattern(entries.flatMap(entry => [entry.term, ...entry.synonyms]), 'gi'),
+      abbreviations: buildPattern(entries.flatMap(entry => entry.abbreviations).filter(isUnderlinedAbbreviation), 'g'),
+    };
+  }
+  return matcher;
+};
+
+/**
+ * Splits text into plain runs and recognized glossary terms. Where matches overlap, the earlier,
+ * then longer, one is kept.
+ */
+export function splitGlossaryTerms(text: string): GlossarySegment[] {
+  const { entries, terms, abbreviations } = getMatcher();
+  const matches: { start: number; end: number; entryId: string }[] = [];
+  const collect = (pattern: RegExp | null, findEntry: (matched: string) => GlossaryEntry | undefined) => {
+    if (!pattern) return;
+    for (const match of text.matchAll(pattern)) {
+      const entry = findEntry(match[0]);
+      if (entry) matches.push({ start: match.index!, end: match.index! + match[0].length, entryId: entry.id });
+    }
+  };
+  collect(terms, matched => entries.find(entry =>
+    [entry.term, ...entry.synonyms].some(phrase => phrase.toLowerCase() === matched.toLowerCase())));
+  collect(abbreviations, matched => entries.find(entry => entry.abbreviations.includes(matched)));
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const segments: GlossarySegment[] = [];
+  let position = 0;
+  matches.forEach(match => {
+    if (match.start < position) return; // Overlaps a kept match
+    if (match.start > position) segments.push({ text: text.slice(position, match.start) });
+    segments.push({ text: text.slice(match.start, match.end), entryId: match.entryId });
+    position = match.end;
+  });
+  if (position < text.length) segments.push({ text: text.slice(position) });
+  return segments;
+}
+
+/**
+ * Finds entries whose term, synonyms, abbreviations or definition contain the query.
+ */
+export function searchGlossary(query: string, entries: GlossaryEntry[]): GlossaryEntry[] {
+  const needle = query.trim().toLowerCase();
+  const sorted = [...entries].sort((a, b) => a.term.localeCompare(b.term));
+  if (!needle) return sorted;
+  return sorted.filter(entry =>
+    [entry.term, ...entry.synonyms, ...entry.abbreviations, entry.definition].some(text => text.toLowerCase().includes(needle)));
+}
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim()) : [];
+
+/**
+ * Parses the model's JSON definitions. Entries without a term or definition are dropped.
+ */
+export function parseGlossaryDrafts(json: string): GlossaryDraft[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('The glossary definitions were not valid JSON.');
+  }
+  if (!Array.isArray(raw)) {
+    throw new Error('The glossary definitions were not a list.');
+  }
+  return raw.flatMap((entry: unknown): GlossaryDraft[] => {
+    if (typeof entry !== 'object' || entry === null) return [];
+    const { term, definition, synonyms, abbreviations } = entry as Record<string, unknown>;
+    if (typeof term !== 'string' || typeof definition !== 'string' || !term.trim() || !definition.trim()) return [];
+    return [{
+      term: term.trim(),
+      definition: definition.trim(),
+      synonyms: asStringList(synonyms),
+      abbreviations: asStringList(abbreviations),
+    }];
+  });
+}
+
+/**
+ * Asks the model for plain-language definitions of queued terms. The user reviews each before saving it.
+ */
+export async function defineGlossaryTerms(terms: string[]): Promise<GlossaryDraft[]> {
+  const response = await callGemini({
+    prompt: `Define each medical term below for a patient glossary, in plain language. If a term is not a medical term, still give a short, accurate definition.\n\nTerms:\n${terms.map(term => `- ${term}`).join('\n')}`,
+    systemInstruction: "You are a careful medical writer. You write short, accurate definitions and never give personal medical advice.",
+    responseSchema: GLOSSARY_SCHEMA,
+  });
+  return parseGlossaryDrafts(response.text);
+}
@@ -0,0 +1,94 @@
+/**
+ * Bundled medical glossary used to underline and define terms in results, offline.
+ *
+ * Definitions are written for patients and are deliberately short; they are not a medical reference.
+ */
+
+export type GlossaryCategory = 'condition' | 'symptom' | 'test' | 'medication' | 'prescription' | 'anatomy' | 'general';
+
+export interface BundledGlossaryEntry {
+  id: string;
+  term: string;
+  definition: string;
+  synonyms: string[]; // Other spellings or names, matched case-insensitively
+  abbreviations: string[]; // Matched with their exact capitalization, e.g. "BID" but not "bid"; those under 3 letters are not underlined
+  category: GlossaryCategory;
+}
+
+export const BUNDLED_GLOSSARY: BundledGlossaryEntry[] = [
+  // Prescription abbreviations
+  { id: 'bid', term: 'Twice a day', definition: 'Take the medicine two times a day, usually morning and evening.', synonyms: ['twice daily'], abbreviations: ['BID', 'b.i.d.'], category: 'prescription' },
+  { id: 'tid', term: 'Three times a day', definition: 'Take the medicine three times a day, spread out during the day.', synonyms: ['three times daily'], abbreviations: ['TID', 't.i.d.'], category: 'prescription' },
+  { id: 'qid', term: 'Four times a day', definition: 'Take the medicine four times a day, spread out during the day.', synonyms: ['four times daily'], abbreviations: ['QID', 'q.i.d.'], category: 'prescription' },
+  { id: 'qd', term: 'Once a day', definition: 'Take the medicine one time each day, at about the same time.', synonyms: ['once daily'], abbreviations: ['QD', 'q.d.'], category: 'prescription' },
+  { id: 'qhs', term: 'At bedtime', definition: 'Take the medicine just before you go to sleep.', synonyms: [], abbreviations: ['QHS', 'HS', 'q.h.s.'], category: 'prescription' },
+  { id: 'prn', term: 'As needed', definition: 'Take the medicine only when you need it, for example when you have pain, not on a fixed schedule.', synonyms: ['as needed'], abbreviations: ['PRN', 'p.r.n.'], category: 'prescription' },
+  { id: 'po', term: 'By mouth', definition: 'Swallow the medicine.', synonyms: ['orally'], abbreviations: ['PO', 'p.o.'], category: 'prescription' },
+  { id: 'npo', term: 'Nothing by mouth', definition: 'Do not eat or drink anything, usually before a test or surgery.', synonyms: [], abbreviations: ['NPO'], category: 'prescription' },
+  { id: 'sl', term: 'Under the tongue', definition: 'Let the medicine dissolve under your tongue instead of swallowing it.', synonyms: ['sublingual'], abbreviations: ['SL'], category: 'prescription' },
+
+  // Tests
+  { id: 'a1c', term: 'Hemoglobin A1c', definition: 'A blood test that shows your average blood sugar over the past two to three months.', synonyms: ['HbA1c', 'glycated hemoglobin'], abbreviations: ['A1c', 'A1C'], category: 'test' },
+  { id: 'egfr', term: 'Estimated glomerular filtration rate', definition: 'A number that shows how well your kidneys are filtering waste from your blood. Lower numbers mean the kidneys are working less well.', synonyms: ['glomerular filtration rate'], abbreviations: ['eGFR', 'GFR'], category: 'test' },
+  { id: 'cbc', term: 'Complete blood count', definition: 'A blood test that counts your red blood cells, white blood cells and platelets.', synonyms: [], abbreviations: ['CBC'], category: 'test' },
+  { id: 'bmp', term: 'Basic metabolic panel', definition: 'A group of blood tests that checks your blood sugar, salts and kidney function.', synonyms: [], abbreviations: ['BMP'], category: 'test' },
+  { id: 'cmp', term: 'Comprehensive metabolic panel', definition: 'A group of blood tests that checks blood sugar, salts, kidney function and liver function.', synonyms: [], abbreviations: ['CMP'], category: 'test' },
+  { id: 'ldl', term: 'LDL cholesterol', definition: 'The "bad" cholesterol. High levels can build up in your blood vessels and raise the risk of heart attack and stroke.', synonyms: ['low-density lipoprotein'], abbreviations: ['LDL'], category: 'test' },
+  { id: 'hdl', term: 'HDL cholesterol', definition: 'The "good" cholesterol. It helps remove other cholesterol from your blood.', synonyms: ['high-density lipoprotein'], abbreviations: ['HDL'], category: 'test' },
+  { id: 'triglycerides', term: 'Triglycerides', definition: 'A type of fat in your blood. High levels can raise the risk of heart disease.', synonyms: ['triglyceride'], abbreviations: [], category: 'test' },
+  { id: 'tsh', term: 'Thyroid-stimulating hormone', definition: 'A blood test that checks how well your thyroid gland is working.', synonyms: [], abbreviations: ['TSH'], category: 'test' },
+  { id: 'creatinine', term: 'Creatinine', definition: 'A waste product your kidneys remove from the blood. A high level can mean the kidneys are not working well.', synonyms: [], abbreviations: [], category: 'test' },
+  { id: 'bun', term: 'Blood urea nitrogen', definition: 'A waste product measured in the blood to check kidney function.', synonyms: [], abbreviations: ['BUN'], category: 'test' },
+  { id: 'hemoglobin', term: 'Hemoglobin', definition: 'The part of red blood cells that carries oxygen around your body. Low levels can mean anemia.', synonyms: ['haemoglobin'], abbreviations: ['Hgb', 'Hb'], category: 'test' },
+  { id: 'hematocrit', term: 'Hematocrit', definition: 'How much of your blood is made up of red blood cells.', synonyms: [], abbreviations: ['Hct'], category: 'test' },
+  { id: 'platelets', term: 'Platelets', definition: 'Small blood cells that help your blood clot and stop bleeding.', synonyms: ['platelet count'], abbreviations: ['PLT'], category: 'test' },
+  { id: 'wbc', term: 'White blood cells', definition: 'Cells that fight infection. High or low counts can be a sign of infection or other problems.', synonyms: ['white blood cell count', 'leukocytes'], abbreviations: ['WBC'], category: 'test' },
+  { id: 'inr', term: 'International normalized ratio', definition: 'A blood test that shows how long your blood takes to clot, often used to check blood thinners like warfarin.', synonyms: [], abbreviations: ['INR'], category: 'test' },
+  { id: 'ekg', term: 'Electrocardiogram', definition: 'A quick test that records the electrical activity of your heart.', synonyms: [], abbreviations: ['EKG', 'ECG'], category: 'test' },
+  { id: 'mri', term: 'MRI scan', definition: 'A scan that uses magnets and radio waves to take detailed pictures inside your body.', synonyms: ['magnetic resonance imaging'], abbreviations: ['MRI'], category: 'test' },
+  { id: 'ct', term: 'CT scan', definition: 'A scan that uses X-rays from many angles to make detailed pictures inside your body.', synonyms: ['computed tomography', 'CAT scan'], abbreviations: ['CT'], category: 'test' },
+  { id: 'biopsy', term: 'Biopsy', definition: 'Taking a small piece of tissue so it can be looked at under a microscope.', synonyms: [], abbreviations: [], category: 'test' },
+
+  // Conditions and symptoms
+  { id: 'hypertension', term: 'Hypertension', definition: 'High blood pressure. Over time it can damage the heart, kidneys and blood vessels.', synonyms: ['high blood pressure'], abbreviations: ['HTN'], category: 'condition' },
+  { id: 'hypotension', term: 'Hypotension', definition: 'Low blood pressure. It can make you feel dizzy or faint.', synonyms: ['low blood pressure'], abbreviations: [], category: 'condition' },
+  { id: 'hyperlipidemia', term: 'Hyperlipidemia', definition: 'Too much fat, such as cholesterol, in the blood.', synonyms: ['high cholesterol', 'dyslipidemia'], abbreviations: ['HLD'], category: 'condition' },
+  { id: 'diabetes', term: 'Type 2 diabetes', definition: 'A long-term condition where the body does not use insulin well, so blood sugar stays too high.', synonyms: ['diabetes mellitus', 'type 2 diabetes mellitus'], abbreviations: ['T2DM', 'DM2'], category: 'condition' },
+  { id: 'hyperglycemia', term: 'Hyperglycemia', definition: 'Blood sugar that is higher than normal.', synonyms: ['high blood sugar'], abbreviations: [], category: 'condition' },
+  { id: 'hypoglycemia', term: 'Hypoglycemia', definition: 'Blood sugar that is lower than normal. It can cause shakiness, sweating or confusion.', synonyms: ['low blood sugar'], abbreviations: [], category: 'condition' },
+  { id: 'ckd', term: 'Chronic kidney disease', definition: 'Kidney damage that lasts a long time and makes the kidneys filter blood less well.', synonyms: [], abbreviations: ['CKD'], category: 'condition' },
+  { id: 'copd', term: 'Chronic obstructive pulmonary disease', definition: 'A long-term lung disease that makes it hard to breathe out air.', synonyms: [], abbreviations: ['COPD'], category: 'condition' },
+  { id: 'chf', term: 'Heart failure', definition: 'The heart does not pump blood as well as it should, which can cause tiredness, shortness of breath and swelling.', synonyms: ['congestive heart failure'], abbreviations: ['CHF', 'HF'], category: 'condition' },
+  { id: 'afib', term: 'Atrial fibrillation', definition: 'An irregular, often fast heartbeat that raises the risk of stroke.', synonyms: [], abbreviations: ['AFib', 'AF'], category: 'condition' },
+  { id: 'mi', term: 'Heart attack', definition: 'Part of the heart muscle is damaged because its blood supply was blocked.', synonyms: ['myocardial infarction'], abbreviations: ['MI'], category: 'condition' },
+  { id: 'cva', term: 'Stroke', definition: 'Part of the brain is damaged because its blood supply was blocked or a blood vessel burst.', synonyms: ['cerebrovascular accident'], abbreviations: ['CVA'], category: 'condition' },
+  { id: 'anemia', term: 'Anemia', definition: 'Not enough healthy red blood cells to carry oxygen, which can make you tired and weak.', synonyms: ['anaemia'], abbreviations: [], category: 'condition' },
+  { id: 'uti', term: 'Urinary tract infection', definition: 'An infection in the bladder or other parts of the urinary system.', synonyms: [], abbreviations: ['UTI'], category: 'condition' },
+  { id: 'gerd', term: 'Acid reflux disease', definition: 'Stomach acid often flows back up into the food pipe, causing heartburn.', synonyms: ['gastroesophageal reflux disease'], abbreviations: ['GERD'], category: 'condition' },
+  { id: 'dyspnea', term: 'Dyspnea', definition: 'Shortness of breath or trouble breathing.', synonyms: ['dyspnoea', 'shortness of breath'], abbreviations: ['SOB'], category: 'symptom' },
+  { id: 'dysphagia', term: 'Dysphagia', definition: 'Trouble swallowing.', synonyms: [], abbreviations: [], category: 'symptom' },
+  { id: 'edema', term: 'Edema', definition: 'Swelling caused by extra fluid trapped in the body, often in the legs or ankles.', synonyms: ['oedema'], abbreviations: [], category: 'symptom' },
+  { id: 'syncope', term: 'Syncope', definition: 'Fainting, or briefly passing out.', synonyms: [], abbreviations: [], category: 'symptom' },
+  { id: 'tachycardia', term: 'Tachycardia', definition: 'A heart rate that is faster than normal.', synonyms: [], abbreviations: [], category: 'symptom' },
+  { id: 'bradycardia', term: 'Bradycardia', definition: 'A heart rate that is slower than normal.', synonyms: [], abbreviations: [], category: 'symptom' },
+  { id: 'palpitations', term: 'Palpitations', definition: 'Feeling your heart pounding, fluttering or skipping beats.', synonyms: [], abbreviations: [], category: 'symptom' },
+  { id: 'neuropathy', term: 'Neuropathy', definition: 'Nerve damage that can cause numbness, tingling or pain, often in the hands and feet.', synonyms: ['peripheral neuropathy'], abbreviations: [], category: 'condition' },
+  { id: 'benign', term: 'Benign', definition: 'Not cancer and not likely to spread.', synonyms: [], abbreviations: [], category: 'general' },
+  { id: 'malignant', term: 'Malignant', definition: 'Cancerous, able to grow and spread to other parts of the body.', synonyms: [], abbreviations: [], category: 'general' },
+  { id: 'chronic', term: 'Chronic', definition: 'Lasting a long time or coming back often.', synonyms: [], abbreviations: [], category: 'general' },
+  { id: 'acute', term: 'Acute', definition: 'Starting suddenly and usually lasting a short time.', synonyms: [], abbreviations: [], category: 'general' },
+  { id: 'idiopathic', term: 'Idiopathic', definition: 'Having no known cause.', synonyms: [], abbreviations: [], category: 'general' },
+  { id: 'prognosis', term: 'Prognosis', definition: 'The likely course or outcome of an illness.', synonyms: [], abbreviations: [], category: 'general' },
+  { id: 'bilateral', term: 'Bilateral', definition: 'On both sides of the body.', synonyms: [], abbreviations: [], category: 'general' },
+  { id: 'renal', term: 'Renal', definition: 'Having to do with the kidneys.', synonyms: [], abbreviations: [], category: 'anatomy' },
+  { id: 'hepatic', term: 'Hepatic', definition: 'Having to do with the liver.', synonyms: [], abbreviations: [], category: 'anatomy' },
+  { id: 'pulmonary', term: 'Pulmonary', definition: 'Having to do with the lungs.', synonyms: [], abbreviations: [], category: 'anatomy' },
+  { id: 'cardiac', term: 'Cardiac', definition: 'Having to do with the heart.', synonyms: [], abbreviations: [], category: 'anatomy' },
+
+  // Medications
+  { id: 'anticoagulant', term: 'Anticoagulant', definition: 'A medicine that makes your blood take longer to clot, often called a blood thinner.', synonyms: ['blood thinner'], abbreviations: [], category: 'medication' },
+  { id: 'diuretic', term: 'Diuretic', definition: 'A medicine that helps your body get rid of extra water and salt through urine, often called a water pill.', synonyms: ['water pill'], abbreviations: [], category: 'medication' },
+  { id: 'statin', term: 'Statin', definition: 'A type of medicine that lowers cholesterol.', synonyms: ['statins'], abbreviations: [], category: 'medication' },
+  { id: 'ace-inhibitor', term: 'ACE inhibitor', definition: 'A type of blood pressure medicine that relaxes blood vessels, such as lisinopril.', synonyms: ['ACE inhibitors'], abbreviations: ['ACEi'], category: 'medication' },
+  { id: 'nsaid', term: 'NSAID', definition: 'Pain and swelling medicines like ibuprofen and naproxen. They can upset the stomach and affect the kidneys.', synonyms: ['nonsteroidal anti-inflammatory drug', 'NSAIDs'], abbreviations: ['NSAID'], category: 'medication' },
+];
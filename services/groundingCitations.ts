@@ -0,0 +1,117 @@
+import { GroundingCitation } from "./geminiService";
+
+export type CitationPart =
+  | { type: 'text'; value: string }
+  | { type: 'citation'; sourceNumbers: number[] } // 1-based, matching the References list
+  | { type: 'unsupported' };
+
+// Markers are private-use characters, so they pass through the markdown parser as text and can't
+// collide with anything a model writes
+const CITATION_START = '\uE000';
+const CITATION_END = '\uE001';
+const UNSUPPORTED = '\uE002';
+const MARKER_PATTERN = /\uE000([\d,]+)\uE001|\uE002/g;
+const PRIVATE_USE_MARKERS = /[\uE000-\uE002]/g;
+
+// Sentences that state something about health: numbers, or common clinical wording
+const CLAIM_PATTERN = /\d|\b(?:cause|risk|treat|normal|range|level|high|low|elevated|diagnos|symptom|disease|condition|infection|medication|medicine|drug|dose|side effect|increase|decrease|reduce|indicat|sign of|associated|linked|point to|mean)/i;
+// Advice to the patient, rather than a claim that needs a source
+const ADVICE_PATTERN = /^(?:ask|talk|bring|write|tell|consider|remember|make sure|keep|please|let|you (?:can|could|might) (?:ask|bring|mention))\b/i;
+const MIN_CLAIM_WORDS = 5;
+
+export const stripCitationMarkers = (text: string): string => text.replace(PRIVATE_USE_MARKERS, '');
+
+/**
+ * Whether a sentence reads as a medical claim. Questions, headings-like labels, short fragments and
+ * advice to ask the doctor are not flagged.
+ */
+export function isMedicalClaim(sentence: string): boolean {
+  const plain = sentence
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '')
+    .replace(/[*_`>[\]]/g, '')
+    .trim();
+  if (plain.split(/\s+/).length < MIN_CLAIM_WORDS) return false;
+  if (/[?:]$/.test(plain) || ADVICE_PATTERN.test(plain)) return false;
+  return CLAIM_PATTERN.test(plain);
+}
+
+// Each sentence of the markdown with its offsets; headings, table rows and code fences are skipped
+const findSentences = (text: string): { start: number; end: number; value: string }[] => {
+  const sentences: { start: number; end: number; value: string }[] = [];
+  let lineStart = 0;
+  for (const line of text.split('\n')) {
+    if (!/^\s*(?:#|\||```|~~~)/.test(line)) {
+      for (const match of line.matchAll(/[^\s].*?(?:[.!?](?=\s|$)|$)/g)) {
+        const start = lineStart + match.index!;
+        sentences.push({ start, end: start + match[0].length, value: match[0] });
+      }
+    }
+    lineStart += line.length + 1;
+  }
+  return sentences;
+};
+
+/**
+ * Marks up a grounded answer for rendering: each supported passage gets a marker with its source
+ * numbers, and each medical claim that no passage covers gets an "unsupported" marker. Without
+ * citations the text is returned unchanged.
+ */
+export function annotateCitations(text: string, citations: GroundingCitation[]): string {
+  const clean = stripCitationMarkers(text);
+  if (citations.length === 0) return clean;
+
+  const markers = new Map<number, { sourceNumbers: Set<number>; unsupported: boolean }>();
+  const markerAt = (offset: number) => {
+    if (!markers.has(offset)) markers.set(offset, { sourceNumbers: new Set(), unsupported: false });
+    return markers.get(offset)!;
+  };
+  const cited: [number, number][] = [];
+
+  let searchFrom = 0;
+  citations.forEach(citation => {
+    const passage = citation.text.trim();
+    if (!passage) return;
+    // Supports usually arrive in order; fall back to the first occurrence if not
+    let start = clean.indexOf(passage, searchFrom);
+    if (start === -1) start = clean.indexOf(passage);
+    if (start === -1) return;
+    searchFrom = start;
+    cited.push([start, start + passage.length]);
+    const marker = markerAt(start + passage.length);
+    citation.sourceIndices.forEach(index => marker.sourceNumbers.add(index + 1));
+  });
+
+  findSentences(clean).forEach(sentence => {
+    const covered = cited.some(([start, end]) => start < sentence.end && end > sentence.start);
+    if (!covered && isMedicalClaim(sentence.value)) markerAt(sentence.end).unsupported = true;
+  });
+
+  let annotated = '';
+  let position = 0;
+  [...markers.entries()].sort(([a], [b]) => a - b).forEach(([offset, marker]) => {
+    annotated += clean.slice(position, offset);
+    if (marker.sourceNumbers.size > 0) {
+      annotated += `${CITATION_START}${[...marker.sourceNumbers].sort((a, b) => a - b).join(',')}${CITATION_END}`;
+    }
+    if (marker.unsupported) annotated += UNSUPPORTED;
+    position = offset;
+  });
+  return annotated + clean.slice(position);
+}
+
+/**
+ * Splits text produced by annotateCitations into plain runs and markers.
+ */
+export function splitCitationMarkers(text: string): CitationPart[] {
+  const parts: CitationPart[] = [];
+  let position = 0;
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    if (match.index! > position) parts.push({ type: 'text', value: text.slice(position, match.index) });
+    parts.push(match[1] !== undefined
+      ? { type: 'citation', sourceNumbers: match[1].split(',').map(Number) }
+      : { type: 'unsupported' });
+    position = match.index! + match[0].length;
+  }
+  if (position < text.length) parts.push({ type: 'text', value: text.slice(position) });
+  return parts;
+}
@@ -0,0 +1,154 @@
+const LANGUAGE_STORAGE_KEY = 'language.v1';
+
+export type AppLanguage = 'en' | 'es' | 'tl' | 'vi' | 'zh';
+
+export const APP_LANGUAGES: { code: AppLanguage; name: string; nativeName: string }[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'tl', name: 'Tagalog', nativeName: 'Tagalog' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt' },
+  { code: 'zh', name: 'Simplified Chinese', nativeName: '简体中文' },
+];
+
+export type TabLabelKey = 'translate' | 'prepare' | 'summarize' | 'labs' | 'record' | 'profile' | 'history' | 'glossary';
+
+export interface UiStrings {
+  tabs: Record<TabLabelKey, string>;
+  buttons: {
+    translate: string;
+    prepare: string;
+    summarize: string;
+    explain: string;
+    cancel: string;
+    proofreadInput: string;
+    startRecording: string;
+    stopRecording: string;
+    dismiss: string;
+  };
+  disclaimerLabel: string;
+  disclaimer: string;
+  languageLabel: string;
+  bilingualTermColumn: string;
+  bilingualExplanationColumn: string;
+}
+
+const UI_STRINGS: Record<AppLanguage, UiStrings> = {
+  en: {
+    tabs: { translate: 'Translate', prepare: 'Prepare', summarize: 'Summarize', labs: 'Labs', record: 'Record', profile: 'Profile', history: 'History', glossary: 'Glossary' },
+    buttons: {
+      translate: 'Translate',
+      prepare: 'Prepare',
+      summarize: 'Summarize',
+      explain: 'Explain',
+      cancel: 'Cancel',
+      proofreadInput: 'Proofread Input',
+      startRecording: 'Start Recording',
+      stopRecording: 'Stop Recording',
+      dismiss: 'Dismiss',
+    },
+    disclaimerLabel: 'Important',
+    disclaimer: 'This AI is for informational purposes only and should not replace professional medical advice. Always consult with a qualified healthcare provider for any health concerns.',
+    languageLabel: 'Language',
+    bilingualTermColumn: 'English term',
+    bilingualExplanationColumn: 'Explanation',
+  },
+  es: {
+    tabs: { translate: 'Traducir', prepare: 'Preparar', summarize: 'Resumir', labs: 'Análisis', record: 'Grabar', profile: 'Perfil', history: 'Historial', glossary: 'Glosario' },
+    buttons: {
+      translate: 'Traducir',
+      prepare: 'Preparar',
+      summarize: 'Resumir',
+      explain: 'Explicar',
+      cancel: 'Cancelar',
+      proofreadInput: 'Revisar texto',
+      startRecording: 'Iniciar grabación',
+      stopRecording: 'Detener grabación',
+      dismiss: 'Descartar',
+    },
+    disclaimerLabel: 'Importante',
+    disclaimer: 'Esta IA es solo para fines informativos y no reemplaza el consejo médico profesional. Consulte siempre a un profesional de la salud calificado ante cualquier problema de salud.',
+    languageLabel: 'Idioma',
+    bilingualTermColumn: 'Término en inglés',
+    bilingualExplanationColumn: 'Explicación',
+  },
+  tl: {
+    tabs: { translate: 'Isalin', prepare: 'Maghanda', summarize: 'Buod', labs: 'Lab', record: 'Mag-record', profile: 'Profile', history: 'Kasaysayan', glossary: 'Glosaryo' },
+    buttons: {
+      translate: 'Isalin',
+      prepare: 'Maghanda',
+      summarize: 'Ibuod',
+      explain: 'Ipaliwanag',
+      cancel: 'Kanselahin',
+      proofreadInput: 'I-proofread',
+      startRecording: 'Simulan ang Pag-record',
+      stopRecording: 'Ihinto ang Pag-record',
+      dismiss: 'Isara',
+    },
+    disclaimerLabel: 'Mahalaga',
+    disclaimer: 'Ang AI na ito ay para lamang sa pagbibigay ng impormasyon at hindi pamalit sa payo ng propesyonal na doktor. Laging kumonsulta sa isang kwalipikadong healthcare provider para sa anumang alalahanin sa kalusugan.',
+    languageLabel: 'Wika',
+    bilingualTermColumn: 'Terminong Ingles',
+    bilingualExplanationColumn: 'Paliwanag',
+  },
+  vi: {
+    tabs: { translate: 'Dịch', prepare: 'Chuẩn bị', summarize: 'Tóm tắt', labs: 'Xét nghiệm', record: 'Ghi âm', profile: 'Hồ sơ', history: 'Lịch sử', glossary: 'Thuật ngữ' },
+    buttons: {
+      translate: 'Dịch',
+      prepare: 'Chuẩn bị',
+      summarize: 'Tóm tắt',
+      explain: 'Giải thích',
+      cancel: 'Hủy',
+      proofreadInput: 'Kiểm tra chính tả',
+      startRecording: 'Bắt đầu ghi âm',
+      stopRecording: 'Dừng ghi âm',
+      dismiss: 'Đóng',
+    },
+    disclaimerLabel: 'Quan trọng',
+    disclaimer: 'AI này chỉ nhằm cung cấp thông tin và không thay thế lời khuyên y tế chuyên nghiệp. Hãy luôn hỏi ý kiến nhân viên y tế có chuyên môn về mọi vấn đề sức khỏe.',
+    languageLabel: 'Ngôn ngữ',
+    bilingualTermColumn: 'Thuật ngữ tiếng Anh',
+    bilingualExplanationColumn: 'Giải thích',
+  },
+  zh: {
+    tabs: { translate: '术语翻译', prepare: '就诊准备', summarize: '病历总结', labs: '化验结果', record: '录音', profile: '个人资料', history: '历史记录', glossary: '词汇表' },
+    buttons: {
+      translate: '翻译',
+      prepare: '准备',
+      summarize: '总结',
+      explain: '解释',
+      cancel: '取消',
+      proofreadInput: '校对输入',
+      startRecording: '开始录音',
+      stopRecording: '停止录音',
+      dismiss: '关闭',
+    },
+    disclaimerLabel: '重要提示',
+    disclaimer: '本 AI 仅供参考，不能替代专业医疗建议。如有任何健康问题，请务必咨询合格的医疗专业人员。',
+    languageLabel: '语言',
+    bilingualTermColumn: '英文术语',
+    bilingualExplanationColumn: '解释',
+  },
+};
+
+export const uiStrings = (language: AppLanguage): UiStrings => UI_STRINGS[language];
+
+export const languageName = (language: AppLanguage): string =>
+  APP_LANGUAGES.find(entry => entry.code === language)?.name ?? 'English';
+
+export function loadAppLanguage(): AppLanguage {
+  const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  return APP_LANGUAGES.some(entry => entry.code === stored) ? stored as AppLanguage : 'en';
+}
+
+export const saveAppLanguage = (language: AppLanguage): void =>
+  localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+
+/**
+ * Tells the model which language to answer in. Headings the app parses (such as "Medications:") and
+ * medication and test names stay in English so the rest of the app keeps working.
+ * @returns The instruction, or an empty string for English.
+ */
+export function buildLanguageInstruction(language: AppLanguage): string {
+  if (language === 'en') return '';
+  return `Write your entire answer in ${languageName(language)}. Keep any section headings the request asks for (such as "Medications:") in English exactly as written, keep medication names, lab test names, numbers and units unchanged, and after each medical term you translate, add the English term in parentheses.`;
+}
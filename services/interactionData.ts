@@ -0,0 +1,91 @@
+/**
+ * Bundled drug–drug interaction dataset used by the offline interaction checker.
+ * Bump INTERACTION_DATASET_VERSION whenever entries are added or changed so results can be traced
+ * back to the dataset that produced them.
+ *
+ * This is a curated subset of well-documented interactions, not a complete reference.
+ */
+
+export const INTERACTION_DATASET_VERSION = '2025.10.1';
+
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+
+export interface InteractionEntry {
+  a: string; // Drug group id
+  b: string; // Drug group id
+  severity: InteractionSeverity;
+  explanation: string;
+}
+
+// Generic and common brand names for each group, lowercase.
+export const DRUG_GROUPS: Record<string, { label: string; names: string[] }> = {
+  warfarin: { label: 'Warfarin', names: ['warfarin', 'coumadin', 'jantoven'] },
+  aspirin: { label: 'Aspirin', names: ['aspirin', 'asa', 'bayer', 'ecotrin'] },
+  nsaid: { label: 'NSAIDs', names: ['ibuprofen', 'advil', 'motrin', 'naproxen', 'aleve', 'naprosyn', 'diclofenac', 'meloxicam', 'celecoxib', 'celebrex', 'indomethacin', 'ketorolac'] },
+  aceInhibitor: { label: 'ACE inhibitors', names: ['lisinopril', 'zestril', 'prinivil', 'enalapril', 'vasotec', 'ramipril', 'altace', 'benazepril', 'lotensin', 'captopril', 'quinapril'] },
+  arb: { label: 'ARBs', names: ['losartan', 'cozaar', 'valsartan', 'diovan', 'irbesartan', 'olmesartan', 'telmisartan', 'candesartan'] },
+  potassiumSparing: { label: 'Potassium-sparing diuretics', names: ['spironolactone', 'aldactone', 'eplerenone', 'amiloride', 'triamterene'] },
+  potassium: { label: 'Potassium supplements', names: ['potassium chloride', 'klor-con', 'k-dur', 'potassium citrate'] },
+  simvastatin: { label: 'Simvastatin / lovastatin', names: ['simvastatin', 'zocor', 'lovastatin', 'mevacor'] },
+  strongCyp3a4Inhibitor: { label: 'Strong CYP3A4 inhibitors', names: ['clarithromycin', 'biaxin', 'itraconazole', 'ketoconazole', 'ritonavir', 'posaconazole'] },
+  amiodarone: { label: 'Amiodarone', names: ['amiodarone', 'cordarone', 'pacerone'] },
+  pde5Inhibitor: { label: 'PDE5 inhibitors', names: ['sildenafil', 'viagra', 'revatio', 'tadalafil', 'cialis', 'vardenafil', 'levitra'] },
+  nitrate: { label: 'Nitrates', names: ['nitroglycerin', 'nitrostat', 'isosorbide mononitrate', 'isosorbide dinitrate', 'imdur', 'isordil'] },
+  ssri: { label: 'SSRIs / SNRIs', names: ['sertraline', 'zoloft', 'fluoxetine', 'prozac', 'citalopram', 'celexa', 'escitalopram', 'lexapro', 'paroxetine', 'paxil', 'venlafaxine', 'effexor', 'duloxetine', 'cymbalta'] },
+  tramadol: { label: 'Tramadol', names: ['tramadol', 'ultram'] },
+  maoi: { label: 'MAO inhibitors', names: ['phenelzine', 'nardil', 'tranylcypromine', 'parnate', 'selegiline', 'isocarboxazid'] },
+  clopidogrel: { label: 'Clopidogrel', names: ['clopidogrel', 'plavix'] },
+  omeprazole: { label: 'Omeprazole / esomeprazole', names: ['omeprazole', 'prilosec', 'esomeprazole', 'nexium'] },
+  methotrexate: { label: 'Methotrexate', names: ['methotrexate', 'trexall', 'otrexup'] },
+  trimethoprim: { label: 'Trimethoprim-sulfamethoxazole', names: ['trimethoprim', 'sulfamethoxazole', 'bactrim', 'septra', 'smx-tmp'] },
+  digoxin: { label: 'Digoxin', names: ['digoxin', 'lanoxin'] },
+  lithium: { label: 'Lithium', names: ['lithium', 'lithobid'] },
+  levothyroxine: { label: 'Levothyroxine', names: ['levothyroxine', 'synthroid', 'levoxyl', 'unithroid', 'euthyrox'] },
+  calciumIron: { label: 'Calcium or iron supplements', names: ['calcium carbonate', 'tums', 'calcium citrate', 'ferrous sulfate', 'iron'] },
+  ciprofloxacin: { label: 'Ciprofloxacin', names: ['ciprofloxacin', 'cipro'] },
+  tizanidine: { label: 'Tizanidine', names: ['tizanidine', 'zanaflex'] },
+  opioid: { label: 'Opioids', names: ['oxycodone', 'oxycontin', 'percocet', 'hydrocodone', 'norco', 'vicodin', 'morphine', 'hydromorphone', 'dilaudid', 'fentanyl', 'codeine', 'methadone'] },
+  benzodiazepine: { label: 'Benzodiazepines', names: ['alprazolam', 'xanax', 'lorazepam', 'ativan', 'diazepam', 'valium', 'clonazepam', 'klonopin', 'temazepam'] },
+  allopurinol: { label: 'Allopurinol', names: ['allopurinol', 'zyloprim'] },
+  azathioprine: { label: 'Azathioprine', names: ['azathioprine', 'imuran'] },
+  fluconazole: { label: 'Fluconazole', names: ['fluconazole', 'diflucan'] },
+  metformin: { label: 'Metformin', names: ['metformin', 'glucophage'] },
+  topiramate: { label: 'Topiramate', names: ['topiramate', 'topamax'] },
+};
+
+export const INTERACTIONS: InteractionEntry[] = [
+  { a: 'warfarin', b: 'aspirin', severity: 'major', explanation: 'Both reduce blood clotting; taken together they significantly raise the risk of serious bleeding.' },
+  { a: 'warfarin', b: 'nsaid', severity: 'major', explanation: 'NSAIDs add to warfarin\'s bleeding risk and can cause stomach bleeding.' },
+  { a: 'warfarin', b: 'fluconazole', severity: 'major', explanation: 'Fluconazole slows the breakdown of warfarin, raising INR and bleeding risk.' },
+  { a: 'warfarin', b: 'trimethoprim', severity: 'major', explanation: 'Trimethoprim-sulfamethoxazole raises warfarin levels and INR, increasing bleeding risk.' },
+  { a: 'warfarin', b: 'amiodarone', severity: 'major', explanation: 'Amiodarone raises warfarin levels; the warfarin dose usually needs to be lowered and INR checked often.' },
+  { a: 'clopidogrel', b: 'omeprazole', severity: 'moderate', explanation: 'Omeprazole can reduce how well clopidogrel prevents clots.' },
+  { a: 'clopidogrel', b: 'nsaid', severity: 'moderate', explanation: 'Together they increase the risk of bleeding, especially in the stomach.' },
+  { a: 'aceInhibitor', b: 'potassiumSparing', severity: 'major', explanation: 'Both raise blood potassium; together they can cause dangerously high potassium levels.' },
+  { a: 'arb', b: 'potassiumSparing', severity: 'major', explanation: 'Both raise blood potassium; together they can cause dangerously high potassium levels.' },
+  { a: 'aceInhibitor', b: 'potassium', severity: 'moderate', explanation: 'ACE inhibitors keep potassium in the body, so supplements can push potassium too high.' },
+  { a: 'arb', b: 'potassium', severity: 'moderate', explanation: 'ARBs keep potassium in the body, so supplements can push potassium too high.' },
+  { a: 'aceInhibitor', b: 'arb', severity: 'major', explanation: 'Combining them raises the risk of high potassium, low blood pressure and kidney problems without added benefit for most people.' },
+  { a: 'aceInhibitor', b: 'nsaid', severity: 'moderate', explanation: 'NSAIDs can blunt the blood pressure effect and, together, strain the kidneys.' },
+  { a: 'arb', b: 'nsaid', severity: 'moderate', explanation: 'NSAIDs can blunt the blood pressure effect and, together, strain the kidneys.' },
+  { a: 'simvastatin', b: 'strongCyp3a4Inhibitor', severity: 'contraindicated', explanation: 'These drugs greatly raise statin levels, which can cause severe muscle breakdown (rhabdomyolysis).' },
+  { a: 'simvastatin', b: 'amiodarone', severity: 'major', explanation: 'Amiodarone raises statin levels and the risk of muscle damage; the statin dose is usually limited.' },
+  { a: 'pde5Inhibitor', b: 'nitrate', severity: 'contraindicated', explanation: 'Together they can cause a sudden, dangerous drop in blood pressure.' },
+  { a: 'ssri', b: 'tramadol', severity: 'major', explanation: 'Both raise serotonin; together they can cause serotonin syndrome and increase seizure risk.' },
+  { a: 'ssri', b: 'maoi', severity: 'contraindicated', explanation: 'This combination can cause life-threatening serotonin syndrome.' },
+  { a: 'tramadol', b: 'maoi', severity: 'contraindicated', explanation: 'This combination can cause life-threatening serotonin syndrome.' },
+  { a: 'ssri', b: 'nsaid', severity: 'moderate', explanation: 'Together they increase the risk of bleeding, especially in the stomach.' },
+  { a: 'ssri', b: 'warfarin', severity: 'moderate', explanation: 'SSRIs affect platelets and can add to warfarin\'s bleeding risk.' },
+  { a: 'methotrexate', b: 'trimethoprim', severity: 'major', explanation: 'Trimethoprim-sulfamethoxazole can raise methotrexate toxicity, including dangerous drops in blood counts.' },
+  { a: 'methotrexate', b: 'nsaid', severity: 'moderate', explanation: 'NSAIDs can reduce how the kidneys clear methotrexate, raising its side effects.' },
+  { a: 'digoxin', b: 'amiodarone', severity: 'major', explanation: 'Amiodarone raises digoxin levels, which can cause digoxin toxicity; the digoxin dose is usually lowered.' },
+  { a: 'lithium', b: 'nsaid', severity: 'major', explanation: 'NSAIDs reduce lithium clearance and can lead to lithium toxicity.' },
+  { a: 'lithium', b: 'aceInhibitor', severity: 'major', explanation: 'ACE inhibitors can raise lithium levels and lead to lithium toxicity.' },
+  { a: 'lithium', b: 'arb', severity: 'major', explanation: 'ARBs can raise lithium levels and lead to lithium toxicity.' },
+  { a: 'levothyroxine', b: 'calciumIron', severity: 'moderate', explanation: 'Calcium and iron block levothyroxine absorption; take them at least 4 hours apart.' },
+  { a: 'ciprofloxacin', b: 'tizanidine', severity: 'contraindicated', explanation: 'Ciprofloxacin greatly raises tizanidine levels, which can cause very low blood pressure and heavy sedation.' },
+  { a: 'ciprofloxacin', b: 'calciumIron', severity: 'moderate', explanation: 'Calcium and iron block ciprofloxacin absorption; take ciprofloxacin 2 hours before or 6 hours after.' },
+  { a: 'opioid', b: 'benzodiazepine', severity: 'major', explanation: 'Together they can slow or stop breathing and cause extreme sleepiness.' },
+  { a: 'allopurinol', b: 'azathioprine', severity: 'major', explanation: 'Allopurinol raises azathioprine levels, which can severely lower blood counts.' },
+  { a: 'metformin', b: 'topiramate', severity: 'minor', explanation: 'Topiramate can raise the risk of lactic acidosis with metformin; usually only monitoring is needed.' },
+];
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { buildTrendSeries, containsLabValues, findHistorySeriesForQuestion, LabReport } from './labHistory';
+import { LabResult } from './labResults';
+
+const row = (analyte: string, value: number, unit: string): LabResult => ({
+  analyte,
+  value,
+  valueText: String(value),
+  unit,
+  referenceLow: null,
+  referenceHigh: null,
+  referenceRange: '',
+  flag: null,
+  collectionDate: null,
+});
+
+const report = (id: string, collectionDate: string, results: LabResult[]): LabReport => ({
+  id,
+  collectionDate,
+  savedAt: `${collectionDate}T00:00:00.000Z`,
+  panel: { collectionDate, results },
+});
+
+const SERIES = buildTrendSeries([
+  report('r1', '2024-06-01', [row('Hemoglobin A1c', 7.2, '%'), row('Glucose', 6.1, 'mmol/L')]),
+  report('r2', '2025-01-15', [row('HbA1c', 6.8, '%'), row('Glucose', 120, 'mg/dL')]),
+]);
+
+describe('buildTrendSeries', () => {
+  it('merges analyte aliases and converts units', () => {
+    const glucose = SERIES.find(series => series.key === 'glucose')!;
+    expect(glucose.unit).toBe('mg/dL');
+    expect(glucose.points.map(point => point.value)).toEqual([109.9, 120]);
+    expect(SERIES.find(series => series.key === 'a1c')!.points).toHaveLength(2);
+  });
+});
+
+describe('findHistorySeriesForQuestion', () => {
+  it('answers questions about a stored analyte from the history', () => {
+    expect(findHistorySeriesForQuestion('How has my A1c changed?', SERIES).map(series => series.key)).toEqual(['a1c']);
+    expect(findHistorySeriesForQuestion('how has my a1c changed', SERIES).map(series => series.key)).toEqual(['a1c']);
+    expect(findHistorySeriesForQuestion('Have my labs improved over time?', SERIES)).toHaveLength(SERIES.length);
+  });
+
+  it('leaves pasted reports that mention earlier results to be parsed', () => {
+    const pasted = 'Glucose: 120 mg/dL (H)\nHemoglobin A1c: 6.8 % (H)\nPrevious A1c 7.2 %, change -0.4';
+    expect(containsLabValues(pasted)).toBe(true);
+    expect(findHistorySeriesForQuestion(pasted, SERIES)).toEqual([]);
+    expect(findHistorySeriesForQuestion('Glucose 120 mg/dL, compared with 110 last time', SERIES)).toEqual([]);
+  });
+
+  it('ignores text that is not about the history', () => {
+    expect(findHistorySeriesForQuestion('What is a normal A1c?', SERIES)).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { LabFlag, LabPanel } from "./labResults";
+import { findMentionedAnalytes, normalizeLabResult } from "./labNormalization";
+import { deleteRecord, getAllRecords, putRecord, STORES } from "./localDb";
+
+export interface LabReport {
+  id: string;
+  collectionDate: string; // ISO date (YYYY-MM-DD); the save date if the report had none
+  savedAt: string; // ISO timestamp
+  panel: LabPanel;
+}
+
+export interface LabTrendPoint {
+  date: string;
+  value: number;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  flag: LabFlag | null;
+}
+
+export interface LabTrendSeries {
+  key: string;
+  name: string;
+  unit: string;
+  points: LabTrendPoint[];
+}
+
+/**
+ * Stores a parsed lab report in the local history.
+ * @returns The saved report.
+ */
+export async function saveLabReport(panel: LabPanel): Promise<LabReport> {
+  const now = new Date();
+  const report: LabReport = {
+    id: crypto.randomUUID(),
+    collectionDate: panel.collectionDate ?? now.toISOString().slice(0, 10),
+    savedAt: now.toISOString(),
+    panel,
+  };
+  await putRecord(STORES.labReports, report);
+  return report;
+}
+
+/**
+ * Loads every stored lab report, oldest collection date first.
+ */
+export async function loadLabReports(): Promise<LabReport[]> {
+  const reports = await getAllRecords<LabReport>(STORES.labReports);
+  return reports.sort((a, b) => a.collectionDate.localeCompare(b.collectionDate) || a.savedAt.localeCompare(b.savedAt));
+}
+
+export const deleteLabReport = (id: string): Promise<void> => deleteRecord(STORES.labReports, id);
+
+/**
+ * Groups every numeric result in the history into one normalized series per analyte.
+ * @param reports Stored reports, oldest first.
+ * @returns Series sorted by analyte name; each series' points are in date order.
+ */
+export function buildTrendSeries(reports: LabReport[]): LabTrendSeries[] {
+  const seriesByKey = new Map<string, LabTrendSeries>();
+  reports.forEach(report => {
+    report.panel.results.forEach(row => {
+      const normalized = normalizeLabResult(row);
+      if (!normalized) return;
+      const series = seriesByKey.get(normalized.key) ?? { key: normalized.key, name: normalized.name, unit: normalized.unit, points: [] };
+      // Unknown analytes reported in different units cannot share a chart.
+      if (series.unit !== normalized.unit) return;
+      series.points.push({
+        date: row.collectionDate ?? report.collectionDate,
+        value: normalized.value,
+        referenceLow: normalized.referenceLow,
+        referenceHigh: normalized.referenceHigh,
+        flag: row.flag,
+      });
+      seriesByKey.set(normalized.key, series);
+    });
+  });
+  return [...seriesByKey.values()]
+    .map(series => ({ ...series, points: series.points.sort((a, b) => a.date.localeCompare(b.date)) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// A number that isn't part of a name such as "A1c" or "B12"
+const STANDALONE_NUMBER_REGEX = /(?<![a-z\d.])\d+(?:\.\d+)?/i;
+const HISTORY_QUESTION_REGEX = /\b(chang(e|ed|ing)|trend(s|ing)?|over time|history|improv(e|ed|ing)|wors(e|en|ened)|compare(d)?|previous|last time|going (up|down))\b/i;
+
+/**
+ * Whether the text carries lab values of its own, e.g. a pasted report with "Glucose: 120 mg/dL
+ * (previous: 110)". A line that names an analyte next to a number counts, unless it is a question.
+ */
+export const containsLabValues = (text: string): boolean =>
+  text.split(/\n|;/).some(line =>
+    STANDALONE_NUMBER_REGEX.test(line) && !line.trim().endsWith('?') && findMentionedAnalytes(line).length > 0);
+
+/**
+ * Returns the series a question is asking about, e.g. "how has my A1c changed?" -> the A1c series.
+ * Returns an empty list when the text is not a question about the stored history, including lab
+ * reports that merely mention earlier results; those are parsed instead.
+ */
+export function findHistorySeriesForQuestion(question: string, series: LabTrendSeries[]): LabTrendSeries[] {
+  if (!HISTORY_QUESTION_REGEX.test(question) || containsLabValues(question)) return [];
+  const mentioned = findMentionedAnalytes(question);
+  if (mentioned.length === 0) {
+    // "Have my labs changed?" asks about everything on file.
+    return /\b(labs?|results?|blood ?work|tests?)\b/i.test(question) ? series : [];
+  }
+  return series.filter(entry => mentioned.includes(entry.key));
+}
+
+/**
+ * Builds a prompt that answers a question using the stored history of the given analytes.
+ */
+export function buildLabHistoryPrompt(question: string, series: LabTrendSeries[]): string {
+  const history = series.map(entry => {
+    const rows = entry.points.map(point => {
+      const range = point.referenceLow !== null || point.referenceHigh !== null
+        ? ` (reference ${point.referenceLow ?? ''}-${point.referenceHigh ?? ''} ${entry.unit})`
+        : '';
+      return `- ${point.date}: ${point.value} ${entry.unit}${range}${point.flag && point.flag !== 'normal' ? ` [${point.flag}]` : ''}`;
+    });
+    return `${entry.name}:\n${rows.join('\n')}`;
+  }).join('\n\n');
+
+  return `Answer the patient's question about their lab results using the history below, in simple terms. Describe how the values have changed over time, whether they are moving toward or away from the reference range, and what questions the patient could ask their doctor. Quote values exactly as listed.
+
+Question: "${question}"
+
+Lab History (values converted to common units):
+${history}`;
+}
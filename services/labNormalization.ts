@@ -0,0 +1,196 @@
+import { LabResult } from "./labResults";
+
+interface AnalyteDefinition {
+  key: string;
+  name: string;
+  aliases: string[];
+  unit: string; // Canonical unit every value is converted to
+  conversions?: Record<string, (value: number) => number>; // Keyed by canonical source unit
+}
+
+// Conversion factors from standard clinical references (e.g. glucose 1 mmol/L = 18.016 mg/dL).
+const ANALYTES: AnalyteDefinition[] = [
+  {
+    key: 'glucose',
+    name: 'Glucose',
+    aliases: ['glucose', 'glucose fasting', 'fasting glucose', 'blood glucose', 'glucose serum', 'glu', 'fbg', 'fasting blood sugar'],
+    unit: 'mg/dL',
+    conversions: { 'mmol/L': value => value * 18.016 },
+  },
+  {
+    key: 'a1c',
+    name: 'Hemoglobin A1c',
+    aliases: ['hemoglobin a1c', 'haemoglobin a1c', 'hba1c', 'a1c', 'hgb a1c', 'glycated hemoglobin', 'glycohemoglobin'],
+    unit: '%',
+    conversions: { 'mmol/mol': value => value / 10.929 + 2.15 },
+  },
+  {
+    key: 'cholesterol-total',
+    name: 'Total Cholesterol',
+    aliases: ['cholesterol total', 'total cholesterol', 'cholesterol', 'chol'],
+    unit: 'mg/dL',
+    conversions: { 'mmol/L': value => value * 38.67 },
+  },
+  {
+    key: 'ldl',
+    name: 'LDL Cholesterol',
+    aliases: ['ldl', 'ldl cholesterol', 'ldl-c', 'ldl calculated', 'ldl cholesterol calc'],
+    unit: 'mg/dL',
+    conversions: { 'mmol/L': value => value * 38.67 },
+  },
+  {
+    key: 'hdl',
+    name: 'HDL Cholesterol',
+    aliases: ['hdl', 'hdl cholesterol', 'hdl-c'],
+    unit: 'mg/dL',
+    conversions: { 'mmol/L': value => value * 38.67 },
+  },
+  {
+    key: 'triglycerides',
+    name: 'Triglycerides',
+    aliases: ['triglycerides', 'triglyceride', 'trig', 'tg'],
+    unit: 'mg/dL',
+    conversions: { 'mmol/L': value => value * 88.57 },
+  },
+  {
+    key: 'creatinine',
+    name: 'Creatinine',
+    aliases: ['creatinine', 'creatinine serum', 'creat', 'cr'],
+    unit: 'mg/dL',
+    conversions: { 'µmol/L': value => value / 88.42 },
+  },
+  {
+    key: 'egfr',
+    name: 'eGFR',
+    aliases: ['egfr', 'estimated gfr', 'gfr estimated', 'egfr non-afr. american', 'egfr ckd-epi'],
+    unit: 'mL/min/1.73m²',
+  },
+  {
+    key: 'hemoglobin',
+    name: 'Hemoglobin',
+    aliases: ['hemoglobin', 'haemoglobin', 'hgb', 'hb'],
+    unit: 'g/dL',
+    conversions: { 'g/L': value => value / 10, 'mmol/L': value => value * 1.611 },
+  },
+  {
+    key: 'tsh',
+    name: 'TSH',
+    aliases: ['tsh', 'thyroid stimulating hormone', 'thyrotropin'],
+    unit: 'mIU/L',
+    conversions: { 'µIU/mL': value => value },
+  },
+  {
+    key: 'potassium',
+    name: 'Potassium',
+    aliases: ['potassium', 'k', 'potassium serum'],
+    unit: 'mmol/L',
+    conversions: { 'mEq/L': value => value },
+  },
+  {
+    key: 'sodium',
+    name: 'Sodium',
+    aliases: ['sodium', 'na', 'sodium serum'],
+    unit: 'mmol/L',
+    conversions: { 'mEq/L': value => value },
+  },
+];
+
+// Spellings of the same unit, keyed by a lowercased, space-free form.
+const UNIT_SPELLINGS: Record<string, string> = {
+  'mg/dl': 'mg/dL',
+  'mmol/l': 'mmol/L',
+  'mmol/mol': 'mmol/mol',
+  'umol/l': 'µmol/L',
+  'µmol/l': 'µmol/L',
+  'μmol/l': 'µmol/L',
+  'g/dl': 'g/dL',
+  'g/l': 'g/L',
+  'meq/l': 'mEq/L',
+  'miu/l': 'mIU/L',
+  'uiu/ml': 'µIU/mL',
+  'µiu/ml': 'µIU/mL',
+  'μiu/ml': 'µIU/mL',
+  '%': '%',
+  'ml/min/1.73m2': 'mL/min/1.73m²',
+  'ml/min/1.73m²': 'mL/min/1.73m²',
+};
+
+export interface NormalizedLabValue {
+  key: string;
+  name: string;
+  value: number;
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+}
+
+const simplifyName = (name: string): string =>
+  name.toLowerCase().replace(/[(),.:]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Returns the canonical spelling of a unit, or the input trimmed if it is not recognised.
+ */
+export const canonicalUnit = (unit: string): string =>
+  UNIT_SPELLINGS[unit.toLowerCase().replace(/\s+/g, '')] ?? unit.trim();
+
+const findAnalyte = (name: string): AnalyteDefinition | undefined => {
+  const simplified = simplifyName(name);
+  return ANALYTES.find(analyte => analyte.aliases.includes(simplified));
+};
+
+/**
+ * Maps an analyte name as printed on a report to a stable key, e.g. "HbA1c" and "Hemoglobin A1c" both to "a1c".
+ * Unknown analytes get a key derived from their simplified name.
+ */
+export const analyteKey = (name: string): string =>
+  findAnalyte(name)?.key ?? simplifyName(name);
+
+/**
+ * Normalizes a parsed lab row to its canonical analyte name and unit, converting the value and
+ * reference bounds where a conversion is known. Returns null for non-numeric results, or when the
+ * unit cannot be converted to the analyte's canonical unit.
+ */
+export function normalizeLabResult(row: LabResult): NormalizedLabValue | null {
+  if (row.value === null) return null;
+
+  const analyte = findAnalyte(row.analyte);
+  const unit = canonicalUnit(row.unit);
+  if (!analyte) {
+    return {
+      key: simplifyName(row.analyte),
+      name: row.analyte,
+      value: row.value,
+      unit,
+      referenceLow: row.referenceLow,
+      referenceHigh: row.referenceHigh,
+    };
+  }
+
+  let convert: ((value: number) => number) | undefined;
+  if (unit === analyte.unit || unit === '') {
+    convert = value => value;
+  } else {
+    convert = analyte.conversions?.[unit];
+  }
+  if (!convert) return null;
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    key: analyte.key,
+    name: analyte.name,
+    value: round(convert(row.value)),
+    unit: analyte.unit,
+    referenceLow: row.referenceLow !== null ? round(convert(row.referenceLow)) : null,
+    referenceHigh: row.referenceHigh !== null ? round(convert(row.referenceHigh)) : null,
+  };
+}
+
+/**
+ * Finds the known analytes mentioned in free text, e.g. "how has my A1c changed?" -> ["a1c"].
+ */
+export function findMentionedAnalytes(text: string): string[] {
+  const simplified = ` ${simplifyName(text).replace(/[^a-z0-9% -]/g, ' ')} `;
+  return ANALYTES
+    .filter(analyte => analyte.aliases.some(alias => alias.length > 2 && simplified.includes(` ${alias} `)))
+    .map(analyte => analyte.key);
+}
@@ -0,0 +1,189 @@
+import { Schema, Type } from "@google/genai";
+import { callGemini } from "./geminiService";
+
+export type LabFlag = 'H' | 'L' | 'critical' | 'normal';
+
+export interface LabResult {
+  analyte: string;
+  value: number | null; // Numeric value, or null for qualitative results such as "Negative"
+  valueText: string; // Value exactly as printed on the report
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  referenceRange: string; // Reference range exactly as printed, e.g. "70-99"
+  flag: LabFlag | null;
+  collectionDate: string | null; // ISO date (YYYY-MM-DD)
+}
+
+export interface LabPanel {
+  collectionDate: string | null;
+  results: LabResult[];
+}
+
+const LAB_FLAGS: LabFlag[] = ['H', 'L', 'critical', 'normal'];
+
+export const LAB_PANEL_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    collectionDate: { type: Type.STRING, nullable: true, description: 'Collection date of the report as YYYY-MM-DD, if shown.' },
+    results: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          analyte: { type: Type.STRING, description: 'Name of the test, e.g. "Glucose".' },
+          value: { type: Type.NUMBER, nullable: true, description: 'Numeric result, or null if the result is not a number.' },
+          valueText: { type: Type.STRING, description: 'The result exactly as printed.' },
+          unit: { type: Type.STRING, description: 'Unit of the result, e.g. "mg/dL". Empty if none.' },
+          referenceLow: { type: Type.NUMBER, nullable: true },
+          referenceHigh: { type: Type.NUMBER, nullable: true },
+          referenceRange: { type: Type.STRING, description: 'Reference range exactly as printed. Empty if none.' },
+          flag: { type: Type.STRING, enum: LAB_FLAGS, nullable: true, description: 'H for high, L for low, critical for critical values, normal if within range.' },
+          collectionDate: { type: Type.STRING, nullable: true, description: 'Collection date of this result as YYYY-MM-DD, if it differs from the report date.' },
+        },
+        required: ['analyte', 'valueText', 'unit', 'referenceRange'],
+        propertyOrdering: ['analyte', 'value', 'valueText', 'unit', 'referenceLow', 'referenceHigh', 'referenceRange', 'flag', 'collectionDate'],
+      },
+    },
+  },
+  required: ['results'],
+  propertyOrdering: ['collectionDate', 'results'],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const asNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : '';
+
+const asDate = (value: unknown): string | null =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? value.trim() : null;
+
+/**
+ * Derives a flag from the reference range when the report did not print one.
+ */
+const deriveFlag = (value: number | null, low: number | null, high: number | null): LabFlag | null => {
+  if (value === null || (low === null && high === null)) return null;
+  if (high !== null && value > high) return 'H';
+  if (low !== null && value < low) return 'L';
+  return 'normal';
+};
+
+/**
+ * Parses and validates the model's JSON output into a LabPanel.
+ * Rows without an analyte name are dropped; anything that is not a panel at all throws.
+ * @param json The raw JSON text returned by the model.
+ * @returns The validated LabPanel.
+ */
+export function parseLabPanel(json: string): LabPanel {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Lab result extraction returned invalid JSON.');
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.results)) {
+    throw new Error('Lab result extraction did not return a list of results.');
+  }
+
+  const panelDate = asDate(raw.collectionDate);
+  const rows: unknown[] = raw.results;
+  const results: LabResult[] = rows
+    .filter((row): row is Record<string, unknown> => isRecord(row) && asString(row.analyte) !== '')
+    .map((row): LabResult => {
+      const value = asNumber(row.value);
+      const referenceLow = asNumber(row.referenceLow);
+      const referenceHigh = asNumber(row.referenceHigh);
+      const flag = LAB_FLAGS.find(known => known === row.flag) ?? deriveFlag(value, referenceLow, referenceHigh);
+      return {
+        analyte: asString(row.analyte),
+        value,
+        valueText: asString(row.valueText) || (value !== null ? String(value) : ''),
+        unit: asString(row.unit),
+        referenceLow,
+        referenceHigh,
+        referenceRange: asString(row.referenceRange),
+        flag,
+        collectionDate: asDate(row.collectionDate) ?? panelDate,
+      };
+    });
+
+  if (results.length === 0) {
+    throw new Error('No lab results could be found in the provided text or image.');
+  }
+  return { collectionDate: panelDate, results };
+}
+
+/**
+ * Extracts a structured LabPanel from lab report text and/or page images.
+ * @param text The lab report text (may be empty if images are given).
+ * @param imageFiles Images of the report's pages, in order.
+ * @returns A Promise resolving to the validated LabPanel.
+ */
+export async function extractLabPanel(text: string, imageFiles: File[] = []): Promise<LabPanel> {
+  const attached = imageFiles.length > 1 ? `the attached ${imageFiles.length} page images` : 'the attached image';
+  const source = imageFiles.length > 0 && text.trim()
+    ? `the following text and ${attached}. Combine information from both.\n\nLab Results: "${text}"`
+    : imageFiles.length > 0
+      ? `${attached}.`
+      : `the following text.\n\nLab Results: "${text}"`;
+
+  const response = await callGemini({
+    prompt: `Extract every lab result from ${source}\n\nCopy values, units and reference ranges exactly as printed. Do not interpret the results.`,
+    systemInstruction: "You are a careful medical data extractor. You transcribe lab reports accurately and never invent values.",
+    imageFiles,
+    responseSchema: LAB_PANEL_SCHEMA,
+  });
+  return parseLabPanel(response.text);
+}
+
+const formatRow = (row: LabResult): string =>
+  `| ${row.analyte} | ${row.valueText} | ${row.unit} | ${row.referenceRange || 'n/a'} | ${row.flag ?? 'n/a'} | ${row.collectionDate ?? 'n/a'} |`;
+
+/**
+ * Builds the explanation prompt from parsed rows, so the prose is based on the same numbers as the table.
+ */
+export function buildLabExplanationPrompt(panel: LabPanel): string {
+  const table = [
+    '| Analyte | Value | Unit | Reference Range | Flag | Collected |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...panel.results.map(formatRow),
+  ].join('\n');
+
+  return `Explain the following lab results in simple terms for a patient, highlighting what is normal, what is abnormal, and what it might mean. When you mention a value or range, quote it exactly as it appears in the table, with its unit.
+
+Lab Results:
+${table}`;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds numbers quoted with a unit in the explanation that do not appear as a value
+ * or reference bound for that unit in the table.
+ * @returns The mismatched mentions, e.g. ["130 mg/dL"].
+ */
+export function findUnmatchedLabNumbers(explanation: string, panel: LabPanel): string[] {
+  const knownByUnit = new Map<string, Set<number>>();
+  panel.results.forEach(row => {
+    if (!row.unit) return;
+    const known = knownByUnit.get(row.unit) ?? new Set<number>();
+    [row.value, row.referenceLow, row.referenceHigh].forEach(n => n !== null && known.add(n));
+    (row.referenceRange.match(/\d+(?:\.\d+)?/g) ?? []).forEach(n => known.add(Number(n)));
+    knownByUnit.set(row.unit, known);
+  });
+
+  const unmatched: string[] = [];
+  knownByUnit.forEach((known, unit) => {
+    const mentionRegex = new RegExp(`(\\d+(?:\\.\\d+)?)\\s*${escapeRegExp(unit)}(?![A-Za-z])`, 'g');
+    for (const match of explanation.matchAll(mentionRegex)) {
+      if (!known.has(Number(match[1])) && !unmatched.includes(match[0])) {
+        unmatched.push(match[0]);
+      }
+    }
+  });
+  return unmatched;
+}
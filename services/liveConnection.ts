@@ -0,0 +1,100 @@
+export type LiveConnectionState = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'ended';
+
+export const CONNECTION_STATE_LABELS: Record<LiveConnectionState, string> = {
+  idle: 'Not connected',
+  connecting: 'Connecting…',
+  live: 'Live',
+  reconnecting: 'Reconnecting…',
+  ended: 'Ended',
+};
+
+export type LiveFailureKind = 'permission-denied' | 'no-microphone' | 'microphone-busy' | 'quota' | 'network' | 'server-closed' | 'unknown';
+
+export interface LiveFailure {
+  kind: LiveFailureKind;
+  message: string; // Shown to the user
+  retryable: boolean; // Whether reconnecting could help
+}
+
+export const MAX_RECONNECT_ATTEMPTS = 5;
+export const MAX_BUFFERED_AUDIO_MS = 30000; // Mic audio kept while reconnecting; older audio is dropped
+
+const FAILURES: Record<LiveFailureKind, LiveFailure> = {
+  'permission-denied': {
+    kind: 'permission-denied',
+    message: 'Microphone access was denied. Allow the microphone for this site in your browser settings, then try again.',
+    retryable: false,
+  },
+  'no-microphone': {
+    kind: 'no-microphone',
+    message: 'No microphone was found. Connect a microphone or headset, then try again.',
+    retryable: false,
+  },
+  'microphone-busy': {
+    kind: 'microphone-busy',
+    message: 'Your microphone could not be started. Close other apps that may be using it, then try again.',
+    retryable: false,
+  },
+  quota: {
+    kind: 'quota',
+    message: 'The Live API usage limit has been reached. Wait a few minutes or check your API plan, then try again.',
+    retryable: false,
+  },
+  network: {
+    kind: 'network',
+    message: 'The network connection was lost.',
+    retryable: true,
+  },
+  'server-closed': {
+    kind: 'server-closed',
+    message: 'The Live service ended the session.',
+    retryable: false,
+  },
+  unknown: {
+    kind: 'unknown',
+    message: 'The live conversation encountered an error.',
+    retryable: true,
+  },
+};
+
+const QUOTA_PATTERN = /quota|RESOURCE_EXHAUSTED|rate limit|\b429\b/i;
+const NETWORK_PATTERN = /network|failed to fetch|websocket|offline|timed? ?out/i;
+
+/**
+ * Maps a failure from getUserMedia, the audio pipeline or the Live API to a user-facing message.
+ */
+export function classifyLiveError(error: unknown): LiveFailure {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  const message = error instanceof ErrorEvent ? error.message : error instanceof Error ? error.message : String(error ?? '');
+
+  if (name === 'NotAllowedError' || name === 'SecurityError') return FAILURES['permission-denied'];
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return FAILURES['no-microphone'];
+  if (name === 'NotReadableError') return FAILURES['microphone-busy'];
+  if (QUOTA_PATTERN.test(message)) return FAILURES.quota;
+  if (!navigator.onLine || NETWORK_PATTERN.test(message)) return FAILURES.network;
+  return message ? { ...FAILURES.unknown, message: `${FAILURES.unknown.message} ${message}` } : FAILURES.unknown;
+}
+
+/**
+ * Maps a close of the Live WebSocket that the app did not ask for.
+ */
+export function classifyLiveClose(event: CloseEvent): LiveFailure {
+  if (QUOTA_PATTERN.test(event.reason)) return FAILURES.quota;
+  // 1008 (policy violation) is used for invalid keys and unsupported settings; retrying will not help
+  if (event.code === 1008) {
+    return { kind: 'unknown', message: `The Live service rejected the session${event.reason ? `: ${event.reason}` : '.'}`, retryable: false };
+  }
+  // 1000 is a normal close: the server chose to end the session, so reconnecting would only reopen it
+  if (event.code === 1000) return FAILURES['server-closed'];
+  if (!event.wasClean || event.code === 1006 || !navigator.onLine) return FAILURES.network;
+  return { ...FAILURES.unknown, message: `The Live service closed the session unexpectedly${event.reason ? `: ${event.reason}` : '.'}` };
+}
+
+/**
+ * Exponential backoff with jitter: about 1s, 2s, 4s, 8s, 16s, capped at 30s.
+ * @param attempt The reconnect attempt, starting at 1.
+ */
+export function backoffDelay(attempt: number): number {
+  const base = Math.min(30000, 1000 * 2 ** (attempt - 1));
+  return base / 2 + Math.random() * base / 2;
+}
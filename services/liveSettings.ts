@@ -0,0 +1,113 @@
+import { LiveConnectConfig } from "@google/genai";
+import { AppLanguage, languageName } from "./i18n";
+import { READING_LEVEL_DESCRIPTIONS, ReadingLevel } from "./patientProfile";
+
+const SETTINGS_STORAGE_KEY = 'liveSettings.v1';
+
+export type SpeakingPace = 'slow' | 'normal' | 'fast';
+export type AdvocatePersona = 'calm-explainer' | 'concise-checklist' | 'encouraging-coach';
+export type MicMode = 'always-on' | 'push-to-talk';
+
+export interface LiveSettings {
+  voice: string; // A Live API prebuilt voice name
+  pace: SpeakingPace;
+  readingLevel: ReadingLevel;
+  persona: AdvocatePersona;
+  micMode: MicMode;
+}
+
+export const DEFAULT_LIVE_SETTINGS: LiveSettings = {
+  voice: 'Zephyr',
+  pace: 'normal',
+  readingLevel: 'standard',
+  persona: 'calm-explainer',
+  micMode: 'always-on',
+};
+
+export const LIVE_VOICES: { name: string; description: string }[] = [
+  { name: 'Zephyr', description: 'Bright' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Orus', description: 'Firm' },
+  { name: 'Aoede', description: 'Breezy' },
+];
+
+export const PACE_LABELS: Record<SpeakingPace, string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast',
+};
+
+export const PERSONA_LABELS: Record<AdvocatePersona, string> = {
+  'calm-explainer': 'Calm explainer',
+  'concise-checklist': 'Concise checklist',
+  'encouraging-coach': 'Encouraging coach',
+};
+
+const PACE_INSTRUCTIONS: Record<SpeakingPace, string> = {
+  slow: 'Speak slowly and pause between sentences, as the patient may need time to follow.',
+  normal: 'Speak at a natural, relaxed pace.',
+  fast: 'Speak at a brisk pace and keep answers short.',
+};
+
+const PERSONA_INSTRUCTIONS: Record<AdvocatePersona, string> = {
+  'calm-explainer': 'You are a calm, patient medical advocate who explains things step by step and checks that the patient understood.',
+  'concise-checklist': 'You are a concise medical advocate who answers with short, numbered action items and skips small talk.',
+  'encouraging-coach': 'You are a warm, encouraging medical advocate who reassures the patient and helps them feel ready to speak up with their doctor.',
+};
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+/**
+ * Reads the saved settings, falling back to the defaults for anything missing or no longer offered.
+ */
+export function loadLiveSettings(): LiveSettings {
+  let stored: Partial<Record<keyof LiveSettings, unknown>> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? '{}') ?? {};
+  } catch {
+    // Corrupt settings are replaced on the next save
+  }
+  return {
+    voice: isOneOf(stored.voice, LIVE_VOICES.map(voice => voice.name)) ? stored.voice : DEFAULT_LIVE_SETTINGS.voice,
+    pace: isOneOf(stored.pace, Object.keys(PACE_LABELS) as SpeakingPace[]) ? stored.pace : DEFAULT_LIVE_SETTINGS.pace,
+    readingLevel: isOneOf(stored.readingLevel, Object.keys(READING_LEVEL_DESCRIPTIONS) as ReadingLevel[]) ? stored.readingLevel : DEFAULT_LIVE_SETTINGS.readingLevel,
+    persona: isOneOf(stored.persona, Object.keys(PERSONA_LABELS) as AdvocatePersona[]) ? stored.persona : DEFAULT_LIVE_SETTINGS.persona,
+    micMode: isOneOf(stored.micMode, ['always-on', 'push-to-talk'] as MicMode[]) ? stored.micMode : DEFAULT_LIVE_SETTINGS.micMode,
+  };
+}
+
+export const saveLiveSettings = (settings: LiveSettings): void =>
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+
+/**
+ * Builds the advocate's system instruction for a conversation from the persona, pace and reading level.
+ * @param language The app's output language, which the advocate speaks too.
+ */
+export function buildAdvocateInstruction(settings: LiveSettings, language: AppLanguage): string {
+  return [
+    PERSONA_INSTRUCTIONS[settings.persona],
+    'You explain medical terms, help prepare for appointments, summarize notes, and explain lab results.',
+    // Native audio models pick their output language themselves and reject a language code, so ask in the instruction
+    `Always answer in ${languageName(language)}, even if the patient speaks another language.`,
+    PACE_INSTRUCTIONS[settings.pace],
+    `Use ${READING_LEVEL_DESCRIPTIONS[settings.readingLevel]}.`,
+  ].join(' ');
+}
+
+/**
+ * The parts of the Live connect config that come from the settings.
+ * @param pushToTalk Whether the app marks the start and end of each turn instead of the server detecting speech.
+ */
+export function buildLiveSettingsConfig(settings: LiveSettings, pushToTalk: boolean): Pick<LiveConnectConfig, 'speechConfig' | 'realtimeInputConfig'> {
+  return {
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } },
+    },
+    ...(pushToTalk && { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } }),
+  };
+}
@@ -0,0 +1,239 @@
+import { FunctionCall, FunctionDeclaration, Type } from "@google/genai";
+import { AppointmentQuestion } from "./appointmentQuestions";
+import { checkInteractions } from "./drugInteractions";
+import { LabTrendPoint, LabTrendSeries } from "./labHistory";
+import { analyteKey, findMentionedAnalytes } from "./labNormalization";
+import { describeMedication, isActiveMedication, Medication, MedicationDraft, normalizeMedicationName } from "./medications";
+import { parseReminderTime, Reminder } from "./reminders";
+
+export type LiveToolName = 'lookupMedication' | 'addQuestionToAppointmentList' | 'addMedication' | 'explainLabValue' | 'setReminder';
+
+/**
+ * The app data and actions the tools run against. Read when each call arrives, so tools see the latest state.
+ */
+export interface LiveToolContext {
+  medications: Medication[];
+  labSeries: LabTrendSeries[];
+  addQuestion: (text: string) => Promise<AppointmentQuestion | null>; // Resolves to null if the question is already listed
+  addMedication: (draft: MedicationDraft) => Promise<Medication>;
+  addReminder: (text: string, dueAt: Date) => Promise<Reminder>;
+}
+
+export interface LiveToolResult {
+  response: Record<string, unknown>; // Sent back to the model
+  summary: string; // Shown in the activity list
+}
+
+export const LIVE_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'lookupMedication',
+    description: "Looks up a medication on the patient's saved medication list, with any known interactions with their other active medications.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: 'Medication name, e.g. "lisinopril".' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'addQuestionToAppointmentList',
+    description: "Adds a question to the list the patient will bring to their next appointment. Only call this when the patient asks for a question to be added.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        question: { type: Type.STRING, description: 'The question, phrased as the patient would ask their doctor.' },
+      },
+      required: ['question'],
+    },
+  },
+  {
+    name: 'addMedication',
+    description: "Adds a medication the patient says they take to their saved medication list.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: 'Medication name.' },
+        dose: { type: Type.STRING, description: 'Strength or dose, e.g. "10 mg". Empty if not stated.' },
+        route: { type: Type.STRING, description: 'Route, e.g. "oral". Empty if not stated.' },
+        frequency: { type: Type.STRING, description: 'How often it is taken, e.g. "once daily". Empty if not stated.' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'explainLabValue',
+    description: "Returns the patient's stored results for a lab test (latest value, previous value, reference range and flag), so you can explain them.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        analyte: { type: Type.STRING, description: 'Lab test name, e.g. "A1c" or "LDL cholesterol".' },
+      },
+      required: ['analyte'],
+    },
+  },
+  {
+    name: 'setReminder',
+    description: 'Sets a reminder that the app shows the patient at the given time.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: 'What to remind the patient about.' },
+        time: { type: Type.STRING, description: 'When to remind them, as a local ISO 8601 date-time without a time zone, e.g. "2025-03-14T08:00".' },
+      },
+      required: ['text', 'time'],
+    },
+  },
+];
+
+/**
+ * Tells the model when to use the tools. Includes the current local time so it can resolve "tomorrow at 8".
+ */
+export function buildLiveToolsInstruction(now = new Date()): string {
+  const localTime = new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+  return `You can use tools to look up the patient's saved medications and lab results, add questions to their appointment list, add medications to their list, and set reminders. Use the patient's saved data instead of guessing, and tell the patient what you changed after each tool call. The current local time is ${localTime}.`;
+}
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : '';
+
+const findMedications = (name: string, medications: Medication[]): Medication[] => {
+  const key = normalizeMedicationName(name);
+  return medications.filter(medication => {
+    const savedKey = normalizeMedicationName(medication.name);
+    return savedKey.includes(key) || key.includes(savedKey);
+  });
+};
+
+const lookupMedication = (args: Record<string, unknown>, context: LiveToolContext): LiveToolResult => {
+  const name = asString(args.name);
+  if (!name) throw new Error('No medication name was given.');
+  const matches = findMedications(name, context.medications);
+  const others = context.medications
+    .filter(medication => isActiveMedication(medication) && !matches.includes(medication))
+    .map(medication => medication.name);
+  const interactions = checkInteractions([name, ...others])
+    .filter(finding => finding.drugA === name)
+    .map(finding => ({ with: finding.drugB, severity: finding.severity, explanation: finding.explanation }));
+  return {
+    response: {
+      onList: matches.length > 0,
+      entries: matches.map(medication => ({
+        name: medication.name,
+        dose: medication.dose,
+        route: medication.route,
+        frequency: medication.frequency,
+        prescriber: medication.prescriber,
+        active: isActiveMedication(medication),
+      })),
+      interactions,
+    },
+    summary: `Looked up ${name}`,
+  };
+};
+
+const addQuestion = async (args: Record<string, unknown>, context: LiveToolContext): Promise<LiveToolResult> => {
+  const question = asString(args.question);
+  if (!question) throw new Error('No question was given.');
+  const added = await context.addQuestion(question);
+  return {
+    response: added ? { added: true, question: added.text } : { added: false, reason: 'The question is already on the list.' },
+    summary: added ? `Added question: "${added.text}"` : `Question already listed: "${question}"`,
+  };
+};
+
+const addMedication = async (args: Record<string, unknown>, context: LiveToolContext): Promise<LiveToolResult> => {
+  const name = asString(args.name);
+  if (!name) throw new Error('No medication name was given.');
+  const existing = findMedications(name, context.medications).find(medication => isActiveMedication(medication));
+  if (existing) {
+    return {
+      response: { added: false, reason: `${describeMedication(existing)} is already on the list.` },
+      summary: `${existing.name} is already on the medication list`,
+    };
+  }
+  const medication = await context.addMedication({
+    name,
+    dose: asString(args.dose),
+    route: asString(args.route),
+    frequency: asString(args.frequency),
+    startDate: null,
+    stopDate: null,
+    prescriber: '',
+    sourceNote: 'Added during a live conversation',
+  });
+  return {
+    response: { added: true, medication: describeMedication(medication) },
+    summary: `Added medication: ${describeMedication(medication)}`,
+  };
+};
+
+const explainLabValue = (args: Record<string, unknown>, context: LiveToolContext): LiveToolResult => {
+  const analyte = asString(args.analyte);
+  const key = findMentionedAnalytes(analyte)[0] ?? analyteKey(analyte);
+  const series = context.labSeries.find(entry => entry.key === key);
+  if (!series || series.points.length === 0) {
+    return {
+      response: { found: false, reason: `No saved results for ${analyte}. The patient can add a lab report in the Labs tab.` },
+      summary: `No saved results for ${analyte}`,
+    };
+  }
+  const describePoint = (point: LabTrendPoint) => ({
+    date: point.date,
+    value: point.value,
+    unit: series.unit,
+    referenceLow: point.referenceLow,
+    referenceHigh: point.referenceHigh,
+    flag: point.flag,
+  });
+  const latest = series.points[series.points.length - 1];
+  const previous = series.points.length > 1 ? series.points[series.points.length - 2] : null;
+  return {
+    response: {
+      found: true,
+      analyte: series.name,
+      latest: describePoint(latest),
+      previous: previous ? describePoint(previous) : null,
+      resultCount: series.points.length,
+    },
+    summary: `Looked up ${series.name} results`,
+  };
+};
+
+const setReminder = async (args: Record<string, unknown>, context: LiveToolContext): Promise<LiveToolResult> => {
+  const text = asString(args.text);
+  if (!text) throw new Error('No reminder text was given.');
+  const dueAt = parseReminderTime(asString(args.time));
+  if (!dueAt) throw new Error(`"${asString(args.time)}" is not a valid date and time.`);
+  if (dueAt.getTime() <= Date.now()) throw new Error('The reminder time is in the past.');
+  const reminder = await context.addReminder(text, dueAt);
+  return {
+    response: { set: true, text: reminder.text, dueAt: reminder.dueAt },
+    summary: `Reminder set for ${dueAt.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}: ${reminder.text}`,
+  };
+};
+
+const HANDLERS: Record<LiveToolName, (args: Record<string, unknown>, context: LiveToolContext) => LiveToolResult | Promise<LiveToolResult>> = {
+  lookupMedication,
+  addQuestionToAppointmentList: addQuestion,
+  addMedication,
+  explainLabValue,
+  setReminder,
+};
+
+/**
+ * Runs a function call from the Live session against the app's data. Failures are returned to the model
+ * as an `error` response so it can tell the patient, rather than thrown.
+ */
+export async function executeLiveTool(call: FunctionCall, context: LiveToolContext): Promise<LiveToolResult> {
+  const handler = call.name ? HANDLERS[call.name as LiveToolName] : undefined;
+  if (!handler) {
+    return { response: { error: `Unknown tool "${call.name}".` }, summary: `Unknown tool "${call.name}"` };
+  }
+  try {
+    return await handler(call.args ?? {}, context);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { response: { error: message }, summary: `${call.name} failed: ${message}` };
+  }
+}
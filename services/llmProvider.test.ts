@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { callGemini, callGeminiProofread, callGeminiStream } from './geminiService';
+import { setLlmProvider } from './llmProvider';
+import { createMockProvider } from './mockProvider';
+
+const REFERENCES = [{ uri: 'https://medlineplus.gov/a1c.html', title: 'MedlinePlus' }];
+
+afterEach(() => {
+  setLlmProvider(null);
+  vi.unstubAllGlobals();
+});
+
+describe('mock provider through callGemini', () => {
+  it('answers from the script and reports the model used', async () => {
+    setLlmProvider(createMockProvider({ script: [{ match: 'hello', text: 'Scripted answer' }] }));
+    const result = await callGemini({ prompt: 'Say HELLO' });
+    expect(result.text).toBe('Scripted answer');
+    expect(result.model).toBe('gemini-2.5-flash');
+    expect(result.groundingUrls).toBeUndefined();
+  });
+
+  it('falls back to the canned responses and a generic answer', async () => {
+    setLlmProvider(createMockProvider());
+    expect((await callGemini({ prompt: 'Medical Jargon: dyspnea' })).text).toContain('trouble breathing');
+    expect((await callGemini({ prompt: 'Something unscripted' })).text).toBe('This is a mock response. No model was called.');
+  });
+
+  it('only attaches grounding when search grounding is requested', async () => {
+    setLlmProvider(createMockProvider({
+      script: [{
+        match: 'a1c',
+        text: 'A1c reflects average blood sugar.',
+        groundingUrls: REFERENCES,
+        groundingSupports: [{ text: 'A1c reflects average blood sugar.', sources: [0] }],
+      }],
+    }));
+    const plain = await callGemini({ prompt: 'a1c' });
+    expect(plain.groundingUrls).toBeUndefined();
+
+    const grounded = await callGemini({ prompt: 'a1c', useSearchGrounding: true });
+    expect(grounded.model).toBe('gemini-2.5-pro');
+    expect(grounded.groundingUrls).toEqual(REFERENCES);
+    expect(grounded.citations).toEqual([{ text: 'A1c reflects average blood sugar.', sourceIndices: [0] }]);
+  });
+
+  it('rejects with an AbortError when cancelled', async () => {
+    setLlmProvider(createMockProvider());
+    const controller = new AbortController();
+    controller.abort();
+    await expect(callGemini({ prompt: 'Hi', signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('matches regular expressions against the prompt', async () => {
+    setLlmProvider(createMockProvider({ script: [{ match: /^Explain \d+ results/, text: 'Matched' }] }));
+    expect((await callGemini({ prompt: 'Explain 3 results' })).text).toBe('Matched');
+  });
+});
+
+describe('mock provider through callGeminiStream', () => {
+  it('reports the accumulated text and resolves with the full answer', async () => {
+    const text = 'one two three four five six seven eight nine';
+    setLlmProvider(createMockProvider({ script: [{ match: 'count', text, groundingUrls: REFERENCES }] }));
+    const updates: string[] = [];
+    const result = await callGeminiStream({ prompt: 'count', useSearchGrounding: true, onText: update => updates.push(update) });
+    expect(result.text).toBe(text);
+    expect(result.groundingUrls).toEqual(REFERENCES);
+    expect(updates.length).toBeGreaterThan(1);
+    expect(updates[updates.length - 1]).toBe(text);
+    updates.slice(1).forEach((update, index) => expect(update.startsWith(updates[index])).toBe(true));
+  });
+
+  it('rejects with an AbortError when cancelled', async () => {
+    setLlmProvider(createMockProvider({ script: [{ match: 'long', text: 'word '.repeat(200) }] }));
+    const controller = new AbortController();
+    const pending = callGeminiStream({ prompt: 'long', onText: () => controller.abort(), signal: controller.signal });
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('mock provider proofreading', () => {
+  it('echoes the quoted input back', async () => {
+    setLlmProvider(createMockProvider());
+    expect(await callGeminiProofread('My head hurts alot.')).toBe('My head hurts alot.');
+  });
+});
+
+describe('mock provider with an OpenAI-compatible endpoint', () => {
+  it('posts the prompt as chat messages and returns the reply', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content: 'From the local model' } }] })));
+    vi.stubGlobal('fetch', fetchMock);
+    setLlmProvider(createMockProvider({ endpoint: 'http://localhost:11434/' }));
+
+    const result = await callGemini({ prompt: 'Hi there', systemInstruction: 'Be brief.' });
+    expect(result.text).toBe('From the local model');
+    expect(fetchMock).toHaveBeenCalledOnce();
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    const body = JSON.parse(init.body as string);
+    expect(body.messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: [{ type: 'text', text: 'Hi there' }] },
+    ]);
+  });
+
+  it('surfaces HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503, statusText: 'Service Unavailable' })));
+    setLlmProvider(createMockProvider({ endpoint: 'http://localhost:11434' }));
+    await expect(callGemini({ prompt: 'Hi' })).rejects.toThrow('503 Service Unavailable');
+  });
+});
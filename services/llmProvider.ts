@@ -0,0 +1,55 @@
+import { GenerateContentConfig, GenerateContentResponse, LiveConnectParameters, Part, Session } from "@google/genai";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+
+export type LlmProviderName = 'gemini' | 'mock';
+
+export interface LlmGenerateRequest {
+  model: string;
+  parts: Part[];
+  config: GenerateContentConfig;
+}
+
+/**
+ * The subset of a Gemini response that callers inspect. Providers other than Gemini
+ * build plain objects of this shape so the existing response checks keep working.
+ */
+export type LlmGenerateResponse = Pick<GenerateContentResponse, 'candidates' | 'promptFeedback'> & {
+  text?: string;
+};
+
+export type LlmLiveSession = Pick<Session, 'sendRealtimeInput' | 'sendToolResponse' | 'close'>;
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  /** Whether the provider has everything it needs (e.g. an API key) to make requests. */
+  isConfigured(): boolean;
+  generateContent(request: LlmGenerateRequest): Promise<LlmGenerateResponse>;
+  /** Streams the response; pass `config.abortSignal` to cancel. */
+  generateContentStream(request: LlmGenerateRequest): Promise<AsyncGenerator<LlmGenerateResponse>>;
+  connectLive(params: LiveConnectParameters): Promise<LlmLiveSession>;
+}
+
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * Returns the provider selected by the LLM_PROVIDER environment variable ('gemini' by default).
+ * Set LLM_PROVIDER=mock to run every tab offline; MOCK_LLM_ENDPOINT optionally points the mock
+ * at an OpenAI-compatible server on localhost instead of its canned responses.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!activeProvider) {
+    activeProvider = process.env.LLM_PROVIDER === 'mock'
+      ? createMockProvider({ endpoint: process.env.MOCK_LLM_ENDPOINT })
+      : createGeminiProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Overrides the active provider, e.g. with a scripted mock in automated tests.
+ * Passing null restores the environment-selected provider on next use.
+ */
+export function setLlmProvider(provider: LlmProvider | null): void {
+  activeProvider = provider;
+}
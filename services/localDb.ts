@@ -0,0 +1,78 @@
+const DB_NAME = 'patient-advocate-ai';
+const DB_VERSION = 6;
+
+// Every object store is keyed by an `id` string property.
+export const STORES = {
+  labReports: 'labReports',
+  medications: 'medications',
+  history: 'history',
+  sessionAudio: 'sessionAudio',
+  appointmentQuestions: 'appointmentQuestions',
+  reminders: 'reminders',
+  glossaryTerms: 'glossaryTerms',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use, creates or upgrades) the app's IndexedDB database.
+ * The connection is cached for the lifetime of the page.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(store => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open local database.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against a store and resolves with its result.
+ */
+const runRequest = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  createRequest: (objectStore: IDBObjectStore) => IDBRequest,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = createRequest(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error ?? new Error(`Local database request on "${store}" failed.`));
+  });
+};
+
+export const getAllRecords = <T>(store: StoreName): Promise<T[]> =>
+  runRequest<T[]>(store, 'readonly', objectStore => objectStore.getAll());
+
+export const getRecord = <T>(store: StoreName, id: string): Promise<T | undefined> =>
+  runRequest<T | undefined>(store, 'readonly', objectStore => objectStore.get(id));
+
+export const putRecord = async <T extends { id: string }>(store: StoreName, record: T): Promise<void> => {
+  await runRequest(store, 'readwrite', objectStore => objectStore.put(record));
+};
+
+export const deleteRecord = async (store: StoreName, id: string): Promise<void> => {
+  await runRequest(store, 'readwrite', objectStore => objectStore.delete(id));
+};
+
+export const clearStore = async (store: StoreName): Promise<void> => {
+  await runRequest(store, 'readwrite', objectStore => objectStore.clear());
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownBlock, MarkdownInline, parseInline, parseMarkdown, safeLinkHref } from './markdown';
+
+const inlineNodes = (blocks: MarkdownBlock[]): MarkdownInline[] => blocks.flatMap((block): MarkdownInline[] => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return block.children;
+    case 'list':
+      return block.items.flatMap(inlineNodes);
+    case 'table':
+      return [...block.header, ...block.rows.flat()].flat();
+    case 'blockquote':
+      return inlineNodes(block.children);
+    default:
+      return [];
+  }
+});
+
+const links = (nodes: MarkdownInline[]): string[] => nodes.flatMap(node => {
+  if (node.type === 'link') return [node.href, ...links(node.children)];
+  return node.type === 'strong' || node.type === 'emphasis' ? links(node.children) : [];
+});
+
+const plainText = (nodes: MarkdownInline[]): string => nodes.map(node => {
+  if (node.type === 'text' || node.type === 'code') return node.value;
+  return node.type === 'break' ? '\n' : plainText(node.children);
+}).join('');
+
+// Small deterministic generator so a failing case can be reproduced from its seed
+const random = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const HOSTILE_PIECES = [
+  '[', ']', '(', ')', '*', '**', '_', '`', '```', '\\', '\n', '\n\n', '<', '>', '|', '#', '> ', '- ', '1. ', '    ',
+  'a', 'word ', 'javascript:alert(1)', 'data:text/html,<b>x</b>', 'https://example.com/', 'http://', '<script>',
+  '<img src=x onerror=alert(1)>', '&amp;', '', '---', ' | --- |', '~~~',
+];
+
+const fuzzInput = (seed: number): string => {
+  const next = random(seed);
+  let text = '';
+  const length = 1 + Math.floor(next() * 60);
+  for (let i = 0; i < length; i++) text += HOSTILE_PIECES[Math.floor(next() * HOSTILE_PIECES.length)];
+  return text;
+};
+
+describe('parseMarkdown', () => {
+  it('parses a typical model answer', () => {
+    const markdown = [
+      '# Your results',
+      '',
+      'Your **A1c** is *slightly* high. See [the ADA guide](https://diabetes.org/a1c "ADA") or <https://example.com/labs>.',
+      '',
+      '| Test | Value | Range |',
+      '| :--- | ---: | :---: |',
+      '| A1c | 6.1% | 4.0\\|5.6 |',
+      '',
+      '1. Eat fewer sweets',
+      '   - Swap soda for water',
+      '2. Walk `30 min` a day',
+      '',
+      '> Ask your doctor before changing medicines.',
+      '',
+      '```text',
+      '<b>not bold</b>',
+      '```',
+      '',
+      '---',
+    ].join('\n');
+    expect(parseMarkdown(markdown)).toMatchSnapshot();
+  });
+
+  it('keeps HTML as text', () => {
+    expect(parseMarkdown('<script>alert(1)</script> <img src=x onerror=alert(1)>')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', value: '<script>alert(1)</script> <img src=x onerror=alert(1)>' }] },
+    ]);
+  });
+
+  it('drops unsafe link destinations but keeps their labels', () => {
+    const hostile = [
+      '[click](javascript:alert(1))',
+      '[click](JaVaScRiPt:alert(1))',
+      '[click](java\tscript:alert(1))',
+      '[click](data:text/html;base64,PHNjcmlwdD4=)',
+      '[click](vbscript:msgbox)',
+      '[click](/relative/path)',
+      '<javascript:alert(1)>',
+    ];
+    hostile.forEach(markdown => {
+      const nodes = inlineNodes(parseMarkdown(markdown));
+      expect(links(nodes), markdown).toEqual([]);
+    });
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([{ type: 'text', value: 'click' }]);
+  });
+
+  it('only produces links with allowed protocols for random hostile input', () => {
+    for (let seed = 1; seed <= 500; seed++) {
+      const markdown = fuzzInput(seed);
+      const blocks = parseMarkdown(markdown);
+      links(inlineNodes(blocks)).forEach(href => {
+        expect(safeLinkHref(href), `seed ${seed}`).toBe(href);
+        expect(href, `seed ${seed}`).toMatch(/^(https?|mailto|tel):/);
+      });
+    }
+  });
+
+  it('keeps every character of inline text that is not markup', () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const text = fuzzInput(seed).replace(/[\\[\]()*_`<]/g, '');
+      expect(plainText(parseInline(text)), `seed ${seed}`).toBe(text);
+    }
+  });
+
+  it('stays fast on unmatched brackets, delimiters and deep nesting', () => {
+    const inputs = [
+      '['.repeat(40000),
+      '[a]('.repeat(10000),
+      '('.repeat(40000),
+      '*a '.repeat(20000),
+      '_a '.repeat(20000),
+      '`'.repeat(20000),
+      '['.repeat(5000) + ']'.repeat(5000),
+      '> '.repeat(5000) + 'deep',
+      '- '.repeat(5000) + 'deep',
+    ];
+    inputs.forEach(markdown => {
+      const started = performance.now();
+      parseMarkdown(markdown);
+      expect(performance.now() - started, markdown.slice(0, 8)).toBeLessThan(1000);
+    });
+  });
+});
@@ -0,0 +1,394 @@
+export type MarkdownInline =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'code'; value: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] } // href has passed safeLinkHref
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'code'; language: string; value: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'rule' };
+
+// Deeper lists, quotes and emphasis are kept as plain text, so hostile input can't exhaust the stack
+const MAX_NESTING = 16;
+
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|>~<]/;
+const PLAIN_RUN = /[^\\\n`*_[<h]+/y;
+const AUTOLINK = /<((?:https?:\/\/|mailto:)[^\s<>]+)>/y;
+// Private-use characters end a bare URL; they mark citations (see groundingCitations)
+const BARE_URL = /https?:\/\/[^\s<>\uE000-\uF8FF]*[^\s<>.,:;"')\]!?*_\uE000-\uF8FF]/y;
+
+/**
+ * Returns a normalized absolute URL if it uses an allowed protocol, or null. Relative links and schemes
+ * such as javascript: and data: are rejected; the URL parser strips the tabs and newlines used to hide them.
+ */
+export function safeLinkHref(raw: string): string | null {
+  try {
+    const url = new URL(raw.trim());
+    return SAFE_LINK_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+const isWordChar = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}]/u.test(char);
+const isSpace = (char: string | undefined): boolean => char === undefined || /\s/.test(char);
+
+// Finds the delimiter that closes emphasis opened before `from`; it must not follow whitespace or sit inside a longer run
+const findClosingDelimiter = (text: string, delimiter: string, from: number): number => {
+  const char = delimiter[0];
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1) {
+    const before = text[index - 1];
+    const after = text[index + delimiter.length];
+    const closes = index > from && !isSpace(before) && after !== char
+      && (delimiter.length === 2 || before !== char)
+      && (char !== '_' || !isWordChar(after));
+    if (closes) return index;
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+};
+
+// Finds the bracket closing the one at `open`, skipping escaped and nested brackets. One scan records the
+// closer of every bracket it passes, and -1 for those still open at the end, so "[[[[..." or "[a](" repeated
+// stays linear instead of rescanning the rest of the text from each bracket.
+const createBracketMatcher = (text: string, openChar: string, closeChar: string) => {
+  const closers = new Map<number, number>();
+  return (open: number): number => {
+    const known = closers.get(open);
+    if (known !== undefined) return known;
+    const stack: number[] = [];
+    for (let index = open; index < text.length; index++) {
+      const char = text[index];
+      if (char === '\\') index++;
+      else if (char === openChar) stack.push(index);
+      else if (char === closeChar) {
+        closers.set(stack.pop()!, index);
+        if (stack.length === 0) return index;
+      }
+    }
+    stack.forEach(unclosed => closers.set(unclosed, -1));
+    return -1;
+  };
+};
+
+/**
+ * Parses inline markdown (emphasis, code spans, links and line breaks) into nodes. Anything that isn't
+ * valid markdown, including HTML tags, stays literal text.
+ */
+export function parseInline(text: string, depth = 0): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const pushNode = (node: MarkdownInline) => {
+    if (buffer) nodes.push({ type: 'text', value: buffer });
+    buffer = '';
+    nodes.push(node);
+  };
+  const nested = depth < MAX_NESTING;
+  // Delimiters with no closer left in the text; later searches would fail too, so "*a *a *a..." stays linear
+  const unclosed = new Set<string>();
+  const closingBracket = createBracketMatcher(text, '[', ']');
+  const closingParen = createBracketMatcher(text, '(', ')');
+
+  let index = 0;
+  while (index < text.length) {
+    PLAIN_RUN.lastIndex = index;
+    const plain = PLAIN_RUN.exec(text);
+    if (plain) {
+      buffer += plain[0];
+      index += plain[0].length;
+      continue;
+    }
+
+    const char = text[index];
+    if (char === '\\') {
+      const next = text[index + 1];
+      if (next === '\n') {
+        pushNode({ type: 'break' });
+        index += 2;
+      } else if (next !== undefined && ESCAPABLE.test(next)) {
+        buffer += next;
+        index += 2;
+      } else {
+        buffer += char;
+        index++;
+      }
+      continue;
+    }
+
+    if (char === '\n') {
+      pushNode({ type: 'break' });
+      index++;
+      continue;
+    }
+
+    if (char === '`') {
+      let runLength = 1;
+      while (text[index + runLength] === '`') runLength++;
+      const fence = '`'.repeat(runLength);
+      const close = text.indexOf(fence, index + runLength);
+      if (close === -1) {
+        buffer += fence;
+        index += runLength;
+        continue;
+      }
+      const value = text.slice(index + runLength, close).replace(/\n/g, ' ');
+      pushNode({ type: 'code', value: /^ .*[^ ].* $/.test(value) ? value.slice(1, -1) : value });
+      index = close + runLength;
+      continue;
+    }
+
+    if (char === '*' || char === '_') {
+      let runLength = 1;
+      while (text[index + runLength] === char) runLength++;
+      const opens = nested && !isSpace(text[index + runLength]) && (char !== '_' || !isWordChar(text[index - 1]));
+      const delimiter = runLength >= 2 ? char + char : char;
+      const close = opens && !unclosed.has(delimiter) ? findClosingDelimiter(text, delimiter, index + delimiter.length) : -1;
+      if (close === -1) {
+        if (opens) unclosed.add(delimiter);
+        buffer += char.repeat(runLength);
+        index += runLength;
+        continue;
+      }
+      const children = parseInline(text.slice(index + delimiter.length, close), depth + 1);
+      pushNode({ type: delimiter.length === 2 ? 'strong' : 'emphasis', children });
+      index = close + delimiter.length;
+      continue;
+    }
+
+    if (char === '[') {
+      const labelEnd = closingBracket(index);
+      const destinationEnd = labelEnd !== -1 && text[labelEnd + 1] === '(' ? closingParen(labelEnd + 1) : -1;
+      if (destinationEnd === -1) {
+        buffer += char;
+        index++;
+        continue;
+      }
+      const label = text.slice(index + 1, labelEnd);
+      const destination = text.slice(labelEnd + 2, destinationEnd).trim().match(/^<?([^\s>]*)>?/)?.[1] ?? '';
+      const href = safeLinkHref(destination);
+      const children = nested ? parseInline(label, depth + 1) : [{ type: 'text' as const, value: label }];
+      if (href) {
+        pushNode({ type: 'link', href, children });
+      } else {
+        // Unsafe or relative link: keep the label, drop the destination
+        children.forEach(pushNode);
+      }
+      index = destinationEnd + 1;
+      continue;
+    }
+
+    if (char === '<') {
+      AUTOLINK.lastIndex = index;
+      const autolink = AUTOLINK.exec(text);
+      const href = autolink ? safeLinkHref(autolink[1]) : null;
+      if (autolink && href) {
+        pushNode({ type: 'link', href, children: [{ type: 'text', value: autolink[1] }] });
+        index += autolink[0].length;
+      } else {
+        buffer += char;
+        index++;
+      }
+      continue;
+    }
+
+    // A bare URL, or an ordinary "h"
+    BARE_URL.lastIndex = index;
+    const url = isWordChar(text[index - 1]) ? null : BARE_URL.exec(text);
+    const href = url ? safeLinkHref(url[0]) : null;
+    if (url && href) {
+      pushNode({ type: 'link', href, children: [{ type: 'text', value: url[0] }] });
+      index += url[0].length;
+    } else {
+      buffer += char;
+      index++;
+    }
+  }
+
+  if (buffer) nodes.push({ type: 'text', value: buffer });
+  return nodes;
+}
+
+const leadingSpaces = (line: string): number => line.length - line.trimStart().length;
+
+// Cells of a table row, split on pipes that aren't escaped
+const splitTableRow = (line: string): string[] => {
+  const cells = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/);
+  return cells.map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const tableAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  return left ? 'left' : null;
+};
+
+const isTableStart = (lines: string[], index: number): boolean =>
+  lines[index].includes('|') && index + 1 < lines.length && lines[index + 1].includes('-') && TABLE_DELIMITER.test(lines[index + 1])
+  && splitTableRow(lines[index]).length === splitTableRow(lines[index + 1]).length;
+
+const parseTable = (lines: string[], index: number, depth: number): { block: MarkdownBlock; next: number } => {
+  const header = splitTableRow(lines[index]);
+  const align = splitTableRow(lines[index + 1]).map(tableAlign);
+  const toCells = (cells: string[]) => header.map((_, column) => parseInline(cells[column] ?? '', depth + 1));
+  const rows: MarkdownInline[][][] = [];
+  let next = index + 2;
+  while (next < lines.length && lines[next].trim() && lines[next].includes('|')) {
+    rows.push(toCells(splitTableRow(lines[next])));
+    next++;
+  }
+  return { block: { type: 'table', align, header: toCells(header), rows }, next };
+};
+
+const parseList = (lines: string[], index: number, depth: number): { block: MarkdownBlock; next: number } => {
+  const first = lines[index].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let markerWidth = 0;
+
+  let next = index;
+  while (next < lines.length) {
+    const line = lines[next];
+    const item = line.match(LIST_ITEM);
+    if (item && item[1].length <= indent + 1 && !RULE.test(line)) {
+      if (item[1].length < indent || /\d/.test(item[2]) !== ordered) break;
+      markerWidth = item[0].length - item[3].length;
+      items.push([item[3]]);
+      next++;
+      continue;
+    }
+    if (!line.trim()) {
+      // A blank line continues the list only if more of it follows
+      let following = next + 1;
+      while (following < lines.length && !lines[following].trim()) following++;
+      const resumes = following < lines.length && leadingSpaces(lines[following]) >= indent
+        && (leadingSpaces(lines[following]) > indent + 1 || LIST_ITEM.test(lines[following]));
+      if (!resumes) break;
+      items[items.length - 1].push('');
+      next++;
+      continue;
+    }
+    if (leadingSpaces(line) <= indent + 1) break;
+    items[items.length - 1].push(line.slice(Math.min(leadingSpaces(line), markerWidth)));
+    next++;
+  }
+
+  return {
+    block: {
+      type: 'list',
+      ordered,
+      start: ordered ? parseInt(first[2], 10) : 1,
+      items: items.map(itemLines => parseBlocks(itemLines, depth + 1)),
+    },
+    next,
+  };
+};
+
+const parseBlocks = (lines: string[], depth: number): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  const flushParagraph = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), depth) });
+    paragraph = [];
+  };
+  const nested = depth < MAX_NESTING;
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      flushParagraph();
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushParagraph();
+      const closing = new RegExp(`^\\s{0,3}${fence[1][0]}{${fence[1].length},}\\s*$`);
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !closing.test(lines[index])) code.push(lines[index++]);
+      blocks.push({ type: 'code', language: fence[2], value: code.join('\n') });
+      index++; // Past the closing fence
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2], depth) });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      flushParagraph();
+      const { block, next } = parseTable(lines, index, depth);
+      blocks.push(block);
+      index = next;
+      continue;
+    }
+
+    if (nested && BLOCKQUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (index < lines.length && BLOCKQUOTE.test(lines[index])) quoted.push(lines[index++].match(BLOCKQUOTE)![1]);
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    if (nested && LIST_ITEM.test(line)) {
+      flushParagraph();
+      const { block, next } = parseList(lines, index, depth);
+      blocks.push(block);
+      index = next;
+      continue;
+    }
+
+    paragraph.push(line.trim());
+    index++;
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+/**
+ * Parses markdown into a tree of blocks and inline nodes: headings, paragraphs, nested lists, tables,
+ * code, blockquotes, rules, emphasis and links. The tree holds only text and checked link URLs, so
+ * rendering it can't inject markup. Single line breaks inside a paragraph are kept as breaks, since model
+ * output often relies on them.
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  return parseBlocks(lines, 0);
+}
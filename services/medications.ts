@@ -0,0 +1,152 @@
+import { Schema, Type } from "@google/genai";
+import { callGemini } from "./geminiService";
+import { deleteRecord, getAllRecords, putRecord, STORES } from "./localDb";
+
+export interface Medication {
+  id: string;
+  name: string;
+  dose: string; // e.g. "10 mg"
+  route: string; // e.g. "oral"
+  frequency: string; // e.g. "once daily"
+  startDate: string | null; // ISO date (YYYY-MM-DD)
+  stopDate: string | null; // ISO date (YYYY-MM-DD); set once the medication is stopped
+  prescriber: string;
+  sourceNote: string; // Where the medication came from, e.g. the note it was extracted from
+}
+
+export type MedicationDraft = Omit<Medication, 'id'>;
+
+const MEDICATION_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING, description: 'Medication name, e.g. "Lisinopril".' },
+      dose: { type: Type.STRING, description: 'Strength or dose, e.g. "10 mg". Empty if not stated.' },
+      route: { type: Type.STRING, description: 'Route, e.g. "oral", "topical", "injection". Empty if not stated.' },
+      frequency: { type: Type.STRING, description: 'How often it is taken, e.g. "once daily". Empty if not stated.' },
+      startDate: { type: Type.STRING, nullable: true, description: 'Start date as YYYY-MM-DD, if stated.' },
+      stopDate: { type: Type.STRING, nullable: true, description: 'Stop date as YYYY-MM-DD, if the medication was stopped.' },
+      prescriber: { type: Type.STRING, description: 'Prescribing clinician. Empty if not stated.' },
+    },
+    required: ['name', 'dose', 'route', 'frequency', 'prescriber'],
+    propertyOrdering: ['name', 'dose', 'route', 'frequency', 'startDate', 'stopDate', 'prescriber'],
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : '';
+
+const asDate = (value: unknown): string | null =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? value.trim() : null;
+
+export const normalizeMedicationName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const isActiveMedication = (medication: Medication, today = new Date().toISOString().slice(0, 10)): boolean =>
+  !medication.stopDate || medication.stopDate > today;
+
+/**
+ * Parses and validates the model's JSON medication list. Entries without a name are dropped.
+ */
+export function parseMedications(json: string, sourceNote: string): MedicationDraft[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Medication extraction returned invalid JSON.');
+  }
+  if (!Array.isArray(raw)) {
+    throw new Error('Medication extraction did not return a list.');
+  }
+  const entries: unknown[] = raw;
+  return entries
+    .filter((entry): entry is Record<string, unknown> => isRecord(entry) && asString(entry.name) !== '')
+    .map((entry): MedicationDraft => ({
+      name: asString(entry.name),
+      dose: asString(entry.dose),
+      route: asString(entry.route),
+      frequency: asString(entry.frequency),
+      startDate: asDate(entry.startDate),
+      stopDate: asDate(entry.stopDate),
+      prescriber: asString(entry.prescriber),
+      sourceNote,
+    }));
+}
+
+/**
+ * Turns the "Medications:" section of a summary into structured medication entries.
+ * @param medicationsText The medication section extracted from the summary.
+ * @param sourceNote A short description of the note the medications came from.
+ */
+export async function extractMedications(medicationsText: string, sourceNote: string): Promise<MedicationDraft[]> {
+  const response = await callGemini({
+    prompt: `List every medication in the following text as structured entries. Copy names, doses and instructions exactly; leave a field empty if it is not stated.\n\nMedications: "${medicationsText}"`,
+    systemInstruction: "You are a careful medical data extractor. You never invent medication details.",
+    responseSchema: MEDICATION_SCHEMA,
+  });
+  return parseMedications(response.text, sourceNote);
+}
+
+/**
+ * Returns the proposals whose medication is not already on the list.
+ */
+export function findNewMedications(proposals: MedicationDraft[], existing: Medication[]): MedicationDraft[] {
+  const known = new Set(existing.map(medication => normalizeMedicationName(medication.name)));
+  return proposals.filter(proposal => {
+    const key = normalizeMedicationName(proposal.name);
+    if (known.has(key)) return false;
+    known.add(key);
+    return true;
+  });
+}
+
+const SHARE_STORAGE_KEY = 'medications.shareWithTabs';
+
+// Whether other tabs get the medication list as context; kept so the choice survives a reload
+export const loadShareMedicationsWithTabs = (): boolean => localStorage.getItem(SHARE_STORAGE_KEY) === 'true';
+
+export const saveShareMedicationsWithTabs = (share: boolean): void =>
+  localStorage.setItem(SHARE_STORAGE_KEY, String(share));
+
+export async function loadMedications(): Promise<Medication[]> {
+  const medications = await getAllRecords<Medication>(STORES.medications);
+  return medications.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const saveMedication = (medication: Medication): Promise<void> => putRecord(STORES.medications, medication);
+
+export const deleteMedication = (id: string): Promise<void> => deleteRecord(STORES.medications, id);
+
+export const describeMedication = (medication: MedicationDraft): string =>
+  [medication.name, medication.dose, medication.route, medication.frequency].filter(Boolean).join(' ');
+
+/**
+ * Summarizes the active medications for use in another tab's system instruction.
+ */
+export function formatMedicationContext(medications: Medication[]): string {
+  const active = medications.filter(medication => isActiveMedication(medication));
+  if (active.length === 0) return '';
+  return `The patient's current medications are: ${active.map(describeMedication).join('; ')}.`;
+}
+
+const CSV_COLUMNS: (keyof MedicationDraft)[] = ['name', 'dose', 'route', 'frequency', 'startDate', 'stopDate', 'prescriber', 'sourceNote'];
+
+const csvCell = (value: string | null): string => {
+  const text = value ?? '';
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function medicationsToCsv(medications: Medication[]): string {
+  return [
+    CSV_COLUMNS.join(','),
+    ...medications.map(medication => CSV_COLUMNS.map(column => csvCell(medication[column])).join(',')),
+  ].join('\n');
+}
+
+export function medicationsToJson(medications: Medication[]): string {
+  return JSON.stringify(medications.map(({ id, ...medication }) => medication), null, 2);
+}
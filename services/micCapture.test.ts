@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createBlob, decode, LIVE_INPUT_SAMPLE_RATE } from './audioCodec';
+import { startMicCapture } from './micCapture';
+
+const DEVICE_SAMPLE_RATE = 48000;
+
+const sine = (sampleRate: number, start: number, length: number): Float32Array =>
+  Float32Array.from({ length }, (_, i) => 0.5 * Math.sin(2 * Math.PI * 440 * (start + i) / sampleRate));
+
+// Minimal Web Audio stand-ins: the context can refuse to run at a rate other than the device's, like Firefox
+const fakeAudio = (acceptsAnyRate: boolean) => {
+  const contexts: FakeAudioContext[] = [];
+  const nodes: FakeWorkletNode[] = [];
+
+  class FakeAudioContext {
+    sampleRate: number;
+    closed = false;
+    audioWorklet = { addModule: vi.fn(async () => {}) };
+    constructor(options?: { sampleRate?: number }) {
+      this.sampleRate = options?.sampleRate ?? DEVICE_SAMPLE_RATE;
+      contexts.push(this);
+    }
+    createMediaStreamSource() {
+      if (!acceptsAnyRate && this.sampleRate !== DEVICE_SAMPLE_RATE) throw new Error('Sample rate mismatch');
+      return { connect: vi.fn(), disconnect: vi.fn() };
+    }
+    close() {
+      this.closed = true;
+    }
+  }
+
+  class FakeWorkletNode {
+    port = { onmessage: null as ((event: { data: Float32Array }) => void) | null, close: vi.fn() };
+    constructor(readonly context: FakeAudioContext, readonly name: string, readonly options: { processorOptions: { batchSize: number } }) {
+      nodes.push(this);
+    }
+    disconnect() {}
+  }
+
+  vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+  vi.stubGlobal('AudioWorkletNode', FakeWorkletNode);
+  return { contexts, nodes };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('startMicCapture', () => {
+  it('resamples device-rate batches to 16 kHz PCM frames', async () => {
+    const { contexts, nodes } = fakeAudio(false);
+    const chunks: Float32Array[] = [];
+    const levels: number[] = [];
+    const capture = await startMicCapture({} as MediaStream, { batchMs: 100, onChunk: samples => chunks.push(samples), onLevel: level => levels.push(level) });
+
+    expect(capture.captureSampleRate).toBe(DEVICE_SAMPLE_RATE);
+    expect(contexts[0].closed).toBe(true); // The 16 kHz attempt was given up
+    const node = nodes[0];
+    expect(node.options.processorOptions.batchSize).toBe(4800);
+
+    for (let batch = 0; batch < 5; batch++) {
+      node.port.onmessage!({ data: sine(DEVICE_SAMPLE_RATE, batch * 4800, 4800) });
+    }
+    expect(chunks.map(chunk => chunk.length)).toEqual([1600, 1600, 1600, 1600, 1600]);
+    levels.forEach(level => expect(level).toBeCloseTo(0.5 / Math.SQRT2, 2));
+
+    // Every frame sent to the Live API is the 16 kHz sine, continuous across batch boundaries
+    const received = chunks.flatMap(chunk => Array.from(new Int16Array(decode(createBlob(chunk).data).buffer)));
+    const expected = Array.from({ length: received.length }, (_, i) => 0.5 * Math.sin(2 * Math.PI * 440 * (3 * i + 1) / DEVICE_SAMPLE_RATE) * 0x7fff);
+    received.forEach((value, i) => expect(Math.abs(value - expected[i])).toBeLessThan(100));
+
+    capture.stop();
+    expect(node.port.onmessage).toBeNull();
+    expect(contexts[contexts.length - 1].closed).toBe(true);
+  });
+
+  it('passes batches straight through when the context runs at 16 kHz', async () => {
+    const { nodes } = fakeAudio(true);
+    const chunks: Float32Array[] = [];
+    const capture = await startMicCapture({} as MediaStream, { onChunk: samples => chunks.push(samples) });
+
+    expect(capture.captureSampleRate).toBe(LIVE_INPUT_SAMPLE_RATE);
+    const batch = sine(LIVE_INPUT_SAMPLE_RATE, 0, 1600);
+    nodes[0].port.onmessage!({ data: batch });
+    expect(chunks).toEqual([batch]);
+    capture.stop();
+  });
+});
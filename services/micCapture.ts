@@ -0,0 +1,123 @@
+import { createResampler, LIVE_INPUT_SAMPLE_RATE, rmsLevel } from "./audioCodec";
+
+export interface MicCaptureOptions {
+  /** Receives batches of 16 kHz mono samples. */
+  onChunk: (samples: Float32Array) => void;
+  /** Receives the level (0-1) of each batch, for metering. */
+  onLevel?: (level: number) => void;
+  /** How much audio to collect before each `onChunk` call. */
+  batchMs?: number;
+}
+
+export interface MicCapture {
+  /** The rate the microphone was actually captured at, before resampling. */
+  readonly captureSampleRate: number;
+  stop(): void;
+}
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+// Runs on the audio rendering thread: copies each 128-frame render quantum into a batch
+// and posts the batch to the main thread once it holds `batchSize` frames.
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.batchSize = options.processorOptions.batchSize;
+    this.batch = new Float32Array(this.batchSize);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.batchSize - this.filled);
+      this.batch.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.batchSize) {
+        this.port.postMessage(this.batch, [this.batch.buffer]);
+        this.batch = new Float32Array(this.batchSize);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+let processorUrl: string | null = null;
+
+const getProcessorUrl = (): string => {
+  if (!processorUrl) {
+    processorUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  }
+  return processorUrl;
+};
+
+/**
+ * Opens an AudioContext for the stream, preferring 16 kHz so no resampling is needed.
+ * Some browsers (e.g. Firefox) cannot connect a microphone to a context running at a
+ * different rate than the device, so fall back to the device's own rate.
+ */
+const openSource = (stream: MediaStream): { context: AudioContext; source: MediaStreamAudioSourceNode } => {
+  const AudioContextClass = window.AudioContext || window.webkitAudioContext!;
+  try {
+    const context = new AudioContextClass({ sampleRate: LIVE_INPUT_SAMPLE_RATE });
+    try {
+      return { context, source: context.createMediaStreamSource(stream) };
+    } catch (error) {
+      context.close();
+      throw error;
+    }
+  } catch {
+    const context = new AudioContextClass();
+    return { context, source: context.createMediaStreamSource(stream) };
+  }
+};
+
+/**
+ * Captures microphone audio off the main thread with an AudioWorklet, resampled to 16 kHz
+ * and delivered in batches.
+ * @param stream The microphone stream.
+ */
+export async function startMicCapture(stream: MediaStream, options: MicCaptureOptions): Promise<MicCapture> {
+  const { onChunk, onLevel, batchMs = 100 } = options;
+  const { context, source } = openSource(stream);
+
+  try {
+    await context.audioWorklet.addModule(getProcessorUrl());
+  } catch (error) {
+    context.close();
+    throw error;
+  }
+
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { batchSize: Math.round(context.sampleRate * batchMs / 1000) },
+  });
+  const resample = createResampler(context.sampleRate, LIVE_INPUT_SAMPLE_RATE);
+  node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    const samples = resample(event.data);
+    onLevel?.(rmsLevel(samples));
+    if (samples.length > 0) onChunk(samples);
+  };
+  source.connect(node);
+
+  return {
+    captureSampleRate: context.sampleRate,
+    stop: () => {
+      node.port.onmessage = null;
+      node.port.close();
+      source.disconnect();
+      node.disconnect();
+      context.close();
+    },
+  };
+}
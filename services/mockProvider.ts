@@ -0,0 +1,273 @@
+import { FinishReason, LiveConnectParameters, LiveSendRealtimeInputParameters, LiveServerMessage, Part } from "@google/genai";
+import { LlmGenerateRequest, LlmGenerateResponse, LlmLiveSession, LlmProvider } from "./llmProvider";
+
+export interface MockScriptEntry {
+  /** Matched against the prompt text; a string matches if the prompt contains it (case-insensitive). */
+  match: string | RegExp;
+  text: string;
+  groundingUrls?: { uri: string; title?: string }[];
+  /** Passages of `text` and the indices of the `groundingUrls` that support them. */
+  groundingSupports?: MockGroundingSupport[];
+}
+
+export interface MockGroundingSupport {
+  text: string;
+  sources: number[];
+}
+
+export interface MockLiveTurn {
+  userText: string;
+  modelText: string;
+  /** A function call the model makes before answering. */
+  toolCall?: { name: string; args: Record<string, unknown> };
+}
+
+export interface MockProviderOptions {
+  /** Scripted responses, checked in order before the built-in canned responses. */
+  script?: MockScriptEntry[];
+  /** Turns replayed by the Live session, one per `samplesPerTurn` of microphone audio. */
+  liveTurns?: MockLiveTurn[];
+  samplesPerTurn?: number;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:11434. Used instead of the script when set. */
+  endpoint?: string;
+}
+
+const MOCK_REFERENCES = [
+  { uri: 'https://medlineplus.gov/', title: 'MedlinePlus' },
+  { uri: 'https://www.cdc.gov/', title: 'CDC' },
+];
+
+// Canned responses keyed on phrases the App's prompts always contain.
+const DEFAULT_SCRIPT: MockScriptEntry[] = [
+  {
+    match: 'Identify who is speaking',
+    text: JSON.stringify([{ segment: 0, speakerId: 'patient' }, { segment: 1, speakerId: 'patient' }]),
+  },
+  {
+    match: 'visit recap',
+    text: JSON.stringify({
+      diagnoses: [{ text: 'Blood sugar is higher than normal.', segments: [0] }],
+      instructions: [],
+      medicationChanges: [],
+      followUps: [{ text: 'Repeat the A1c test.', segments: [1] }],
+      openQuestions: [{ text: 'Whether a medication change is needed.', segments: [1] }],
+    }),
+  },
+  {
+    match: 'list each medical term from the passage in English',
+    text: JSON.stringify({
+      overview: 'Tiene dificultad para respirar y para tragar.',
+      terms: [
+        { term: 'dyspnea', explanation: 'Falta de aire o dificultad para respirar.' },
+        { term: 'dysphagia', explanation: 'Dificultad para tragar.' },
+      ],
+    }),
+  },
+  {
+    match: 'Define each medical term below',
+    text: JSON.stringify([
+      { term: 'sleep apnea', definition: 'A condition where breathing stops and starts many times during sleep.', synonyms: ['obstructive sleep apnea'], abbreviations: ['OSA'] },
+    ]),
+  },
+  {
+    match: 'Medical Jargon:',
+    text: '**In plain terms:** you are having trouble breathing and trouble swallowing.\n\n- *Dyspnea* means shortness of breath.\n- *Dysphagia* means difficulty swallowing.',
+  },
+  {
+    match: 'preparing for an appointment',
+    text: '## Your Concerns\n1. Tiredness\n2. Frequent headaches\n\nTiredness and headaches can both be symptoms of high blood pressure.\n\n## Questions to Ask\n- Could my symptoms be related to my blood pressure?\n- Which tests would help find the cause?',
+    groundingUrls: MOCK_REFERENCES,
+    groundingSupports: [{ text: 'Tiredness and headaches can both be symptoms of high blood pressure.', sources: [0, 1] }],
+  },
+  {
+    match: 'List every medication',
+    text: JSON.stringify([
+      { name: 'Lisinopril', dose: '10 mg', route: 'oral', frequency: 'once daily', startDate: null, stopDate: null, prescriber: '' },
+    ]),
+  },
+  {
+    match: 'Summarize',
+    text: 'Follow-up visit for high blood pressure. Blood pressure was 140/90. Diet and exercise were discussed.\n\nMedications:\n- Lisinopril 10mg daily',
+  },
+  {
+    match: 'Extract every lab result',
+    text: JSON.stringify({
+      collectionDate: '2025-01-15',
+      results: [
+        { analyte: 'Glucose', value: 120, valueText: '120', unit: 'mg/dL', referenceLow: 70, referenceHigh: 99, referenceRange: '70-99', flag: 'H', collectionDate: null },
+        { analyte: 'Hemoglobin A1c', value: 6.8, valueText: '6.8', unit: '%', referenceLow: 4, referenceHigh: 5.6, referenceRange: '4.0-5.6', flag: 'H', collectionDate: null },
+        { analyte: 'Cholesterol, Total', value: 220, valueText: '220', unit: 'mg/dL', referenceLow: null, referenceHigh: 200, referenceRange: '<200', flag: 'H', collectionDate: null },
+      ],
+    }),
+  },
+  {
+    match: 'lab results',
+    text: '**Glucose** (120 mg/dL) is slightly above the normal range.\n\n**Hemoglobin A1c** (6.8%) is above the normal range, which can point to diabetes. Ask your doctor what this means for you.',
+    groundingUrls: MOCK_REFERENCES,
+    // The A1c sentence is left unsupported so the "No source" warning can be exercised
+    groundingSupports: [{ text: '**Glucose** (120 mg/dL) is slightly above the normal range.', sources: [0] }],
+  },
+];
+
+const DEFAULT_LIVE_TURNS: MockLiveTurn[] = [
+  {
+    userText: 'What does my A1c result mean?',
+    modelText: 'Your A1c shows your average blood sugar over the last three months. A higher number can mean diabetes, so it is worth asking your doctor about.',
+  },
+  {
+    userText: 'What should I ask at my next appointment?',
+    modelText: 'You could ask whether you need any medication changes and when you should repeat the test.',
+  },
+  {
+    userText: 'Please add that to my question list.',
+    modelText: 'Done. I added "Do I need to repeat my A1c test, and when?" to your question list.',
+    toolCall: { name: 'addQuestionToAppointmentList', args: { question: 'Do I need to repeat my A1c test, and when?' } },
+  },
+];
+
+const promptText = (parts: Part[]): string =>
+  parts.map(part => part.text ?? '').join('\n');
+
+const matches = (entry: MockScriptEntry, prompt: string): boolean =>
+  typeof entry.match === 'string'
+    ? prompt.toLowerCase().includes(entry.match.toLowerCase())
+    : entry.match.test(prompt);
+
+const buildResponse = (text: string, groundingUrls?: { uri: string; title?: string }[], groundingSupports: MockGroundingSupport[] = []): LlmGenerateResponse => ({
+  text,
+  candidates: [{
+    finishReason: FinishReason.STOP,
+    content: { role: 'model', parts: [{ text }] },
+    ...(groundingUrls && {
+      groundingMetadata: {
+        groundingChunks: groundingUrls.map(url => ({ web: { uri: url.uri, title: url.title } })),
+        groundingSupports: groundingSupports.map(support => ({ segment: { text: support.text }, groundingChunkIndices: support.sources })),
+      },
+    }),
+  }],
+});
+
+/**
+ * Proofreading prompts quote the input; echoing it back keeps the mock deterministic.
+ */
+const proofreadEcho = (prompt: string): string | null => {
+  const match = prompt.match(/^Proofread the following text[\s\S]*?Text to proofread:\n"([\s\S]*)"$/);
+  return match ? match[1] : null;
+};
+
+async function callOpenAiCompatible(endpoint: string, { model, parts, config }: LlmGenerateRequest): Promise<LlmGenerateResponse> {
+  const content = parts.map(part => part.inlineData
+    ? { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+    : { type: 'text', text: part.text ?? '' });
+  const messages: { role: string; content: unknown }[] = [];
+  if (typeof config.systemInstruction === 'string') {
+    messages.push({ role: 'system', content: config.systemInstruction });
+  }
+  messages.push({ role: 'user', content });
+
+  const response = await fetch(`${endpoint.replace(/\/$/, '')}/v1/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model,
+      messages,
+      temperature: config.temperature,
+      max_tokens: config.maxOutputTokens,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Mock endpoint responded with ${response.status} ${response.statusText}`);
+  }
+  const json = await response.json();
+  return buildResponse(json.choices?.[0]?.message?.content ?? '');
+}
+
+const STREAM_WORDS_PER_CHUNK = 4;
+const STREAM_CHUNK_DELAY_MS = 30;
+
+/**
+ * Replays a complete response a few words at a time; the final chunk carries the grounding metadata.
+ */
+async function* streamResponse(response: LlmGenerateResponse, signal?: AbortSignal): AsyncGenerator<LlmGenerateResponse> {
+  const words = (response.text ?? '').split(/(?<=\s)/);
+  for (let i = 0; i < words.length; i += STREAM_WORDS_PER_CHUNK) {
+    if (signal?.aborted) return;
+    await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+    const text = words.slice(i, i + STREAM_WORDS_PER_CHUNK).join('');
+    const isLast = i + STREAM_WORDS_PER_CHUNK >= words.length;
+    yield isLast ? { ...response, text } : { text };
+  }
+}
+
+/**
+ * A deterministic provider for offline demos and automated tests. Text requests are answered
+ * from the script (or a local OpenAI-compatible endpoint); the Live session replays scripted
+ * transcription turns as microphone audio arrives and never produces audio itself.
+ */
+export function createMockProvider(options: MockProviderOptions = {}): LlmProvider {
+  const script = [...(options.script ?? []), ...DEFAULT_SCRIPT];
+  const liveTurns = options.liveTurns ?? DEFAULT_LIVE_TURNS;
+  const samplesPerTurn = options.samplesPerTurn ?? 16000 * 5; // ~5 seconds of 16 kHz audio
+
+  const respond = async (request: LlmGenerateRequest): Promise<LlmGenerateResponse> => {
+    if (options.endpoint) {
+      return callOpenAiCompatible(options.endpoint, request);
+    }
+    const prompt = promptText(request.parts);
+    const echoed = proofreadEcho(prompt);
+    if (echoed !== null) {
+      return buildResponse(echoed);
+    }
+    const grounded = Boolean(request.config.tools?.some(tool => 'googleSearch' in tool));
+    const entry = script.find(candidate => matches(candidate, prompt));
+    const text = entry?.text ?? 'This is a mock response. No model was called.';
+    return grounded ? buildResponse(text, entry?.groundingUrls, entry?.groundingSupports) : buildResponse(text);
+  };
+
+  return {
+    name: 'mock',
+
+    isConfigured: () => true,
+
+    generateContent: respond,
+
+    generateContentStream: async (request: LlmGenerateRequest): Promise<AsyncGenerator<LlmGenerateResponse>> =>
+      streamResponse(await respond(request), request.config.abortSignal),
+
+    connectLive: async ({ callbacks }: LiveConnectParameters): Promise<LlmLiveSession> => {
+      let closed = false;
+      let samplesSinceTurn = 0;
+      let turnIndex = 0;
+
+      const emitTurn = (turn: MockLiveTurn) => {
+        const messages = [
+          { serverContent: { inputTranscription: { text: turn.userText } } },
+          ...(turn.toolCall ? [{ toolCall: { functionCalls: [{ id: `mock-call-${turnIndex}`, ...turn.toolCall }] } }] : []),
+          { serverContent: { outputTranscription: { text: turn.modelText } } },
+          { serverContent: { turnComplete: true } },
+        ];
+        messages.forEach(message => callbacks.onmessage(message as LiveServerMessage));
+      };
+
+      setTimeout(() => callbacks.onopen?.(), 0);
+
+      return {
+        sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => {
+          if (closed || turnIndex >= liveTurns.length || !params.media?.data) return;
+          // base64 PCM16: 4 characters encode 3 bytes, 2 bytes per sample
+          samplesSinceTurn += Math.floor((params.media.data.length * 3) / 4 / 2);
+          if (samplesSinceTurn >= samplesPerTurn) {
+            samplesSinceTurn = 0;
+            emitTurn(liveTurns[turnIndex++]);
+          }
+        },
+        sendToolResponse: () => {},
+        close: () => {
+          if (closed) return;
+          closed = true;
+          callbacks.onclose?.(new CloseEvent('close', { wasClean: true }));
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { clearEncrypted, hasEncrypted, loadEncrypted, saveEncrypted } from "./secureStorage";
+
+const PROFILE_STORAGE_KEY = 'patientProfile.v1';
+
+export type ReadingLevel = 'simple' | 'standard' | 'detailed';
+
+export interface PatientProfile {
+  age: number | null;
+  sex: string;
+  conditions: string[];
+  allergies: string[];
+  readingLevel: ReadingLevel;
+}
+
+export type ProfileContextTab = 'translate' | 'prepare' | 'summarize' | 'labs' | 'record';
+
+export const EMPTY_PROFILE: PatientProfile = {
+  age: null,
+  sex: '',
+  conditions: [],
+  allergies: [],
+  readingLevel: 'standard',
+};
+
+// Only the fields each tab needs are ever sent.
+const TAB_FIELDS: Record<ProfileContextTab, (keyof PatientProfile)[]> = {
+  translate: ['conditions'], // Translate and Labs have their own reading level selector
+  prepare: ['age', 'sex', 'conditions', 'allergies', 'readingLevel'],
+  summarize: ['conditions', 'allergies'],
+  labs: ['age', 'sex', 'conditions'],
+  record: ['age', 'sex', 'conditions', 'allergies'], // Live sessions set their reading level in the voice settings
+};
+
+export const READING_LEVEL_LABELS: Record<ReadingLevel, string> = {
+  simple: 'Simple',
+  standard: 'Standard',
+  detailed: 'Detailed',
+};
+
+export const READING_LEVEL_DESCRIPTIONS: Record<ReadingLevel, string> = {
+  simple: 'very simple language with short sentences',
+  standard: 'plain, everyday language',
+  detailed: 'more detailed explanations, including some medical terms with definitions',
+};
+
+export const hasStoredProfile = (): boolean => hasEncrypted(PROFILE_STORAGE_KEY);
+
+export const saveProfile = (profile: PatientProfile, passphrase: string): Promise<void> =>
+  saveEncrypted(PROFILE_STORAGE_KEY, profile, passphrase);
+
+/**
+ * Decrypts the stored profile.
+ * @returns The profile, or null if none has been saved.
+ */
+export async function loadProfile(passphrase: string): Promise<PatientProfile | null> {
+  const profile = await loadEncrypted<Partial<PatientProfile>>(PROFILE_STORAGE_KEY, passphrase);
+  return profile ? { ...EMPTY_PROFILE, ...profile } : null;
+}
+
+export const clearProfile = (): void => clearEncrypted(PROFILE_STORAGE_KEY);
+
+/**
+ * Builds the minimized profile text injected into a tab's system instruction. Age is reduced to a
+ * decade (or "under 10" for children), and only the fields that tab needs are included.
+ * @returns The context sentence(s), or an empty string if the profile has nothing relevant.
+ */
+export function buildProfileContext(profile: PatientProfile, tab: ProfileContextTab): string {
+  const fields = TAB_FIELDS[tab];
+  const facts: string[] = [];
+
+  if (fields.includes('age') && profile.age !== null) {
+    facts.push(profile.age < 10 ? 'is under 10 years old' : `is in their ${Math.floor(profile.age / 10) * 10}s`);
+  }
+  if (fields.includes('sex') && profile.sex.trim()) {
+    facts.push(`is ${profile.sex.trim().toLowerCase()}`);
+  }
+  if (fields.includes('conditions') && profile.conditions.length > 0) {
+    facts.push(`has these conditions: ${profile.conditions.join(', ')}`);
+  }
+  if (fields.includes('allergies') && profile.allergies.length > 0) {
+    facts.push(`is allergic to: ${profile.allergies.join(', ')}`);
+  }
+
+  const sentences: string[] = [];
+  if (facts.length > 0) {
+    sentences.push(`The patient ${facts.join('; ')}.`);
+  }
+  if (fields.includes('readingLevel')) {
+    sentences.push(`Use ${READING_LEVEL_DESCRIPTIONS[profile.readingLevel]}.`);
+  }
+  return sentences.join(' ');
+}
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { callGemini } from './geminiService';
+import { setLlmProvider } from './llmProvider';
+import { createMockProvider } from './mockProvider';
+import { findPhi, PhiType, redactPhi, rehydratePhi, setPhiRedactionEnabled } from './phiRedaction';
+
+const found = (text: string): [PhiType, string][] => findPhi(text).map(match => [match.type, match.original]);
+
+describe('findPhi', () => {
+  it.each<[string, string, PhiType, string]>([
+    ['dashed SSN', 'SSN 123-45-6789 on file', 'SSN', '123-45-6789'],
+    ['labelled SSN', 'Social Security Number: 123456789', 'SSN', '123456789'],
+    ['numeric DOB', 'DOB: 04/12/1961', 'DOB', '04/12/1961'],
+    ['written DOB', 'Date of Birth: March 3, 1975', 'DOB', 'March 3, 1975'],
+    ['MRN with colon', 'MRN: 00123456', 'MRN', '00123456'],
+    ['MRN without separator space', 'MR#A12345', 'MRN', 'A12345'],
+    ['patient ID', 'Patient ID 4471-22', 'MRN', '4471-22'],
+    ['account number', 'Acct No. 99812', 'MRN', '99812'],
+    ['member ID', 'Member ID: XQH123456789', 'INSURANCE_ID', 'XQH123456789'],
+    ['Medicare beneficiary ID', 'MBI 1EG4-TE5-MK73', 'INSURANCE_ID', '1EG4-TE5-MK73'],
+    ['email', 'Contact jane.doe+clinic@example.org today', 'EMAIL', 'jane.doe+clinic@example.org'],
+    ['phone with parentheses', 'Call (555) 123-4567', 'PHONE', '(555) 123-4567'],
+    ['dotted phone with country code', 'Cell +1 555.123.4567', 'PHONE', '+1 555.123.4567'],
+    ['street address', 'Lives at 42 Elm Street, Apt 3B, Springfield, IL 62704', 'ADDRESS', '42 Elm Street, Apt 3B, Springfield, IL 62704'],
+    ['PO box', 'Mail to P.O. Box 1234', 'ADDRESS', 'P.O. Box 1234'],
+    ['labelled name', 'Patient Name: Maria L. Gonzalez', 'NAME', 'Maria L. Gonzalez'],
+    ['titled name', 'Seen with Mrs. Okafor', 'NAME', 'Okafor'],
+  ])('finds a %s', (_, text, type, original) => {
+    expect(found(text)).toContainEqual([type, original]);
+  });
+
+  it('redacts later mentions of a labelled name', () => {
+    expect(redactPhi('Name: John Smith\nSmith reports chest pain.').text).toBe('Name: [NAME_1]\n[NAME_2] reports chest pain.');
+  });
+
+  describe('false positives', () => {
+    it.each([
+      ['ordinary words after "patient id"', 'The patient identified the pills by color.'],
+      ['"ID no" followed by a word', 'Photo ID nothing else required.'],
+      ['labels without a number', 'MRN: pending, Member ID: unknown'],
+      ['lab values and dates of service', 'Glucose 120 mg/dL on 01/15/2025, A1c 6.8%'],
+      ['a drug name label', 'Drug Name: Lisinopril'],
+    ])('ignores %s', (_, text) => {
+      expect(findPhi(text)).toEqual([]);
+    });
+
+    it('stops a name at the words that follow it', () => {
+      expect(found('Name: John Smith Follow Up in 2 weeks')).toEqual([['NAME', 'John Smith']]);
+      expect(found('Patient: Ana Maria Lopez Garcia Perez')).toEqual([['NAME', 'Ana Maria Lopez']]);
+      expect(redactPhi('Name: John Smith Follow Up visit. Follow the diet.').text)
+        .toBe('Name: [NAME_1] Follow Up visit. Follow the diet.');
+    });
+  });
+});
+
+describe('redactPhi and rehydratePhi', () => {
+  const note = 'Patient: Jane Doe, DOB 02/14/1980, MRN 55501234, phone 555-867-5309. Jane reports dizziness.';
+
+  it('gives each distinct value one placeholder', () => {
+    const { text, redactions } = redactPhi(note);
+    expect(text).toBe('Patient: [NAME_1], DOB [DOB_1], MRN [MRN_1], phone [PHONE_1]. [NAME_2] reports dizziness.');
+    expect(redactions.map(redaction => redaction.placeholder)).toEqual(['[NAME_1]', '[DOB_1]', '[MRN_1]', '[PHONE_1]', '[NAME_2]']);
+  });
+
+  it('round-trips text through placeholders, with or without brackets', () => {
+    const { text, redactions } = redactPhi(note);
+    expect(rehydratePhi(text, redactions)).toBe(note);
+    expect(rehydratePhi('NAME_2 should call PHONE_1.', redactions)).toBe('Jane should call 555-867-5309.');
+    expect(rehydratePhi('Unknown [NAME_9] stays.', redactions)).toBe('Unknown [NAME_9] stays.');
+  });
+
+  it('escapes restored values for JSON answers', () => {
+    const { redactions } = redactPhi('Name: Mary "Molly" Byrne');
+    expect(rehydratePhi('{"name":"[NAME_1]"}', redactions, value => JSON.stringify(value).slice(1, -1)))
+      .toBe(`{"name":${JSON.stringify(redactions[0].original)}}`);
+  });
+});
+
+describe('restoring answers in callGemini', () => {
+  afterEach(() => {
+    setLlmProvider(null);
+    setPhiRedactionEnabled(true);
+  });
+
+  it('sends placeholders and restores them in the answer', async () => {
+    const prompts: string[] = [];
+    const provider = createMockProvider({ script: [{ match: 'summarize', text: '[NAME_1] (MRN [MRN_1]) has a follow-up.' }] });
+    setLlmProvider({
+      ...provider,
+      generateContent: request => {
+        prompts.push(request.parts.map(part => part.text ?? '').join(''));
+        return provider.generateContent(request);
+      },
+    });
+
+    const result = await callGemini({ prompt: 'Please summarize: Name: Ravi Patel, MRN 77120045.' });
+    expect(prompts[0]).toBe('Please summarize: Name: [NAME_1], MRN [MRN_1].');
+    expect(result.text).toBe('Ravi Patel (MRN 77120045) has a follow-up.');
+  });
+
+  it('sends the text unchanged when redaction is off', async () => {
+    setPhiRedactionEnabled(false);
+    setLlmProvider(createMockProvider({ script: [{ match: 'Ravi Patel', text: 'Name seen' }] }));
+    expect((await callGemini({ prompt: 'Name: Ravi Patel' })).text).toBe('Name seen');
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Client-side de-identification of text before it is sent to the model. Detected identifiers are
+ * replaced with numbered placeholders such as [NAME_1], and `rehydratePhi` puts the originals back
+ * into the model's answer. Detection is pattern-based and tuned for common US record formats; it
+ * reduces, but cannot guarantee against, identifiers leaving the browser.
+ */
+
+export type PhiType = 'NAME' | 'DOB' | 'MRN' | 'PHONE' | 'ADDRESS' | 'SSN' | 'INSURANCE_ID' | 'EMAIL';
+
+export interface PhiMatch {
+  type: PhiType;
+  start: number;
+  end: number;
+  original: string;
+  placeholder: string;
+}
+
+export interface Redaction {
+  placeholder: string;
+  original: string;
+  type: PhiType;
+}
+
+export interface RedactionResult {
+  text: string;
+  redactions: Redaction[];
+}
+
+const DATE = String.raw`(?:\d{1,2}[\/.-]\d{1,2}[\/.-]\d{2,4}|\d{4}-\d{2}-\d{2}|(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\.?\s+\d{1,2},?\s+\d{4})`;
+// Capitalized words or initials, stopping at labels and everyday words that often follow a name on the same line
+const NAME_STOP_WORDS = [
+  'DOB', 'MRN', 'SSN', 'DOS', 'ID', 'Age', 'Sex', 'Date', 'Phone', 'Address',
+  'Follow', 'Up', 'Visit', 'Appointment', 'Seen', 'Reason', 'Diagnosis', 'Chief', 'Complaint', 'History',
+  'Notes?', 'Reports?', 'Presents?', 'Referred', 'Admitted', 'Discharged', 'Today', 'Labs?', 'Results?',
+  'Dr', 'Doctor', 'Provider', 'Clinic', 'Hospital', 'The', 'And', 'With', 'Was', 'Is', 'Has', 'For', 'On', 'At', 'In', 'To',
+];
+const NAME_TOKEN = String.raw`(?!(?:${NAME_STOP_WORDS.join('|')})\b)(?:[A-Z][a-zA-Z'-]+|[A-Z]\.)`;
+// First, middle and last name at most, so the capture can't run on into the rest of the line
+const PERSON_NAME = String.raw`${NAME_TOKEN}(?:,?[ \t]+${NAME_TOKEN}){0,2}`;
+// Labelled identifiers need a separator after the label and at least one digit, so ordinary words
+// such as "patient identified" or "ID nothing" are not taken for record numbers
+const LABELLED_VALUE = (minLength: number) => String.raw`(?:\s*[:#]\s*|\s+|(?<=#))((?=[A-Z-]*\d)[A-Z0-9-]{${minLength},})\b`;
+const STREET_SUFFIX = String.raw`(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Court|Ct|Way|Place|Pl|Terrace|Ter|Circle|Cir|Parkway|Pkwy|Highway|Hwy)`;
+
+// Each pattern's `group` is the capture group holding the identifier; 0 means the whole match.
+const PATTERNS: { type: PhiType; regex: RegExp; group: number }[] = [
+  { type: 'SSN', regex: /\b\d{3}-\d{2}-\d{4}\b/g, group: 0 },
+  { type: 'SSN', regex: /\b(?:SSN|Social Security(?: No\.?| Number| #)?)\s*[:#]?\s*(\d{9})\b/gi, group: 1 },
+  { type: 'DOB', regex: new RegExp(String.raw`\b(?:DOB|D\.O\.B\.?|Date of Birth|Birth ?date|Born(?: on)?)\s*[:-]?\s*(${DATE})`, 'gi'), group: 1 },
+  { type: 'MRN', regex: new RegExp(String.raw`\b(?:MRN|MR#|Medical Record (?:Number|No\.?|#)|Patient ID|Acct(?:ount)? ?(?:No\.?|#|Number))${LABELLED_VALUE(4)}`, 'gi'), group: 1 },
+  { type: 'INSURANCE_ID', regex: new RegExp(String.raw`\b(?:Member ID|Subscriber ID|Policy (?:Number|No\.?|#)|Insurance ID|Group (?:Number|No\.?|#)|Medicare (?:Number|ID|#)|Medicaid (?:Number|ID|#)|ID (?:No\.?|#))${LABELLED_VALUE(5)}`, 'gi'), group: 1 },
+  // Medicare Beneficiary Identifier, e.g. 1EG4-TE5-MK73
+  { type: 'INSURANCE_ID', regex: /\b[1-9][A-Z][A-Z0-9]\d-?[A-Z][A-Z0-9]\d-?[A-Z]{2}\d{2}\b/g, group: 0 },
+  { type: 'EMAIL', regex: /\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g, group: 0 },
+  { type: 'PHONE', regex: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g, group: 0 },
+  {
+    type: 'ADDRESS',
+    regex: new RegExp(String.raw`\b\d{1,6}\s+(?:[A-Z0-9][a-zA-Z0-9]*\.?\s+){1,4}${STREET_SUFFIX}\b\.?(?:,?\s+(?:Apt|Apartment|Suite|Ste|Unit|#)\.?\s*[\w-]+)?(?:,\s*[A-Z][a-zA-Z]+(?:\s[A-Z][a-zA-Z]+)*,?\s+[A-Z]{2}\s+\d{5}(?:-\d{4})?)?`, 'g'),
+    group: 0,
+  },
+  { type: 'ADDRESS', regex: /\bP\.?\s?O\.?\s+Box\s+\d+\b/gi, group: 0 },
+  // The lookbehind skips labels such as "Drug Name:" that are not about a person.
+  { type: 'NAME', regex: new RegExp(String.raw`(?<!\w[ \t])\b(?:Patient(?: Name)?|Pt(?: Name)?|Name|Guarantor|Emergency Contact|Caregiver|Subscriber)[ \t]*:[ \t]*(${PERSON_NAME})`, 'g'), group: 1 },
+  { type: 'NAME', regex: new RegExp(String.raw`\b(?:Mr|Mrs|Ms|Miss|Mx)\.?[ \t]+(${PERSON_NAME})`, 'g'), group: 1 },
+];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const collectMatches = (text: string): Omit<PhiMatch, 'placeholder'>[] => {
+  const matches: Omit<PhiMatch, 'placeholder'>[] = [];
+  PATTERNS.forEach(({ type, regex, group }) => {
+    for (const match of text.matchAll(regex)) {
+      const value = match[group];
+      if (!value) continue;
+      const start = match.index! + (group === 0 ? 0 : match[0].lastIndexOf(value));
+      matches.push({ type, start, end: start + value.length, original: value });
+    }
+  });
+
+  // Once a name is known, redact its other mentions too, e.g. "Smith" later in the note.
+  const names = new Set<string>();
+  matches.filter(match => match.type === 'NAME').forEach(match => {
+    const cleaned = match.original.replace(/[,.]/g, ' ').trim();
+    names.add(match.original);
+    cleaned.split(/\s+/).filter(part => part.length > 2).forEach(part => names.add(part));
+  });
+  names.forEach(name => {
+    for (const match of text.matchAll(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'g'))) {
+      matches.push({ type: 'NAME', start: match.index!, end: match.index! + name.length, original: name });
+    }
+  });
+
+  // Keep the earliest, then longest, match where matches overlap.
+  matches.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const kept: Omit<PhiMatch, 'placeholder'>[] = [];
+  matches.forEach(match => {
+    const last = kept[kept.length - 1];
+    if (!last || match.start >= last.end) kept.push(match);
+  });
+  return kept;
+};
+
+/**
+ * Finds identifiers in the text and assigns each distinct value a placeholder.
+ * The same value always gets the same placeholder within one text.
+ */
+export function findPhi(text: string): PhiMatch[] {
+  const placeholders = new Map<string, string>();
+  const counters: Partial<Record<PhiType, number>> = {};
+  return collectMatches(text).map(match => {
+    const key = `${match.type}:${match.original}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      counters[match.type] = (counters[match.type] ?? 0) + 1;
+      placeholder = `[${match.type}_${counters[match.type]}]`;
+      placeholders.set(key, placeholder);
+    }
+    return { ...match, placeholder };
+  });
+}
+
+/**
+ * Replaces identifiers in the text with placeholders.
+ * @returns The redacted text and the placeholder mapping needed to rehydrate the answer.
+ */
+export function redactPhi(text: string): RedactionResult {
+  const matches = findPhi(text);
+  let redacted = '';
+  let cursor = 0;
+  const redactions = new Map<string, Redaction>();
+  matches.forEach(match => {
+    redacted += text.slice(cursor, match.start) + match.placeholder;
+    cursor = match.end;
+    redactions.set(match.placeholder, { placeholder: match.placeholder, original: match.original, type: match.type });
+  });
+  redacted += text.slice(cursor);
+  return { text: redacted, redactions: [...redactions.values()] };
+}
+
+/**
+ * Restores the original values in the model's answer. Placeholders are matched with or without
+ * their brackets, since models sometimes drop them.
+ * @param text The model's answer.
+ * @param redactions The mapping returned by `redactPhi`.
+ * @param escape Optional transform applied to originals, e.g. JSON-escaping for JSON answers.
+ */
+export function rehydratePhi(text: string, redactions: Redaction[], escape: (value: string) => string = value => value): string {
+  if (redactions.length === 0) return text;
+  const byToken = new Map(redactions.map(redaction => [redaction.placeholder.slice(1, -1), redaction.original]));
+  return text.replace(/\[?\b((?:NAME|DOB|MRN|PHONE|ADDRESS|SSN|INSURANCE_ID|EMAIL)_\d+)\b\]?/g, (token, key) => {
+    const original = byToken.get(key);
+    return original !== undefined ? escape(original) : token;
+  });
+}
+
+let redactionEnabled = true;
+
+/**
+ * Turns redaction on or off for every request that goes through the Gemini service.
+ */
+export function setPhiRedactionEnabled(enabled: boolean): void {
+  redactionEnabled = enabled;
+}
+
+export const isPhiRedactionEnabled = (): boolean => redactionEnabled;
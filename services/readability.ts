@@ -0,0 +1,161 @@
+import { READING_LEVEL_DESCRIPTIONS, ReadingLevel } from "./patientProfile";
+import { stripMarkdown } from "./visitPacket";
+
+const READING_LEVEL_STORAGE_KEY = 'readingLevel.v1';
+
+// What each reading level is scored against
+export const READING_LEVEL_TARGET_LABELS: Record<ReadingLevel, string> = {
+  simple: 'Simple (about grade 5)',
+  standard: 'Standard (about grade 8)',
+  detailed: 'Detailed (no grade limit)',
+};
+
+interface TargetLimits {
+  maxGrade: number;
+  maxSentenceLength: number; // Average words per sentence
+  explainJargon: boolean; // Whether every jargon term must be explained
+}
+
+// Half a grade of slack above the target, since the formula is noisy on short texts
+const TARGET_LIMITS: Record<ReadingLevel, TargetLimits | null> = {
+  simple: { maxGrade: 5.5, maxSentenceLength: 14, explainJargon: true },
+  standard: { maxGrade: 8.5, maxSentenceLength: 20, explainJargon: true },
+  detailed: null, // No limits; the score is still shown
+};
+
+// Each builds on the level's general description so every feature asks for the same thing
+const TARGET_INSTRUCTIONS: Record<ReadingLevel, string> = {
+  simple: `Use ${READING_LEVEL_DESCRIPTIONS.simple}, at about a 5th-grade reading level: sentences of about 10 words, everyday words of one or two syllables, and explain every medical term in plain words the first time you use it.`,
+  standard: `Use ${READING_LEVEL_DESCRIPTIONS.standard}, at about an 8th-grade reading level: sentences of about 15 words, common words, and explain each medical term in plain words the first time you use it.`,
+  detailed: `Use ${READING_LEVEL_DESCRIPTIONS.detailed}.`,
+};
+
+export function loadReadingLevel(): ReadingLevel {
+  const stored = localStorage.getItem(READING_LEVEL_STORAGE_KEY);
+  return stored !== null && Object.hasOwn(TARGET_LIMITS, stored) ? stored as ReadingLevel : 'standard';
+}
+
+export const saveReadingLevel = (level: ReadingLevel): void =>
+  localStorage.setItem(READING_LEVEL_STORAGE_KEY, level);
+
+// Common clinical terms a patient is unlikely to know; used to spot jargon left unexplained
+const JARGON_TERMS = [
+  'abdominal', 'acute', 'anemia', 'anticoagulant', 'arrhythmia', 'asymptomatic', 'atherosclerosis', 'benign',
+  'bilateral', 'biopsy', 'bradycardia', 'chronic', 'contraindicated', 'creatinine', 'cyanosis', 'diuretic',
+  'dysphagia', 'dyspnea', 'edema', 'egfr', 'embolism', 'erythema', 'etiology', 'exacerbation', 'febrile',
+  'hematocrit', 'hemoglobin', 'hepatic', 'hyperglycemia', 'hyperlipidemia', 'hypertension', 'hypoglycemia',
+  'hypotension', 'idiopathic', 'infarction', 'inflammation', 'ischemia', 'lesion', 'lipid', 'malignant',
+  'metabolic', 'metastasis', 'myocardial', 'necrosis', 'neoplasm', 'neuropathy', 'nephropathy', 'palliative',
+  'palpitations', 'pathology', 'prognosis', 'prophylaxis', 'pulmonary', 'renal', 'sepsis', 'stenosis',
+  'subcutaneous', 'syncope', 'tachycardia', 'thrombosis', 'triglycerides', 'vascular',
+];
+
+// A term counts as explained when its sentence defines it right after it appears, e.g. "edema (swelling)"
+const EXPLANATION_PATTERN = /^\s*(\(|,? or |,? which (is|are|means)|\s*(is|are) (a|an|when|the)\b| means\b| refers to\b|\s*[:—-]\s)/i;
+
+export interface ReadabilityScore {
+  gradeLevel: number; // Flesch-Kincaid grade level
+  averageSentenceLength: number; // Words per sentence
+  wordCount: number;
+  unexplainedJargon: string[]; // Jargon terms used without a plain-language explanation
+}
+
+/**
+ * Estimates the syllables in an English word by counting vowel groups, ignoring a silent final "e",
+ * "-ed" or "-es" ("smile", "jumped", "makes") but not a sounded "-le" ("table").
+ */
+export function countSyllables(word: string): number {
+  let letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return letters.length > 0 ? 1 : 0;
+  if (/[^aeiouy]le$/.test(letters)) {
+    // "-le" after a consonant is its own syllable
+  } else if (/[^aeiouy]e$/.test(letters)) {
+    letters = letters.slice(0, -1);
+  } else if (/[^aeiouytd]ed$/.test(letters) || /[^aeiouysxzhc]es$/.test(letters)) {
+    letters = letters.slice(0, -2);
+  }
+  return Math.max(1, (letters.replace(/^y/, '').match(/[aeiouy]+/g) ?? []).length);
+}
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Scores English text with the Flesch-Kincaid grade level, average sentence length and a count of
+ * jargon terms that are never explained. Runs locally.
+ */
+export function scoreReadability(text: string): ReadabilityScore {
+  const plain = stripMarkdown(text);
+  // List items and headings end a sentence even without punctuation
+  const sentences = plain
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.replace(/^•\s*/, '').trim())
+    .filter(sentence => /[a-z]/i.test(sentence));
+  const words = sentences.flatMap(sentence => sentence.split(/\s+/)).filter(word => /[a-z]/i.test(word));
+  const wordCount = words.length;
+  if (wordCount === 0) {
+    return { gradeLevel: 0, averageSentenceLength: 0, wordCount: 0, unexplainedJargon: [] };
+  }
+
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  const averageSentenceLength = wordCount / sentences.length;
+  const gradeLevel = 0.39 * averageSentenceLength + 11.8 * (syllables / wordCount) - 15.59;
+
+  const unexplainedJargon = JARGON_TERMS.filter(term => {
+    const pattern = new RegExp(`\\b${escapeRegex(term)}\\b`, 'gi');
+    let used = false;
+    for (const sentence of sentences) {
+      for (const match of sentence.matchAll(pattern)) {
+        used = true;
+        const before = sentence.slice(0, match.index).toLowerCase();
+        const after = sentence.slice(match.index! + match[0].length);
+        if (EXPLANATION_PATTERN.test(after) || /\b(called|known as)\s*$/.test(before)) return false;
+      }
+    }
+    return used;
+  });
+
+  return {
+    gradeLevel: Math.max(0, Math.round(gradeLevel * 10) / 10),
+    averageSentenceLength: Math.round(averageSentenceLength * 10) / 10,
+    wordCount,
+    unexplainedJargon,
+  };
+}
+
+/**
+ * Whether a score is within the reading level's limits. Every score meets the detailed level.
+ */
+export function meetsReadingLevel(score: ReadabilityScore, level: ReadingLevel): boolean {
+  const limits = TARGET_LIMITS[level];
+  if (!limits) return true;
+  return score.gradeLevel <= limits.maxGrade
+    && score.averageSentenceLength <= limits.maxSentenceLength
+    && (!limits.explainJargon || score.unexplainedJargon.length === 0);
+}
+
+/**
+ * Appends the reading level to a system instruction.
+ */
+export const withReadingLevel = (systemInstruction: string, level: ReadingLevel): string =>
+  `${systemInstruction}\n\n${TARGET_INSTRUCTIONS[level]}`;
+
+/**
+ * Builds a prompt that rewrites an explanation more simply, naming what the score found too hard.
+ */
+export function buildSimplifyPrompt(text: string, score: ReadabilityScore, level: ReadingLevel): string {
+  const limits = TARGET_LIMITS[level];
+  const problems: string[] = [];
+  if (limits && score.gradeLevel > limits.maxGrade) {
+    problems.push(`it reads at about grade ${score.gradeLevel}, above the target of grade ${Math.floor(limits.maxGrade)}`);
+  }
+  if (limits && score.averageSentenceLength > limits.maxSentenceLength) {
+    problems.push(`its sentences average ${score.averageSentenceLength} words`);
+  }
+  if (score.unexplainedJargon.length > 0) {
+    problems.push(`these terms are not explained: ${score.unexplainedJargon.join(', ')}`);
+  }
+  return `Rewrite the following explanation for a patient so it is easier to read: ${problems.join('; ')}. ${TARGET_INSTRUCTIONS[level]} Keep every fact, number, unit and medication name exactly as written, and keep the same headings.
+
+Explanation:
+${text}`;
+}
@@ -0,0 +1,61 @@
+import { deleteRecord, getAllRecords, putRecord, STORES } from "./localDb";
+
+export interface Reminder {
+  id: string;
+  text: string;
+  dueAt: string; // ISO timestamp
+  createdAt: string; // ISO timestamp
+  notified: boolean; // Set once the reminder has been shown
+}
+
+// setTimeout stores its delay as a signed 32-bit integer; longer delays fire immediately
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Parses a reminder time given as an ISO 8601 date or date-time. A date without a time is due at 9:00 local time.
+ * @returns The due time, or null if the text is not a valid date.
+ */
+export function parseReminderTime(text: string): Date | null {
+  const trimmed = text.trim();
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(trimmed);
+  const date = new Date(dateOnly ? `${trimmed}T09:00` : trimmed);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export const formatReminderTime = (reminder: Reminder): string =>
+  new Date(reminder.dueAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export async function loadReminders(): Promise<Reminder[]> {
+  const reminders = await getAllRecords<Reminder>(STORES.reminders);
+  return reminders.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+export const saveReminder = (reminder: Reminder): Promise<void> => putRecord(STORES.reminders, reminder);
+
+export const deleteReminder = (id: string): Promise<void> => deleteRecord(STORES.reminders, id);
+
+/**
+ * Shows a reminder as a system notification when the user has allowed them.
+ * @returns Whether a notification was shown; callers fall back to an in-page alert otherwise.
+ */
+export function showReminderNotification(reminder: Reminder): boolean {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+  new Notification('Patient Advocate AI reminder', { body: reminder.text });
+  return true;
+}
+
+/**
+ * Schedules a callback for each reminder that has not been shown yet. Reminders that are already due fire right away.
+ * @returns A function that cancels the timers.
+ */
+export function scheduleReminders(reminders: Reminder[], onDue: (reminder: Reminder) => void): () => void {
+  const timers = reminders
+    .filter(reminder => !reminder.notified)
+    .map(reminder => {
+      const delay = new Date(reminder.dueAt).getTime() - Date.now();
+      // Far-off reminders are rescheduled the next time the app loads
+      if (delay > MAX_TIMER_DELAY_MS) return null;
+      return setTimeout(() => onDue(reminder), Math.max(0, delay));
+    });
+  return () => timers.forEach(timer => timer !== null && clearTimeout(timer));
+}
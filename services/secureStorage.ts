@@ -0,0 +1,71 @@
+// Passphrase-based encryption for data kept in localStorage: PBKDF2 (SHA-256) derives an AES-GCM key.
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+interface EncryptedPayload {
+  version: 1;
+  salt: string; // base64
+  iv: string; // base64
+  ciphertext: string; // base64
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+/**
+ * Encrypts a JSON-serializable value with the passphrase and stores it under the given key.
+ */
+export async function saveEncrypted(storageKey: string, value: unknown, passphrase: string): Promise<void> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  const payload: EncryptedPayload = {
+    version: 1,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  localStorage.setItem(storageKey, JSON.stringify(payload));
+}
+
+/**
+ * Decrypts the value stored under the given key.
+ * @returns The decrypted value, or null if nothing is stored.
+ * @throws If the passphrase is wrong or the stored data is corrupt.
+ */
+export async function loadEncrypted<T>(storageKey: string, passphrase: string): Promise<T | null> {
+  const stored = localStorage.getItem(storageKey);
+  if (!stored) return null;
+
+  const payload: EncryptedPayload = JSON.parse(stored);
+  const key = await deriveKey(passphrase, fromBase64(payload.salt));
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.ciphertext));
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  } catch {
+    throw new Error('Incorrect passphrase, or the stored data is corrupt.');
+  }
+}
+
+export const hasEncrypted = (storageKey: string): boolean => localStorage.getItem(storageKey) !== null;
+
+export const clearEncrypted = (storageKey: string): void => localStorage.removeItem(storageKey);
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mixSessionAudio } from './sessionAudio';
+
+// A 24 kHz playback context; like Firefox, it may refuse a microphone running at the device's rate
+const fakeContext = (acceptsMicrophone: boolean) => {
+  const destination = { stream: { id: 'mixed' } };
+  const micSource = { connect: vi.fn() };
+  const context = {
+    createMediaStreamDestination: vi.fn(() => destination),
+    createMediaStreamSource: vi.fn(() => {
+      if (!acceptsMicrophone) throw new DOMException('Connecting AudioNodes from AudioContexts with different sample-rate is currently not supported.', 'NotSupportedError');
+      return micSource;
+    }),
+  };
+  return { context: context as unknown as AudioContext, destination, micSource };
+};
+
+const micStream = { id: 'mic' } as unknown as MediaStream;
+
+describe('mixSessionAudio', () => {
+  it('mixes the microphone and the model output into one stream', () => {
+    const { context, destination, micSource } = fakeContext(true);
+    const modelOutput = { connect: vi.fn() } as unknown as AudioNode;
+    expect(mixSessionAudio(context, micStream, modelOutput)).toBe(destination.stream);
+    expect(micSource.connect).toHaveBeenCalledWith(destination);
+    expect(modelOutput.connect).toHaveBeenCalledWith(destination);
+  });
+
+  it('keeps the microphone alone when the context rejects it', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { context } = fakeContext(false);
+    const modelOutput = { connect: vi.fn() } as unknown as AudioNode;
+    expect(mixSessionAudio(context, micStream, modelOutput)).toBe(micStream);
+    expect(modelOutput.connect).not.toHaveBeenCalled();
+  });
+});
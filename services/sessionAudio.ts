@@ -0,0 +1,80 @@
+import { deleteRecord, getRecord, putRecord, STORES } from "./localDb";
+
+interface SessionAudioRecord {
+  id: string;
+  savedAt: string; // ISO timestamp
+  audio: Blob;
+}
+
+export interface AudioCapture {
+  /** Stops recording and resolves with everything captured since `startAudioCapture`. */
+  stop(): Promise<Blob>;
+}
+
+// Opus keeps an hour-long appointment to a few megabytes; Safari only records AAC in MP4.
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+/**
+ * Combines the microphone with the model's playback so both sides of the conversation are kept.
+ * Some browsers (e.g. Firefox) cannot connect a microphone to a context running at a different rate
+ * than the device; the microphone stream is then returned on its own, so at least the user's side is kept.
+ * @param context The context the model's audio is played in.
+ * @param micStream The same stream that is sent to the Live API.
+ * @param modelOutput The node the model's audio is played through.
+ */
+export function mixSessionAudio(context: AudioContext, micStream: MediaStream, modelOutput: AudioNode): MediaStream {
+  let micSource: MediaStreamAudioSourceNode;
+  try {
+    micSource = context.createMediaStreamSource(micStream);
+  } catch (error) {
+    console.warn('Could not mix the advocate into the kept audio; keeping the microphone only:', error);
+    return micStream;
+  }
+  const destination = context.createMediaStreamDestination();
+  micSource.connect(destination);
+  modelOutput.connect(destination);
+  return destination.stream;
+}
+
+/**
+ * Records the session audio locally alongside the Live session.
+ * @param stream The microphone stream, or its mix with the model's voice from `mixSessionAudio`.
+ */
+export function startAudioCapture(stream: MediaStream): AudioCapture {
+  const mimeType = PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(1000); // Collect a chunk every second so little is lost if the tab crashes
+
+  return {
+    stop: () => new Promise((resolve) => {
+      const finish = () => resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' }));
+      if (recorder.state === 'inactive') {
+        finish();
+        return;
+      }
+      recorder.onstop = finish;
+      recorder.stop();
+    }),
+  };
+}
+
+/**
+ * Stores session audio on this device.
+ * @returns The id to reference the audio by.
+ */
+export async function saveSessionAudio(audio: Blob): Promise<string> {
+  const record: SessionAudioRecord = { id: crypto.randomUUID(), savedAt: new Date().toISOString(), audio };
+  await putRecord(STORES.sessionAudio, record);
+  return record.id;
+}
+
+export async function loadSessionAudio(id: string): Promise<Blob | null> {
+  const record = await getRecord<SessionAudioRecord>(STORES.sessionAudio, id);
+  return record?.audio ?? null;
+}
+
+export const deleteSessionAudio = (id: string): Promise<void> => deleteRecord(STORES.sessionAudio, id);
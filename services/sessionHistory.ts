@@ -0,0 +1,95 @@
+import { GroundingCitation } from "./geminiService";
+import { deleteRecord, getAllRecords, putRecord, STORES } from "./localDb";
+
+export type HistoryTab = 'translate' | 'prepare' | 'summarize' | 'labs' | 'record';
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: string; // ISO timestamp
+  tab: HistoryTab;
+  inputText: string;
+  imageName: string | null; // Describes the uploaded pages, e.g. "3 pages from discharge.pdf"
+  imageDataUrls: string[]; // The page images, in order; only kept when the user chooses to save images
+  output: string;
+  extraOutput: string | null; // Secondary result, e.g. the extracted medications
+  model: string | null;
+  groundingUrls: { uri: string; title?: string }[];
+  citations?: GroundingCitation[]; // Passages tied to `groundingUrls`; missing on entries saved before citations were kept
+  pinned: boolean;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'timestamp' | 'pinned' | 'imageDataUrls'>;
+
+export const HISTORY_TAB_LABELS: Record<HistoryTab, string> = {
+  translate: 'Translate',
+  prepare: 'Prepare',
+  summarize: 'Summarize',
+  labs: 'Labs',
+  record: 'Record',
+};
+
+const fileToDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Saves a request/response pair to the local history.
+ * @param entry The entry to save.
+ * @param imageFiles The input page images; stored only if `includeImages` is true.
+ * @returns The saved entry.
+ */
+export async function saveHistoryEntry(entry: NewHistoryEntry, imageFiles: File[], includeImages: boolean): Promise<HistoryEntry> {
+  const saved: HistoryEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    pinned: false,
+    imageDataUrls: includeImages ? await Promise.all(imageFiles.map(fileToDataUrl)) : [],
+  };
+  await putRecord(STORES.history, saved);
+  return saved;
+}
+
+export const updateHistoryEntry = (entry: HistoryEntry): Promise<void> => putRecord(STORES.history, entry);
+
+export const deleteHistoryEntry = (id: string): Promise<void> => deleteRecord(STORES.history, id);
+
+/**
+ * Pinned entries first, then newest first.
+ */
+export const sortHistory = (entries: HistoryEntry[]): HistoryEntry[] =>
+  [...entries].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.timestamp.localeCompare(a.timestamp));
+
+// Entries saved before multi-page uploads kept a single `imageDataUrl`
+type StoredHistoryEntry = HistoryEntry & { imageDataUrl?: string | null };
+
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  const stored = await getAllRecords<StoredHistoryEntry>(STORES.history);
+  return sortHistory(stored.map(({ imageDataUrl, ...entry }) => ({
+    ...entry,
+    imageDataUrls: entry.imageDataUrls ?? (imageDataUrl ? [imageDataUrl] : []),
+  })));
+}
+
+/**
+ * Filters entries by tab and by a case-insensitive search across inputs and outputs.
+ */
+export function filterHistory(entries: HistoryEntry[], query: string, tab: HistoryTab | 'all'): HistoryEntry[] {
+  const needle = query.trim().toLowerCase();
+  return entries.filter(entry =>
+    (tab === 'all' || entry.tab === tab) &&
+    (!needle || [entry.inputText, entry.output, entry.extraOutput ?? ''].some(text => text.toLowerCase().includes(needle)))
+  );
+}
+
+/**
+ * Rebuilds a File from a stored image so a reopened entry can be re-run.
+ */
+export async function dataUrlToFile(dataUrl: string, name: string): Promise<File> {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], name, { type: blob.type });
+}
@@ -0,0 +1,165 @@
+import { GroundingCitation } from "./geminiService";
+
+const POLICY_STORAGE_KEY = 'sourcePolicy.v1';
+
+export type SourceTier = 'trusted' | 'unrated' | 'blocked';
+
+export interface SourcePolicy {
+  allowlist: string[]; // Trusted domains; subdomains match too
+  blocklist: string[]; // Domains whose pages are removed from the references; wins over the allowlist
+  minTrustedSources: number; // Fewer trusted references than this offers a re-run
+}
+
+export interface GroundingSource {
+  uri: string;
+  title?: string;
+}
+
+export const DEFAULT_SOURCE_POLICY: SourcePolicy = {
+  allowlist: [
+    'nih.gov',
+    'medlineplus.gov',
+    'cdc.gov',
+    'fda.gov',
+    'cancer.gov',
+    'mayoclinic.org',
+    'clevelandclinic.org',
+    'hopkinsmedicine.org',
+    'heart.org',
+    'diabetes.org',
+    'kidney.org',
+    'who.int',
+    'nhs.uk',
+  ],
+  blocklist: [
+    'mercola.com',
+    'naturalnews.com',
+    'gnc.com',
+    'vitaminshoppe.com',
+    'iherb.com',
+    'vitacost.com',
+    'swansonvitamins.com',
+    'puritan.com',
+    'bodybuilding.com',
+  ],
+  minTrustedSources: 2,
+};
+
+export const SOURCE_TIER_LABELS: Record<SourceTier, string> = {
+  trusted: 'Trusted',
+  unrated: 'Not rated',
+  blocked: 'Blocked',
+};
+
+// Search grounding links through a redirect on this host; the title then holds the site's domain
+const GROUNDING_REDIRECT_HOST = 'vertexaisearch.cloud.google.com';
+const DOMAIN_PATTERN = /^[a-z0-9-]+(?:\.[a-z0-9-]+)+$/;
+export const MAX_MIN_TRUSTED_SOURCES = 10;
+
+/**
+ * Reduces a URL or typed domain to a bare lowercase domain, e.g. "https://www.CDC.gov/flu" to
+ * "cdc.gov". Returns null for anything that isn't a domain.
+ */
+export function normalizeDomain(input: string): string | null {
+  const domain = input.trim().toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#:].*$/, '')
+    .replace(/^www\./, '');
+  return DOMAIN_PATTERN.test(domain) ? domain : null;
+}
+
+/**
+ * Parses a list of domains typed one per line or separated by commas, dropping invalid entries and duplicates.
+ */
+export const parseDomainList = (text: string): string[] =>
+  [...new Set(text.split(/[\n,]/).flatMap(entry => normalizeDomain(entry) ?? []))];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+/**
+ * Reads the saved policy, falling back to the defaults for anything missing or invalid.
+ */
+export function loadSourcePolicy(): SourcePolicy {
+  let stored: Partial<Record<keyof SourcePolicy, unknown>> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(POLICY_STORAGE_KEY) ?? '{}') ?? {};
+  } catch {
+    // Corrupt settings are replaced on the next save
+  }
+  const minTrustedSources = Number(stored.minTrustedSources);
+  return {
+    allowlist: isStringArray(stored.allowlist) ? parseDomainList(stored.allowlist.join('\n')) : DEFAULT_SOURCE_POLICY.allowlist,
+    blocklist: isStringArray(stored.blocklist) ? parseDomainList(stored.blocklist.join('\n')) : DEFAULT_SOURCE_POLICY.blocklist,
+    minTrustedSources: Number.isInteger(minTrustedSources) && minTrustedSources >= 0 && minTrustedSources <= MAX_MIN_TRUSTED_SOURCES
+      ? minTrustedSources
+      : DEFAULT_SOURCE_POLICY.minTrustedSources,
+  };
+}
+
+export const saveSourcePolicy = (policy: SourcePolicy): void =>
+  localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+
+/**
+ * The domain a reference comes from, or null if it can't be told.
+ */
+export function sourceDomain(source: GroundingSource): string | null {
+  const host = normalizeDomain(source.uri);
+  if (host === GROUNDING_REDIRECT_HOST) {
+    return source.title ? normalizeDomain(source.title) : null;
+  }
+  return host;
+}
+
+const matchesDomain = (domain: string, listed: string): boolean =>
+  domain === listed || domain.endsWith(`.${listed}`);
+
+export function classifySource(source: GroundingSource, policy: SourcePolicy): SourceTier {
+  const domain = sourceDomain(source);
+  if (!domain) return 'unrated';
+  if (policy.blocklist.some(listed => matchesDomain(domain, listed))) return 'blocked';
+  if (policy.allowlist.some(listed => matchesDomain(domain, listed))) return 'trusted';
+  return 'unrated';
+}
+
+export const countTrustedSources = (sources: GroundingSource[], policy: SourcePolicy): number =>
+  sources.filter(source => classifySource(source, policy) === 'trusted').length;
+
+/**
+ * Removes blocked sources from a grounded response. Citations are renumbered to match, and a passage
+ * left with no remaining source loses its citation, so it shows as unsupported.
+ */
+export function applySourcePolicy(
+  sources: GroundingSource[],
+  citations: GroundingCitation[],
+  policy: SourcePolicy,
+): { sources: GroundingSource[]; citations: GroundingCitation[]; blockedCount: number } {
+  const kept: GroundingSource[] = [];
+  const keptIndex = new Map<number, number>();
+  sources.forEach((source, index) => {
+    if (classifySource(source, policy) === 'blocked') return;
+    keptIndex.set(index, kept.length);
+    kept.push(source);
+  });
+  return {
+    sources: kept,
+    citations: citations.flatMap(citation => {
+      const sourceIndices = citation.sourceIndices.flatMap(index => keptIndex.get(index) ?? []);
+      return sourceIndices.length > 0 ? [{ ...citation, sourceIndices }] : [];
+    }),
+    blockedCount: sources.length - kept.length,
+  };
+}
+
+/**
+ * An instruction asking the model to search the trusted domains first, for re-running a query that
+ * came back with too few trusted sources.
+ */
+export function buildSourcePreferenceInstruction(policy: SourcePolicy): string {
+  const parts = [];
+  if (policy.allowlist.length > 0) {
+    parts.push(`When searching, rely on these trusted health sources wherever possible: ${policy.allowlist.join(', ')}.`);
+  }
+  parts.push(`Do not use ${policy.blocklist.length > 0 ? `${policy.blocklist.join(', ')}, or other ` : ''}sites that sell supplements or health products as sources.`);
+  return parts.join(' ');
+}
@@ -0,0 +1,149 @@
+import { Schema, Type } from "@google/genai";
+import { callGemini } from "./geminiService";
+
+export type SpeakerRole = 'patient' | 'doctor' | 'caregiver' | 'other' | 'model';
+
+export interface TranscriptSpeaker {
+  id: string;
+  role: SpeakerRole;
+  name: string; // Editable display name, e.g. "Dr. Patel"
+}
+
+export interface TranscriptEntry {
+  speaker: string; // TranscriptSpeaker id
+  text: string;
+  startMs: number; // Offsets from the start of the recording session
+  endMs: number;
+}
+
+export const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+  patient: 'Patient',
+  doctor: 'Doctor',
+  caregiver: 'Caregiver',
+  other: 'Other',
+  model: 'Advocate',
+};
+
+export const DEFAULT_SPEAKERS: TranscriptSpeaker[] = [
+  { id: 'patient', role: 'patient', name: 'Patient' },
+  { id: 'doctor', role: 'doctor', name: 'Doctor' },
+  { id: 'caregiver', role: 'caregiver', name: 'Caregiver' },
+  { id: 'model', role: 'model', name: 'Advocate' },
+];
+
+export const PATIENT_SPEAKER_ID = 'patient';
+export const MODEL_SPEAKER_ID = 'model';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// Speaker labels used before entries carried speaker ids
+const LEGACY_SPEAKER_IDS: Record<string, string> = { User: PATIENT_SPEAKER_ID, Visit: PATIENT_SPEAKER_ID, Model: MODEL_SPEAKER_ID };
+
+export const speakerName = (speakers: TranscriptSpeaker[], id: string): string =>
+  speakers.find(speaker => speaker.id === id)?.name ?? id;
+
+/**
+ * Adds another human speaker with a unique id, e.g. a second doctor.
+ */
+export function addSpeaker(speakers: TranscriptSpeaker[], role: Exclude<SpeakerRole, 'model'>): TranscriptSpeaker[] {
+  const count = speakers.filter(speaker => speaker.role === role).length;
+  let suffix = count + 1;
+  while (speakers.some(speaker => speaker.id === `${role}-${suffix}`)) suffix++;
+  return [...speakers, { id: `${role}-${suffix}`, role, name: `${SPEAKER_ROLE_LABELS[role]} ${count + 1}` }];
+}
+
+/**
+ * Validates a speaker list read from storage, falling back to the default speakers if none are usable.
+ */
+export function normalizeSpeakers(raw: unknown): TranscriptSpeaker[] {
+  const speakers = (Array.isArray(raw) ? raw : []).flatMap((speaker: unknown): TranscriptSpeaker[] =>
+    isRecord(speaker) && typeof speaker.id === 'string' && typeof speaker.name === 'string'
+      && typeof speaker.role === 'string' && Object.hasOwn(SPEAKER_ROLE_LABELS, speaker.role)
+      ? [{ id: speaker.id, role: speaker.role as SpeakerRole, name: speaker.name }]
+      : []);
+  return speakers.length > 0 ? speakers : DEFAULT_SPEAKERS;
+}
+
+/**
+ * Validates transcript entries read from storage, upgrading entries saved with plain speaker labels.
+ */
+export function normalizeTranscript(raw: unknown): TranscriptEntry[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry: unknown): TranscriptEntry[] => {
+    if (!isRecord(entry) || typeof entry.text !== 'string') return [];
+    const startMs = typeof entry.startMs === 'number' ? entry.startMs : 0;
+    const speaker = String(entry.speaker ?? PATIENT_SPEAKER_ID);
+    return [{
+      speaker: Object.hasOwn(LEGACY_SPEAKER_IDS, speaker) ? LEGACY_SPEAKER_IDS[speaker] : speaker,
+      text: entry.text,
+      startMs,
+      endMs: typeof entry.endMs === 'number' ? entry.endMs : startMs,
+    }];
+  });
+}
+
+/**
+ * Formats a session offset as m:ss (or h:mm:ss for long recordings).
+ */
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * Renders the transcript as plain text, one "[m:ss] Speaker: text" line per entry.
+ */
+export const formatTranscript = (entries: TranscriptEntry[], speakers: TranscriptSpeaker[]): string =>
+  entries.map(entry => `[${formatTimestamp(entry.startMs)}] ${speakerName(speakers, entry.speaker)}: ${entry.text}`).join('\n');
+
+/**
+ * Asks the model which human speaker said each segment of a recorded appointment.
+ * Segments spoken by the advocate keep their speaker.
+ * @returns The transcript with updated speaker ids.
+ */
+export async function diarizeTranscript(entries: TranscriptEntry[], speakers: TranscriptSpeaker[]): Promise<TranscriptEntry[]> {
+  const humans = speakers.filter(speaker => speaker.role !== 'model');
+  const schema: Schema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        segment: { type: Type.INTEGER, description: 'Segment number.' },
+        speakerId: { type: Type.STRING, enum: humans.map(speaker => speaker.id), description: 'Id of the person speaking.' },
+      },
+      required: ['segment', 'speakerId'],
+      propertyOrdering: ['segment', 'speakerId'],
+    },
+  };
+  const numbered = entries
+    .map((entry, index) => entry.speaker === MODEL_SPEAKER_ID ? null : `${index}: ${entry.text}`)
+    .filter(Boolean)
+    .join('\n');
+  const response = await callGemini({
+    prompt: `Identify who is speaking in each numbered segment of this medical appointment transcript, using what they say and how they say it.\n\nPeople present:\n${humans.map(speaker => `- ${speaker.id}: ${SPEAKER_ROLE_LABELS[speaker.role]} (${speaker.name})`).join('\n')}\n\nSegments:\n${numbered}`,
+    systemInstruction: "You label speakers in medical conversations. Clinicians ask about symptoms, examine and give instructions; patients describe how they feel.",
+    responseSchema: schema,
+  });
+
+  let assignments: unknown;
+  try {
+    assignments = JSON.parse(response.text);
+  } catch {
+    throw new Error('Speaker identification returned invalid JSON.');
+  }
+  const validIds = new Set(humans.map(speaker => speaker.id));
+  const bySegment = new Map<number, string>();
+  (Array.isArray(assignments) ? assignments : []).forEach((assignment: unknown) => {
+    if (isRecord(assignment) && typeof assignment.segment === 'number' && Number.isInteger(assignment.segment)
+      && typeof assignment.speakerId === 'string' && validIds.has(assignment.speakerId)) {
+      bySegment.set(assignment.segment, assignment.speakerId);
+    }
+  });
+  return entries.map((entry, index) =>
+    entry.speaker !== MODEL_SPEAKER_ID && bySegment.has(index) ? { ...entry, speaker: bySegment.get(index)! } : entry
+  );
+}
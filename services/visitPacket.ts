@@ -0,0 +1,400 @@
+import { LabResult } from "./labResults";
+import { safeLinkHref } from "./markdown";
+import { describeMedication, isActiveMedication, Medication } from "./medications";
+import { PatientProfile } from "./patientProfile";
+
+export type VisitPacketSection = 'header' | 'questions' | 'notes' | 'summary' | 'medications' | 'labs' | 'references';
+
+export const VISIT_PACKET_SECTION_LABELS: Record<VisitPacketSection, string> = {
+  header: 'Patient header',
+  questions: 'Question checklist',
+  notes: 'Appointment notes',
+  summary: 'Visit summary',
+  medications: 'Current medications',
+  labs: 'Recent labs',
+  references: 'References',
+};
+
+/** Everything the app currently has that can go into a packet. */
+export interface VisitPacketSources {
+  profile: PatientProfile | null;
+  prepareOutput: string | null;
+  savedQuestions: string[]; // The patient's appointment question list
+  summarizeOutput: string | null;
+  medications: Medication[];
+  labResults: LabResult[];
+  labCollectionDate: string | null;
+  labExplanation: string | null;
+  groundingUrls: { uri: string; title?: string }[];
+}
+
+export interface VisitPacketOptions {
+  sections: VisitPacketSection[];
+  patientName: string; // Typed in at export time; never stored
+  visitDate: string;
+}
+
+export interface VisitPacket {
+  generatedAt: string; // ISO timestamp
+  header: {
+    patientName: string;
+    visitDate: string;
+    age: number | null;
+    sex: string;
+    conditions: string[];
+    allergies: string[];
+  } | null;
+  questions: string[];
+  notes: string | null;
+  summary: string | null;
+  medications: string[];
+  labs: { collectionDate: string | null; results: LabResult[]; explanation: string | null } | null;
+  references: { uri: string; title: string }[];
+}
+
+/**
+ * Removes markdown emphasis, headings and list markers so text reads cleanly on paper.
+ */
+export const stripMarkdown = (text: string): string =>
+  text
+    .split('\n')
+    .map(line => line
+      .replace(/^\s*#{1,6}\s+/, '')
+      .replace(/^\s*[-*]\s+/, '• ')
+      .replace(/\*\*(.*?)\*\*/g, '$1')
+      .replace(/\*(.*?)\*/g, '$1')
+      .replace(/`([^`]*)`/g, '$1'))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Pulls the questions out of the Prepare tab's answer: every list item or line that ends with "?".
+ */
+export function extractQuestions(text: string): string[] {
+  const questions = text
+    .split('\n')
+    .map(line => stripMarkdown(line).replace(/^(•|\d+[.)])\s*/, '').trim())
+    .filter(line => line.endsWith('?'));
+  return Array.from(new Set(questions));
+}
+
+/**
+ * The patient's saved questions followed by any new ones from the Prepare tab's answer.
+ */
+const checklistQuestions = (sources: VisitPacketSources): string[] => {
+  const seen = new Set(sources.savedQuestions.map(question => question.toLowerCase()));
+  const suggested = sources.prepareOutput ? extractQuestions(sources.prepareOutput) : [];
+  return [...sources.savedQuestions, ...suggested.filter(question => !seen.has(question.toLowerCase()))];
+};
+
+/**
+ * Lists which sections have content, so the export form only offers those.
+ */
+export function availableSections(sources: VisitPacketSources): VisitPacketSection[] {
+  const available: Record<VisitPacketSection, boolean> = {
+    header: true,
+    questions: checklistQuestions(sources).length > 0,
+    notes: Boolean(sources.prepareOutput),
+    summary: Boolean(sources.summarizeOutput),
+    medications: sources.medications.some(medication => isActiveMedication(medication)),
+    labs: sources.labResults.length > 0 || Boolean(sources.labExplanation),
+    references: sources.groundingUrls.length > 0,
+  };
+  return (Object.keys(available) as VisitPacketSection[]).filter(section => available[section]);
+}
+
+/**
+ * Assembles the selected sections into a packet ready for printing or PDF export.
+ */
+export function buildVisitPacket(sources: VisitPacketSources, options: VisitPacketOptions): VisitPacket {
+  const include = (section: VisitPacketSection) => options.sections.includes(section);
+  const references = new Map<string, string>();
+  sources.groundingUrls.forEach(url => {
+    if (!references.has(url.uri)) references.set(url.uri, url.title || url.uri);
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    header: include('header') ? {
+      patientName: options.patientName.trim(),
+      visitDate: options.visitDate,
+      age: sources.profile?.age ?? null,
+      sex: sources.profile?.sex ?? '',
+      conditions: sources.profile?.conditions ?? [],
+      allergies: sources.profile?.allergies ?? [],
+    } : null,
+    questions: include('questions') ? checklistQuestions(sources) : [],
+    notes: include('notes') && sources.prepareOutput ? stripMarkdown(sources.prepareOutput) : null,
+    summary: include('summary') && sources.summarizeOutput ? stripMarkdown(sources.summarizeOutput) : null,
+    medications: include('medications')
+      ? sources.medications.filter(medication => isActiveMedication(medication)).map(describeMedication)
+      : [],
+    labs: include('labs') && (sources.labResults.length > 0 || sources.labExplanation) ? {
+      collectionDate: sources.labCollectionDate,
+      results: sources.labResults,
+      explanation: sources.labExplanation ? stripMarkdown(sources.labExplanation) : null,
+    } : null,
+    references: include('references') ? Array.from(references, ([uri, title]) => ({ uri, title })) : [],
+  };
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraphs = (text: string): string =>
+  text.split(/\n{2,}/).map(block => `<p>${escapeHtml(block).replace(/\n/g, '<br>')}</p>`).join('');
+
+const formatLabValue = (result: LabResult): string =>
+  [result.valueText, result.unit].filter(Boolean).join(' ');
+
+const formatHeaderLines = (header: NonNullable<VisitPacket['header']>): [string, string][] =>
+  ([
+    ['Patient', header.patientName],
+    ['Visit date', header.visitDate],
+    ['Age', header.age !== null ? String(header.age) : ''],
+    ['Sex', header.sex],
+    ['Conditions', header.conditions.join(', ')],
+    ['Allergies', header.allergies.join(', ')],
+  ] as [string, string][]).filter(([, value]) => value);
+
+const PRINT_STYLES = `
+  @page { margin: 18mm; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #111; font-size: 11pt; line-height: 1.45; margin: 0; }
+  h1 { font-size: 18pt; margin: 0 0 4pt; }
+  h2 { font-size: 13pt; border-bottom: 1px solid #999; padding-bottom: 2pt; margin: 16pt 0 6pt; break-after: avoid; }
+  .generated { color: #555; font-size: 9pt; margin-bottom: 12pt; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 2pt 12pt; margin: 0; }
+  dt { font-weight: bold; }
+  dd { margin: 0; }
+  ul.checklist { list-style: none; padding: 0; }
+  ul.checklist li { margin-bottom: 6pt; break-inside: avoid; }
+  ul.checklist li::before { content: '\\2610'; margin-right: 6pt; }
+  table { border-collapse: collapse; width: 100%; font-size: 10pt; }
+  th, td { border: 1px solid #bbb; padding: 3pt 5pt; text-align: left; }
+  tr { break-inside: avoid; }
+  .flag { font-weight: bold; }
+  a { color: #111; word-break: break-all; }
+  .disclaimer { margin-top: 18pt; font-size: 9pt; color: #555; }
+`;
+
+export const VISIT_PACKET_DISCLAIMER =
+  'Prepared with Patient Advocate AI for discussion with your care team. This is not medical advice.';
+
+/**
+ * Renders the packet as a standalone HTML document with a print stylesheet.
+ */
+export function renderVisitPacketHtml(packet: VisitPacket): string {
+  const body: string[] = [
+    '<h1>Visit Packet</h1>',
+    `<div class="generated">Prepared ${escapeHtml(new Date(packet.generatedAt).toLocaleString())}</div>`,
+  ];
+
+  if (packet.header) {
+    const lines = formatHeaderLines(packet.header);
+    if (lines.length > 0) {
+      body.push(`<dl>${lines.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>`);
+    }
+  }
+  if (packet.questions.length > 0) {
+    body.push('<h2>Questions to Ask</h2>');
+    body.push(`<ul class="checklist">${packet.questions.map(question => `<li>${escapeHtml(question)}</li>`).join('')}</ul>`);
+  }
+  if (packet.notes) {
+    body.push('<h2>Appointment Notes</h2>', paragraphs(packet.notes));
+  }
+  if (packet.summary) {
+    body.push('<h2>Visit Summary</h2>', paragraphs(packet.summary));
+  }
+  if (packet.medications.length > 0) {
+    body.push('<h2>Current Medications</h2>');
+    body.push(`<ul>${packet.medications.map(medication => `<li>${escapeHtml(medication)}</li>`).join('')}</ul>`);
+  }
+  if (packet.labs) {
+    body.push(`<h2>Recent Labs${packet.labs.collectionDate ? ` (${escapeHtml(packet.labs.collectionDate)})` : ''}</h2>`);
+    if (packet.labs.results.length > 0) {
+      body.push(
+        '<table><thead><tr><th>Test</th><th>Result</th><th>Reference range</th><th>Flag</th></tr></thead><tbody>' +
+        packet.labs.results.map(result =>
+          `<tr><td>${escapeHtml(result.analyte)}</td><td>${escapeHtml(formatLabValue(result))}</td>` +
+          `<td>${escapeHtml(result.referenceRange)}</td>` +
+          `<td class="flag">${result.flag && result.flag !== 'normal' ? escapeHtml(result.flag) : ''}</td></tr>`
+        ).join('') +
+        '</tbody></table>'
+      );
+    }
+    if (packet.labs.explanation) {
+      body.push(paragraphs(packet.labs.explanation));
+    }
+  }
+  if (packet.references.length > 0) {
+    body.push('<h2>References</h2>');
+    // Only checked URLs become links; the packet is written into a window on this origin
+    body.push(`<ol>${packet.references.map(reference => {
+      const href = safeLinkHref(reference.uri);
+      const uri = escapeHtml(reference.uri);
+      return `<li>${escapeHtml(reference.title)}<br>${href ? `<a href="${escapeHtml(href)}">${uri}</a>` : uri}</li>`;
+    }).join('')}</ol>`);
+  }
+  body.push(`<p class="disclaimer">${VISIT_PACKET_DISCLAIMER}</p>`);
+
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><title>Visit Packet</title><style>${PRINT_STYLES}</style></head><body>${body.join('\n')}</body></html>`;
+}
+
+/**
+ * Opens the browser's print dialog for the packet, from which it can also be saved as a PDF.
+ */
+export function printVisitPacket(packet: VisitPacket): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow!;
+  frameWindow.document.open();
+  frameWindow.document.write(renderVisitPacketHtml(packet));
+  frameWindow.document.close();
+  frameWindow.addEventListener('afterprint', () => frame.remove());
+  frameWindow.focus();
+  frameWindow.print();
+}
+
+// jsPDF's built-in fonts only have the Windows-1252 letters, so Chinese, Vietnamese and other scripts can't be drawn
+const PDF_UNSUPPORTED_LETTER = /(?![A-Za-z\xaa\xb5\xba\xc0-\xff\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192])[\p{L}\p{M}]/u;
+
+export const PDF_UNSUPPORTED_TEXT_MESSAGE =
+  'This packet has text the PDF fonts cannot show, such as Chinese or Vietnamese. Use Print and choose "Save as PDF" instead.';
+
+/**
+ * Whether every letter in the packet can be drawn in the PDF. The print view uses the browser's fonts and has no such limit.
+ */
+export const canCreateVisitPacketPdf = (packet: VisitPacket): boolean =>
+  !PDF_UNSUPPORTED_LETTER.test(JSON.stringify(packet));
+
+/**
+ * Generates the packet as a PDF in the browser. jsPDF is loaded on first use.
+ * @returns A Promise resolving to the PDF file contents.
+ * @throws If the packet has text the PDF fonts cannot draw; see `canCreateVisitPacketPdf`.
+ */
+export async function createVisitPacketPdf(packet: VisitPacket): Promise<Blob> {
+  if (!canCreateVisitPacketPdf(packet)) {
+    throw new Error(PDF_UNSUPPORTED_TEXT_MESSAGE);
+  }
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const margin = 50;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  const writeText = (text: string, options: { size?: number; bold?: boolean; indent?: number; gap?: number } = {}) => {
+    const { size = 11, bold = false, indent = 0, gap = 4 } = options;
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    const lineHeight = size * 1.35;
+    (doc.splitTextToSize(text, contentWidth - indent) as string[]).forEach(line => {
+      ensureSpace(lineHeight);
+      doc.text(line, margin + indent, y + size);
+      y += lineHeight;
+    });
+    y += gap;
+  };
+
+  const writeHeading = (text: string) => {
+    ensureSpace(40);
+    y += 10;
+    writeText(text, { size: 14, bold: true, gap: 0 });
+    doc.setDrawColor(150);
+    doc.line(margin, y, pageWidth - margin, y);
+    y += 8;
+  };
+
+  writeText('Visit Packet', { size: 20, bold: true, gap: 0 });
+  writeText(`Prepared ${new Date(packet.generatedAt).toLocaleString()}`, { size: 9, gap: 10 });
+
+  if (packet.header) {
+    formatHeaderLines(packet.header).forEach(([label, value]) => writeText(`${label}: ${value}`, { gap: 0 }));
+  }
+  if (packet.questions.length > 0) {
+    writeHeading('Questions to Ask');
+    packet.questions.forEach(question => {
+      ensureSpace(16);
+      doc.setDrawColor(0);
+      doc.rect(margin, y + 2, 10, 10);
+      writeText(question, { indent: 18, gap: 6 });
+    });
+  }
+  if (packet.notes) {
+    writeHeading('Appointment Notes');
+    writeText(packet.notes);
+  }
+  if (packet.summary) {
+    writeHeading('Visit Summary');
+    writeText(packet.summary);
+  }
+  if (packet.medications.length > 0) {
+    writeHeading('Current Medications');
+    packet.medications.forEach(medication => writeText(`• ${medication}`, { gap: 2 }));
+  }
+  if (packet.labs) {
+    writeHeading(`Recent Labs${packet.labs.collectionDate ? ` (${packet.labs.collectionDate})` : ''}`);
+    if (packet.labs.results.length > 0) {
+      const columns = [0, 0.4, 0.65, 0.9].map(fraction => margin + contentWidth * fraction);
+      const lineHeight = 12;
+      // Cells wrap within their column, and the row is as tall as its longest cell
+      const writeRow = (cells: string[], bold: boolean) => {
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        doc.setFontSize(10);
+        const wrapped = cells.map((cell, index) =>
+          doc.splitTextToSize(cell, (columns[index + 1] ?? pageWidth - margin) - columns[index] - 4) as string[]);
+        const height = Math.max(1, ...wrapped.map(lines => lines.length)) * lineHeight + 3;
+        ensureSpace(height);
+        wrapped.forEach((lines, index) => lines.forEach((line, lineIndex) => doc.text(line, columns[index], y + 10 + lineIndex * lineHeight)));
+        y += height;
+      };
+      writeRow(['Test', 'Result', 'Reference range', 'Flag'], true);
+      packet.labs.results.forEach(result => writeRow([
+        result.analyte,
+        formatLabValue(result),
+        result.referenceRange,
+        result.flag && result.flag !== 'normal' ? result.flag : '',
+      ], false));
+      y += 6;
+    }
+    if (packet.labs.explanation) {
+      writeText(packet.labs.explanation);
+    }
+  }
+  if (packet.references.length > 0) {
+    writeHeading('References');
+    packet.references.forEach((reference, index) => {
+      writeText(`${index + 1}. ${reference.title}`, { gap: 0 });
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      const href = safeLinkHref(reference.uri);
+      if (href) doc.setTextColor(37, 99, 235);
+      (doc.splitTextToSize(reference.uri, contentWidth - 14) as string[]).forEach(line => {
+        ensureSpace(12);
+        if (href) doc.textWithLink(line, margin + 14, y + 9, { url: href });
+        else doc.text(line, margin + 14, y + 9);
+        y += 12;
+      });
+      doc.setTextColor(0);
+      y += 6;
+    });
+  }
+  y += 10;
+  writeText(VISIT_PACKET_DISCLAIMER, { size: 9 });
+
+  return doc.output('blob');
+}
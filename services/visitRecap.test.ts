@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SPEAKERS } from './transcript';
+import { formatVisitRecap, parseSavedRecording, parseVisitRecap } from './visitRecap';
+
+const transcript = [
+  { speaker: 'doctor', text: 'Take it with food.', startMs: 0, endMs: 2000 },
+  { speaker: 'patient', text: 'Okay.', startMs: 61000, endMs: 62000 },
+];
+
+describe('parseVisitRecap', () => {
+  it('keeps items with text and drops segments outside the transcript', () => {
+    const recap = parseVisitRecap(JSON.stringify({
+      instructions: [{ text: ' Take it with food. ', segments: [0, 1, 2, -1, 0.5, '1'] }, { text: ' ' }, null, 'text'],
+      followUps: 'none',
+    }), transcript.length);
+    expect(recap).toEqual({
+      diagnoses: [],
+      instructions: [{ text: 'Take it with food.', segments: [0, 1] }],
+      medicationChanges: [],
+      followUps: [],
+      openQuestions: [],
+    });
+  });
+
+  it('rejects answers that are not an object', () => {
+    expect(() => parseVisitRecap('[', 1)).toThrow('invalid JSON');
+    expect(() => parseVisitRecap('null', 1)).toThrow('not return an object');
+  });
+});
+
+describe('parseSavedRecording', () => {
+  it('validates a damaged recap and speaker list so it can be rendered', () => {
+    const recording = parseSavedRecording(JSON.stringify({
+      transcript,
+      speakers: [{ id: 'doctor', role: 'doctor', name: 'Dr. Patel' }, { id: 'x', role: 'toString', name: 'X' }, 'patient'],
+      recap: { diagnoses: 'flu', instructions: [{ text: 'Rest', segments: [5, 1] }] },
+      audioId: 42,
+    }));
+    expect(recording).toEqual({
+      transcript,
+      speakers: [{ id: 'doctor', role: 'doctor', name: 'Dr. Patel' }],
+      recap: {
+        diagnoses: [],
+        instructions: [{ text: 'Rest', segments: [1] }],
+        medicationChanges: [],
+        followUps: [],
+        openQuestions: [],
+      },
+      audioId: null,
+    });
+    expect(formatVisitRecap(recording!.recap!, recording!.transcript)).toBe('## Instructions\n- Rest (1:01)');
+  });
+
+  it('falls back to the default speakers and no recap', () => {
+    const recording = parseSavedRecording(JSON.stringify({ transcript, speakers: 'none', recap: 'broken' }));
+    expect(recording?.speakers).toEqual(DEFAULT_SPEAKERS);
+    expect(recording?.recap).toBeNull();
+  });
+
+  it('returns null for entries without a transcript', () => {
+    expect(parseSavedRecording(null)).toBeNull();
+    expect(parseSavedRecording('{')).toBeNull();
+    expect(parseSavedRecording('{"transcript":"text"}')).toBeNull();
+  });
+});
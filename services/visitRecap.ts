@@ -0,0 +1,155 @@
+import { Schema, Type } from "@google/genai";
+import { callGemini } from "./geminiService";
+import { AppLanguage, buildLanguageInstruction } from "./i18n";
+import { formatTimestamp, normalizeSpeakers, normalizeTranscript, speakerName, TranscriptEntry, TranscriptSpeaker } from "./transcript";
+
+export interface RecapItem {
+  text: string;
+  segments: number[]; // Indexes into the transcript the item was taken from
+}
+
+export interface VisitRecap {
+  diagnoses: RecapItem[];
+  instructions: RecapItem[];
+  medicationChanges: RecapItem[];
+  followUps: RecapItem[];
+  openQuestions: RecapItem[];
+}
+
+export type RecapSection = keyof VisitRecap;
+
+export const RECAP_SECTION_LABELS: Record<RecapSection, string> = {
+  diagnoses: 'Diagnoses Discussed',
+  instructions: 'Instructions',
+  medicationChanges: 'Medication Changes',
+  followUps: 'Follow-up Dates',
+  openQuestions: 'Open Questions',
+};
+
+const RECAP_SECTIONS = Object.keys(RECAP_SECTION_LABELS) as RecapSection[];
+
+/** System instruction for Live sessions that only listen to the appointment. */
+export const VISIT_LISTENER_INSTRUCTION =
+  "You are a silent note-taker listening to a patient's medical appointment. Never speak, answer, greet or comment. Stay silent for the whole session.";
+
+const RECAP_ITEM_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING, description: 'One short, plain-language point.' },
+    segments: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: 'Numbers of the transcript segments this point comes from.' },
+  },
+  required: ['text', 'segments'],
+  propertyOrdering: ['text', 'segments'],
+};
+
+const VISIT_RECAP_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    diagnoses: { type: Type.ARRAY, items: RECAP_ITEM_SCHEMA, description: 'Diagnoses or conditions that were discussed.' },
+    instructions: { type: Type.ARRAY, items: RECAP_ITEM_SCHEMA, description: 'Things the patient was told to do.' },
+    medicationChanges: { type: Type.ARRAY, items: RECAP_ITEM_SCHEMA, description: 'Medications started, stopped or changed.' },
+    followUps: { type: Type.ARRAY, items: RECAP_ITEM_SCHEMA, description: 'Follow-up appointments, tests and their dates.' },
+    openQuestions: { type: Type.ARRAY, items: RECAP_ITEM_SCHEMA, description: 'Questions left unanswered or points that were unclear.' },
+  },
+  required: RECAP_SECTIONS,
+  propertyOrdering: RECAP_SECTIONS,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// Keeps items with text, and only the segment numbers that are in the transcript
+const parseRecapItems = (value: unknown, segmentCount: number): RecapItem[] =>
+  (Array.isArray(value) ? value : []).flatMap((item: unknown): RecapItem[] => {
+    if (!isRecord(item) || typeof item.text !== 'string' || !item.text.trim()) return [];
+    const segments: unknown[] = Array.isArray(item.segments) ? item.segments : [];
+    return [{
+      text: item.text.trim(),
+      segments: segments.filter((segment): segment is number => Number.isInteger(segment) && (segment as number) >= 0 && (segment as number) < segmentCount),
+    }];
+  });
+
+const parseRecapSections = (raw: Record<string, unknown>, segmentCount: number): VisitRecap => ({
+  diagnoses: parseRecapItems(raw.diagnoses, segmentCount),
+  instructions: parseRecapItems(raw.instructions, segmentCount),
+  medicationChanges: parseRecapItems(raw.medicationChanges, segmentCount),
+  followUps: parseRecapItems(raw.followUps, segmentCount),
+  openQuestions: parseRecapItems(raw.openQuestions, segmentCount),
+});
+
+/**
+ * Parses the model's JSON recap, dropping segment numbers that are not in the transcript.
+ */
+export function parseVisitRecap(json: string, segmentCount: number): VisitRecap {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Visit recap returned invalid JSON.');
+  }
+  if (!isRecord(raw)) {
+    throw new Error('Visit recap did not return an object.');
+  }
+  return parseRecapSections(raw, segmentCount);
+}
+
+/**
+ * Builds a recap of a recorded appointment, with each point linked to the transcript segments it came from.
+ * @param transcript The recorded transcript.
+ * @param speakers The speakers referenced by the transcript.
+ * @param language The language to write the recap in.
+ */
+export async function generateVisitRecap(transcript: TranscriptEntry[], speakers: TranscriptSpeaker[], language: AppLanguage): Promise<VisitRecap> {
+  const numbered = transcript
+    .map((entry, index) => `${index} [${formatTimestamp(entry.startMs)}] ${speakerName(speakers, entry.speaker)}: ${entry.text}`)
+    .join('\n');
+  const response = await callGemini({
+    prompt: `Write a visit recap from this transcript of a medical appointment. Each line starts with its segment number and time. For every point, list the segment numbers it comes from. Only include what was actually said; leave a list empty if nothing was discussed.\n\nTranscript:\n${numbered}`,
+    systemInstruction: ["You are a careful medical advocate helping a patient remember their appointment. You never add advice or details that were not said.", buildLanguageInstruction(language)].filter(Boolean).join('\n\n'),
+    responseSchema: VISIT_RECAP_SCHEMA,
+  });
+  return parseVisitRecap(response.text, transcript.length);
+}
+
+/**
+ * Renders the recap as markdown, with the transcript time of each point.
+ */
+export function formatVisitRecap(recap: VisitRecap, transcript: TranscriptEntry[]): string {
+  return RECAP_SECTIONS
+    .filter(section => recap[section].length > 0)
+    .map(section => `## ${RECAP_SECTION_LABELS[section]}\n` + recap[section].map(item => {
+      const times = item.segments.map(segment => formatTimestamp(transcript[segment].startMs));
+      return `- ${item.text}${times.length > 0 ? ` (${times.join(', ')})` : ''}`;
+    }).join('\n'))
+    .join('\n\n');
+}
+
+export interface SavedRecording {
+  transcript: TranscriptEntry[];
+  speakers: TranscriptSpeaker[];
+  recap: VisitRecap | null;
+  audioId: string | null; // Locally stored session audio, if the user kept it
+}
+
+export const serializeRecording = (recording: SavedRecording): string => JSON.stringify(recording);
+
+/**
+ * Reads a recording saved in the session history; returns null if the data is missing or malformed.
+ * The recap is checked against the transcript like a new one, so a damaged entry can't break rendering.
+ */
+export function parseSavedRecording(json: string | null): SavedRecording | null {
+  if (!json) return null;
+  try {
+    const raw: unknown = JSON.parse(json);
+    if (!isRecord(raw) || !Array.isArray(raw.transcript)) return null;
+    const transcript = normalizeTranscript(raw.transcript);
+    return {
+      transcript,
+      speakers: normalizeSpeakers(raw.speakers),
+      recap: isRecord(raw.recap) ? parseRecapSections(raw.recap, transcript.length) : null,
+      audioId: typeof raw.audioId === 'string' ? raw.audioId : null,
+    };
+  } catch {
+    return null;
+  }
+}